@@ -0,0 +1,134 @@
+import { createHash, randomBytes } from "crypto";
+import { GetCommand, PutCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { API_TOKENS_TABLE, docClient } from "./dynamo.js";
+
+/**
+ * Admin-issued API tokens for scripts (DynamoDB, keyed by token_id).
+ *
+ * Token format: vst_<id>_<secret>. Only a SHA-256 of the whole token is
+ * stored; the plaintext is shown once, when it's created.
+ * Send it as `Authorization: Bearer vst_...`.
+ */
+
+export const API_SCOPES = ["memories:write", "media:delete", "index:rebuild"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export interface ApiTokenRecord {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  /** Unix seconds; null = never expires. */
+  expiresAt: number | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+const TOKEN_PATTERN = /^vst_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === "string" && (API_SCOPES as readonly string[]).includes(value);
+}
+
+function toRecord(item: Record<string, unknown>): ApiTokenRecord {
+  return {
+    id: item.token_id as string,
+    name: item.name as string,
+    scopes: ((item.scopes as string[]) || []).filter(isApiScope),
+    createdAt: item.created_at as string,
+    expiresAt: (item.expires_at as number) ?? null,
+    lastUsedAt: (item.last_used_at as string) ?? null,
+    revokedAt: (item.revoked_at as string) ?? null,
+  };
+}
+
+/** Creates a token and returns its record plus the plaintext (shown once). */
+export async function createApiToken(
+  name: string,
+  scopes: ApiScope[],
+  expiresInDays: number | null
+): Promise<{ token: string; record: ApiTokenRecord }> {
+  const id = randomBytes(6).toString("hex");
+  const token = `vst_${id}_${randomBytes(32).toString("base64url")}`;
+  const item: Record<string, unknown> = {
+    token_id: id,
+    name,
+    scopes,
+    token_hash: hashToken(token),
+    created_at: new Date().toISOString(),
+  };
+  if (expiresInDays) {
+    item.expires_at = Math.floor(Date.now() / 1000) + expiresInDays * 24 * 60 * 60;
+  }
+
+  await docClient.send(new PutCommand({ TableName: API_TOKENS_TABLE, Item: item }));
+  return { token, record: toRecord(item) };
+}
+
+export async function listApiTokens(): Promise<ApiTokenRecord[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: API_TOKENS_TABLE,
+        FilterExpression: "attribute_not_exists(revoked_at)",
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items.map(toRecord).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeApiToken(id: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: API_TOKENS_TABLE,
+      Key: { token_id: id },
+      UpdateExpression: "SET revoked_at = :now",
+      ConditionExpression: "attribute_exists(token_id)",
+      ExpressionAttributeValues: { ":now": new Date().toISOString() },
+    })
+  );
+}
+
+/**
+ * Looks up a presented token. Returns its record if it's valid, unrevoked,
+ * unexpired and has one of `scopes`; records last use. Otherwise null.
+ */
+export async function verifyApiToken(
+  token: string,
+  scopes: ApiScope[]
+): Promise<ApiTokenRecord | null> {
+  const match = token.match(TOKEN_PATTERN);
+  if (!match) return null;
+
+  const result = await docClient.send(
+    new GetCommand({ TableName: API_TOKENS_TABLE, Key: { token_id: match[1] } })
+  );
+  const item = result.Item;
+  if (!item || item.token_hash !== hashToken(token)) return null;
+
+  const record = toRecord(item);
+  if (record.revokedAt) return null;
+  if (record.expiresAt !== null && record.expiresAt < Math.floor(Date.now() / 1000)) return null;
+  if (!scopes.some((s) => record.scopes.includes(s))) return null;
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: API_TOKENS_TABLE,
+      Key: { token_id: record.id },
+      UpdateExpression: "SET last_used_at = :now",
+      ExpressionAttributeValues: { ":now": new Date().toISOString() },
+    })
+  );
+  return record;
+}
@@ -0,0 +1,220 @@
+import { randomBytes } from "crypto";
+import type { VercelRequest } from "@vercel/node";
+import { PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { Session } from "./auth.js";
+import { AUDIT_TABLE, docClient } from "./dynamo.js";
+
+/**
+ * Append-only audit log of content and media changes (DynamoDB).
+ *
+ * Every entry lives in one partition (log = "audit") under the sort key
+ * entry_id = <ISO time>#<random>, so newest-first listing and date ranges
+ * are plain Queries. Entries are only ever created with a conditional Put;
+ * nothing updates or deletes them, so the app's IAM role needs just
+ * PutItem and Query on this table.
+ */
+
+export const AUDIT_ACTIONS = [
+  "memory.create",
+  "memory.update",
+  "memory.delete",
+  "memory.restore",
+  "memory.purge",
+  "memory.reorder",
+  "collection.update",
+  "collection.delete",
+  "media.upload",
+  "media.delete",
+  "media_index.update",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/** Who made a change: a session subject, the session id and where it came from. */
+export interface AuditActor {
+  actor: string;
+  sessionId: string | null;
+  /** "web" (admin UI), "api" (API token), or "script:<name>". */
+  source: string;
+}
+
+export interface AuditEntry extends AuditActor {
+  id: string;
+  at: string;
+  action: AuditAction;
+  /**
+   * "<date>/<entry id>" for a memory, the date for a reorder, a collection's
+   * tag, or a short description of the media touched.
+   */
+  target: string;
+  before: unknown;
+  after: unknown;
+  reason: string | null;
+}
+
+const LOG_PARTITION = "audit";
+const SOURCE_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+export const AUDIT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+// Queries per page when a filter skips most entries; the cursor picks up from there
+const MAX_QUERIES_PER_PAGE = 10;
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === "string" && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Actor for a request authenticated by requireAdmin. Scripts using an API
+ * token name themselves in X-Audit-Source.
+ */
+export function auditActor(req: VercelRequest, session: Session): AuditActor {
+  if (!session.sub.startsWith("token:")) {
+    return { actor: session.sub, sessionId: session.sid, source: "web" };
+  }
+  const header = req.headers["x-audit-source"];
+  const name = ((Array.isArray(header) ? header[0] : header) || "").trim().toLowerCase();
+  return {
+    actor: session.sub,
+    sessionId: null,
+    source: SOURCE_PATTERN.test(name) ? `script:${name}` : "api",
+  };
+}
+
+/** Actor for a script writing to AWS directly with credentials. */
+export function scriptActor(script: string): AuditActor {
+  return { actor: "aws-credentials", sessionId: null, source: `script:${script}` };
+}
+
+/**
+ * Appends an entry. Called after the change has happened, so a failed write
+ * is logged rather than failing a request whose change already went through.
+ */
+export async function recordAudit(
+  who: AuditActor,
+  action: AuditAction,
+  target: string,
+  change: { before?: unknown; after?: unknown; reason?: string } = {}
+): Promise<void> {
+  const at = new Date().toISOString();
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: AUDIT_TABLE,
+        Item: {
+          log: LOG_PARTITION,
+          entry_id: `${at}#${randomBytes(4).toString("hex")}`,
+          at,
+          actor: who.actor,
+          session_id: who.sessionId,
+          source: who.source,
+          action,
+          target,
+          before: change.before ?? null,
+          after: change.after ?? null,
+          reason: change.reason?.slice(0, 200) || null,
+        },
+        ConditionExpression: "attribute_not_exists(entry_id)",
+      })
+    );
+  } catch (err) {
+    console.error("Audit log write failed:", action, target, err);
+  }
+}
+
+/** Snapshot of a date → media index for an entry: counts only, the index itself is too big. */
+export function summarizeMediaIndex(index: Record<string, string[]>): {
+  dates: number;
+  files: number;
+} {
+  return {
+    dates: Object.keys(index).length,
+    files: Object.values(index).reduce((sum, urls) => sum + urls.length, 0),
+  };
+}
+
+function toEntry(item: Record<string, unknown>): AuditEntry {
+  return {
+    id: item.entry_id as string,
+    at: item.at as string,
+    actor: item.actor as string,
+    sessionId: (item.session_id as string) ?? null,
+    source: item.source as string,
+    action: item.action as AuditAction,
+    target: item.target as string,
+    before: item.before ?? null,
+    after: item.after ?? null,
+    reason: (item.reason as string) ?? null,
+  };
+}
+
+function encodeCursor(key: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify({ id: key.entry_id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Record<string, unknown> | undefined {
+  try {
+    const { id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    return typeof id === "string" ? { log: LOG_PARTITION, entry_id: id } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Newest-first page of entries.
+ *   action: exact action ("memory.delete") or a group ("memory", "media")
+ *   from/to: inclusive YYYY-MM-DD bounds (UTC)
+ *   cursor: nextCursor from the previous page
+ */
+export async function listAuditEntries(options: {
+  action?: string;
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: number;
+}): Promise<{ entries: AuditEntry[]; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(options.limit || AUDIT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const names: Record<string, string> = { "#log": "log", "#id": "entry_id" };
+  const values: Record<string, unknown> = {
+    ":log": LOG_PARTITION,
+    ":from": options.from || "0",
+    // "~" sorts after every character in an ISO timestamp
+    ":to": `${options.to || "9999"}~`,
+  };
+
+  let filter: string | undefined;
+  if (options.action) {
+    names["#action"] = "action";
+    if (options.action.includes(".")) {
+      filter = "#action = :action";
+      values[":action"] = options.action;
+    } else {
+      filter = "begins_with(#action, :action)";
+      values[":action"] = `${options.action}.`;
+    }
+  }
+
+  const entries: AuditEntry[] = [];
+  let startKey = options.cursor ? decodeCursor(options.cursor) : undefined;
+  let queries = 0;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: AUDIT_TABLE,
+        KeyConditionExpression: "#log = :log AND #id BETWEEN :from AND :to",
+        FilterExpression: filter,
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+        ScanIndexForward: false,
+        // Never read past the page, so the cursor doesn't skip entries
+        Limit: limit - entries.length,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    entries.push(...(result.Items || []).map(toEntry));
+    startKey = result.LastEvaluatedKey;
+    queries++;
+  } while (startKey && entries.length < limit && queries < MAX_QUERIES_PER_PAGE);
+
+  return { entries, nextCursor: startKey ? encodeCursor(startKey) : null };
+}
@@ -0,0 +1,412 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { verifyApiToken, type ApiScope } from "./apiTokens.js";
+import {
+  areUntrackedSessionsAllowed,
+  createSession,
+  isSessionActive,
+  newSessionId,
+} from "./sessions.js";
+
+/**
+ * Shared session auth for every API handler.
+ *
+ * Token format (current): v3|role|sub|sid|exp|kid|sig
+ *   - role: "viewer" | "admin" | "share"
+ *   - sub:  who the session belongs to
+ *   - sid:  session id in the session registry (see sessions.ts)
+ *   - exp:  unix seconds
+ *   - kid:  short id of the signing key (see keyId)
+ *   - sig:  HMAC-SHA256 over everything before it
+ *
+ * Older v2 tokens (v2|role|sub|exp|kid|sig) and legacy tokens (role|exp|sig)
+ * are still accepted until they expire, or until "log out everywhere".
+ *
+ * Keys: AUTH_SECRET signs new tokens. AUTH_SECRET_PREVIOUS (optional) is only
+ * used to verify, so AUTH_SECRET can be rotated without logging everyone out.
+ *
+ * CSRF: every non-GET request from a browser must send the X-CSRF-Token header
+ * matching the csrf_token cookie (double submit; /api/auth/me hands both out),
+ * and its Origin, when present, must be this host. See verifyCsrf.
+ */
+
+export const VIEWER_COOKIE = "viewer_session";
+export const ADMIN_COOKIE = "admin_session";
+export const SHARE_COOKIE = "share_session";
+export const CSRF_COOKIE = "csrf_token";
+export const CSRF_HEADER = "x-csrf-token";
+export const VIEWER_MAX_AGE = 365 * 24 * 60 * 60;
+export const ADMIN_MAX_AGE = 7 * 24 * 60 * 60;
+
+/** "share" sessions come from a share link and can only read one day. */
+export type Role = "viewer" | "admin" | "share";
+
+const ROLE_COOKIES: Record<Role, { name: string; maxAge: number }> = {
+  viewer: { name: VIEWER_COOKIE, maxAge: VIEWER_MAX_AGE },
+  admin: { name: ADMIN_COOKIE, maxAge: ADMIN_MAX_AGE },
+  share: { name: SHARE_COOKIE, maxAge: 24 * 60 * 60 },
+};
+
+export interface Session {
+  role: Role;
+  sub: string;
+  /** Session registry id; null for tokens issued before the registry. */
+  sid: string | null;
+  exp: number;
+  /** Signing key id; null for legacy tokens. */
+  kid: string | null;
+}
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+const TOKEN_VERSION = "v3";
+const SUB_PATTERN = /^[A-Za-z0-9._:@-]{1,128}$/;
+const SID_PATTERN = /^[a-f0-9]{32}$/;
+const CSRF_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function keyId(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex").slice(0, 8);
+}
+
+function getSigningKeys(): SigningKey[] {
+  const keys: SigningKey[] = [];
+  for (const secret of [process.env.AUTH_SECRET, process.env.AUTH_SECRET_PREVIOUS]) {
+    if (secret) keys.push({ kid: keyId(secret), secret });
+  }
+  return keys;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function isRole(value: string): value is Role {
+  return value === "viewer" || value === "admin" || value === "share";
+}
+
+/** The admin PIN is a break-glass fallback once passkeys exist; ADMIN_PIN_DISABLED=true turns it off. */
+export function isPinLoginEnabled(): boolean {
+  return process.env.ADMIN_PIN_DISABLED !== "true" && Boolean((process.env.ADMIN_PIN || "").trim());
+}
+
+/** HMAC of `value` with the current key, for other signed values (e.g. share links). */
+export function signValue(value: string): string {
+  const [key] = getSigningKeys();
+  if (!key) throw new Error("AUTH_SECRET env var is not set");
+  return sign(value, key.secret);
+}
+
+/** True if `sig` is signValue(value) under the current or previous key. */
+export function isValidSignature(value: string, sig: string): boolean {
+  return getSigningKeys().some((key) => safeEqual(sig, sign(value, key.secret)));
+}
+
+export function createSessionToken(
+  role: Role,
+  sub: string,
+  sid: string,
+  maxAgeSeconds: number
+): string {
+  const [key] = getSigningKeys();
+  if (!key) throw new Error("AUTH_SECRET env var is not set");
+  if (!SUB_PATTERN.test(sub)) throw new Error(`Invalid session subject: ${sub}`);
+  if (!SID_PATTERN.test(sid)) throw new Error("Invalid session id");
+  const exp = Math.floor(Date.now() / 1000) + maxAgeSeconds;
+  const payload = `${TOKEN_VERSION}|${role}|${sub}|${sid}|${exp}|${key.kid}`;
+  return `${payload}|${sign(payload, key.secret)}`;
+}
+
+function verifyLegacyToken(parts: string[]): Session | null {
+  const [role, expStr, sig] = parts;
+  // Share sessions never used the legacy format
+  if (!isRole(role) || role === "share") return null;
+  const exp = parseInt(expStr, 10);
+  if (isNaN(exp)) return null;
+  const valid = getSigningKeys().some((key) =>
+    safeEqual(sig, sign(`${role}|${expStr}`, key.secret))
+  );
+  if (!valid) return null;
+  return { role, sub: role, sid: null, exp, kid: null };
+}
+
+function verifySignedToken(parts: string[]): Session | null {
+  const sig = parts[parts.length - 1];
+  const kid = parts[parts.length - 2];
+  const key = getSigningKeys().find((k) => k.kid === kid);
+  if (!key) return null;
+  if (!safeEqual(sig, sign(parts.slice(0, -1).join("|"), key.secret))) return null;
+
+  let role: string, sub: string, sid: string | null, expStr: string;
+  if (parts[0] === "v2" && parts.length === 6) {
+    [, role, sub, expStr] = parts;
+    sid = null;
+  } else if (parts[0] === "v3" && parts.length === 7) {
+    [, role, sub, sid, expStr] = parts;
+    if (!SID_PATTERN.test(sid)) return null;
+  } else {
+    return null;
+  }
+  if (!isRole(role) || !SUB_PATTERN.test(sub)) return null;
+  const exp = parseInt(expStr, 10);
+  if (isNaN(exp)) return null;
+  return { role, sub, sid, exp, kid };
+}
+
+/** Checks signature and expiry only; see resolveSession for revocation. */
+export function verifySessionToken(token: string): Session | null {
+  const parts = token.split("|");
+  const session = parts.length === 3 ? verifyLegacyToken(parts) : verifySignedToken(parts);
+  if (!session) return null;
+  if (Math.floor(Date.now() / 1000) > session.exp) return null;
+  return session;
+}
+
+export function parseCookies(req: VercelRequest): Record<string, string> {
+  const header = req.headers.cookie || "";
+  const cookies: Record<string, string> = {};
+  for (const pair of header.split(";")) {
+    const [name, ...rest] = pair.trim().split("=");
+    if (name) cookies[name.trim()] = rest.join("=").trim();
+  }
+  return cookies;
+}
+
+export function sessionCookie(name: string, token: string, maxAgeSeconds: number): string {
+  return `${name}=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${maxAgeSeconds}`;
+}
+
+export function clearedCookie(name: string): string {
+  return `${name}=; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=0`;
+}
+
+/** Adds a Set-Cookie header without dropping ones already set on `res`. */
+export function appendCookie(res: VercelResponse, cookie: string): void {
+  const existing = res.getHeader("Set-Cookie");
+  const cookies = existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+  res.setHeader("Set-Cookie", [...cookies, cookie]);
+}
+
+/**
+ * Short-lived signed cookie for multi-step flows (WebAuthn challenges, the
+ * admin TOTP step). Value format: <value>|<exp>|<sig>.
+ */
+export function setSignedCookie(
+  res: VercelResponse,
+  name: string,
+  value: string,
+  maxAgeSeconds: number,
+  path = "/"
+): void {
+  const payload = `${value}|${Math.floor(Date.now() / 1000) + maxAgeSeconds}`;
+  appendCookie(
+    res,
+    `${name}=${payload}|${signValue(payload)}; HttpOnly; Secure; SameSite=Strict; Path=${path}; Max-Age=${maxAgeSeconds}`
+  );
+}
+
+export function clearSignedCookie(res: VercelResponse, name: string, path = "/"): void {
+  appendCookie(res, `${name}=; HttpOnly; Secure; SameSite=Strict; Path=${path}; Max-Age=0`);
+}
+
+/** The value of a setSignedCookie cookie, or null if missing, forged or expired. */
+export function readSignedCookie(req: VercelRequest, name: string): string | null {
+  const raw = parseCookies(req)[name] || "";
+  const sigAt = raw.lastIndexOf("|");
+  const expAt = raw.lastIndexOf("|", sigAt - 1);
+  if (sigAt < 0 || expAt < 0) return null;
+  if (!isValidSignature(raw.slice(0, sigAt), raw.slice(sigAt + 1))) return null;
+  const exp = parseInt(raw.slice(expAt + 1, sigAt), 10);
+  if (isNaN(exp) || Math.floor(Date.now() / 1000) > exp) return null;
+  return raw.slice(0, expAt);
+}
+
+/** Host the request was sent to (x-forwarded-host first, as set by the Vercel proxy). */
+export function requestHost(req: VercelRequest): string {
+  const forwardedHost = req.headers["x-forwarded-host"];
+  return (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost) || req.headers.host || "";
+}
+
+/**
+ * The browser's CSRF token, setting the cookie if it doesn't have a valid one
+ * yet. The cookie lives as long as a viewer session and isn't tied to one, so
+ * signing in or out doesn't invalidate a token a page already holds.
+ */
+export function issueCsrfToken(req: VercelRequest, res: VercelResponse): string {
+  const existing = parseCookies(req)[CSRF_COOKIE];
+  if (existing && CSRF_TOKEN_PATTERN.test(existing)) return existing;
+
+  const token = randomBytes(32).toString("base64url");
+  appendCookie(
+    res,
+    `${CSRF_COOKIE}=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${VIEWER_MAX_AGE}`
+  );
+  return token;
+}
+
+/**
+ * CSRF check for cookie-authenticated requests. Safe methods always pass.
+ * Otherwise the Origin header (if sent) must match the host, and the
+ * X-CSRF-Token header must equal the csrf_token cookie.
+ * Sends 403 and returns false on failure.
+ */
+export function verifyCsrf(req: VercelRequest, res: VercelResponse): boolean {
+  if (SAFE_METHODS.has((req.method || "GET").toUpperCase())) return true;
+
+  const origin = req.headers.origin;
+  if (origin) {
+    let originHost: string | null = null;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      // "null" or malformed: treated as cross-site
+    }
+    if (originHost !== requestHost(req)) {
+      res.status(403).json({ error: "Cross-site request blocked", code: "csrf" });
+      return false;
+    }
+  }
+
+  const cookie = parseCookies(req)[CSRF_COOKIE] || "";
+  const header = req.headers[CSRF_HEADER];
+  const token = (Array.isArray(header) ? header[0] : header) || "";
+  if (!cookie || !safeEqual(cookie, token)) {
+    res.status(403).json({ error: "Invalid CSRF token", code: "csrf" });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Records a new session in the registry and sets its cookie.
+ * Returns the session id.
+ */
+export async function startSession(
+  req: VercelRequest,
+  res: VercelResponse,
+  role: Role,
+  sub: string,
+  maxAge = ROLE_COOKIES[role].maxAge
+): Promise<string> {
+  const cookie = ROLE_COOKIES[role].name;
+  const sid = newSessionId();
+  const token = createSessionToken(role, sub, sid, maxAge);
+  await createSession(req, sid, role, sub, maxAge);
+  appendCookie(res, sessionCookie(cookie, token, maxAge));
+  return sid;
+}
+
+/** Verifies a cookie token and checks it against the session registry. */
+async function resolveSession(token: string | undefined, role: Role): Promise<Session | null> {
+  if (!token) return null;
+  const session = verifySessionToken(token);
+  if (!session || session.role !== role) return null;
+  try {
+    const active = session.sid
+      ? await isSessionActive(session.sid)
+      : await areUntrackedSessionsAllowed();
+    return active ? session : null;
+  } catch (err) {
+    console.error("Session registry lookup failed:", err);
+    return null;
+  }
+}
+
+export async function getAdminSessionFromRequest(req: VercelRequest): Promise<Session | null> {
+  return resolveSession(parseCookies(req)[ADMIN_COOKIE], "admin");
+}
+
+export async function getSessionFromRequest(req: VercelRequest): Promise<Session | null> {
+  const admin = await getAdminSessionFromRequest(req);
+  if (admin) return admin;
+  return resolveSession(parseCookies(req)[VIEWER_COOKIE], "viewer");
+}
+
+export async function getShareSessionFromRequest(req: VercelRequest): Promise<Session | null> {
+  return resolveSession(parseCookies(req)[SHARE_COOKIE], "share");
+}
+
+function unauthorized(res: VercelResponse): null {
+  res.setHeader("Cache-Control", "no-store");
+  res.status(401).json({ error: "Unauthorized" });
+  return null;
+}
+
+/**
+ * Viewer or admin session. Sends 401 and returns null otherwise, or 403 if a
+ * non-GET request fails the CSRF check.
+ */
+export async function requireViewer(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<Session | null> {
+  const session = await getSessionFromRequest(req);
+  if (!session) return unauthorized(res);
+  return verifyCsrf(req, res) ? session : null;
+}
+
+/**
+ * Viewer or admin session, else a share-link session (role "share").
+ * Callers must limit share sessions to their one day (see shareDateFromSubject).
+ * Sends 401 (or 403 on a failed CSRF check) and returns null otherwise.
+ */
+export async function requireViewerOrShare(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<Session | null> {
+  const session =
+    (await getSessionFromRequest(req)) ?? (await getShareSessionFromRequest(req));
+  if (!session) return unauthorized(res);
+  return verifyCsrf(req, res) ? session : null;
+}
+
+function bearerToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+/**
+ * Admin session, or an API token (`Authorization: Bearer vst_...`) holding
+ * one of `scopes`. Without scopes only an admin session is accepted.
+ * Sends 401 (or 403 on a failed CSRF check) and returns null otherwise.
+ */
+export async function requireAdmin(
+  req: VercelRequest,
+  res: VercelResponse,
+  scopes: ApiScope | ApiScope[] = []
+): Promise<Session | null> {
+  const session = await getAdminSessionFromRequest(req);
+  if (session) return verifyCsrf(req, res) ? session : null;
+
+  // API tokens aren't sent by browsers on their own, so they skip the CSRF check
+
+  const token = bearerToken(req);
+  const allowed = Array.isArray(scopes) ? scopes : [scopes];
+  if (token && allowed.length > 0) {
+    try {
+      const record = await verifyApiToken(token, allowed);
+      if (record) {
+        return {
+          role: "admin",
+          sub: `token:${record.id}`,
+          sid: null,
+          exp: record.expiresAt ?? Number.MAX_SAFE_INTEGER,
+          kid: null,
+        };
+      }
+    } catch (err) {
+      console.error("API token lookup failed:", err);
+    }
+  }
+
+  return unauthorized(res);
+}
@@ -0,0 +1,65 @@
+import { DeleteCommand, PutCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import type { Collection } from "../../src/types.js";
+import { COLLECTIONS_TABLE, docClient } from "./dynamo.js";
+
+/**
+ * Collections (DynamoDB, keyed by tag): a title, optional description and
+ * cover for the memories carrying that tag. Membership lives on the
+ * memories themselves, so tagging a memory adds it to the collection.
+ */
+
+export const MAX_TITLE_LENGTH = 64;
+export const MAX_DESCRIPTION_LENGTH = 280;
+
+function toCollection(item: Record<string, unknown>): Collection {
+  return {
+    tag: item.tag as string,
+    title: item.title as string,
+    description: (item.description as string) || undefined,
+    cover: (item.cover as string) || undefined,
+    updatedAt: item.updated_at as string,
+  };
+}
+
+/** Every collection, by title. */
+export async function listCollections(): Promise<Collection[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: COLLECTIONS_TABLE, ExclusiveStartKey: startKey })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items.map(toCollection).sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/** Creates or replaces a collection. Returns the item as it was before, if any. */
+export async function saveCollection(
+  input: { tag: string; title: string; description?: string; cover?: string },
+  actor: string
+): Promise<{ before?: Record<string, unknown>; after: Record<string, unknown> }> {
+  const item: Record<string, unknown> = {
+    tag: input.tag,
+    title: input.title,
+    updated_at: new Date().toISOString(),
+    updated_by: actor,
+  };
+  if (input.description) item.description = input.description;
+  if (input.cover) item.cover = input.cover;
+
+  const result = await docClient.send(
+    new PutCommand({ TableName: COLLECTIONS_TABLE, Item: item, ReturnValues: "ALL_OLD" })
+  );
+  return { before: result.Attributes, after: item };
+}
+
+/** Removes a collection (its memories keep their tag). Returns the item, or undefined if there was none. */
+export async function deleteCollection(tag: string): Promise<Record<string, unknown> | undefined> {
+  const result = await docClient.send(
+    new DeleteCommand({ TableName: COLLECTIONS_TABLE, Key: { tag }, ReturnValues: "ALL_OLD" })
+  );
+  return result.Attributes;
+}
@@ -0,0 +1,136 @@
+import { randomBytes } from "crypto";
+import { DeleteCommand, PutCommand, QueryCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { UnreadThread } from "../../src/types.js";
+import { COMMENTS_TABLE, docClient } from "./dynamo.js";
+
+/**
+ * Reply threads (DynamoDB): one thread per day, between the viewers and the
+ * author. Partition key date_id, sort key comment_id = "<created at>#<random>",
+ * so a thread is one Query in the order it was written.
+ *
+ * A viewer's message carries `unread` until an admin opens the thread; the
+ * dashboard's badge scans for those.
+ */
+
+export const MAX_COMMENT_LENGTH = 1000;
+export const MAX_COMMENTS_PER_DAY = 200;
+export const COMMENT_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z#[a-f0-9]{8}$/;
+
+/** A day's messages, oldest first. */
+export async function listComments(date: string): Promise<Record<string, unknown>[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: COMMENTS_TABLE,
+        KeyConditionExpression: "date_id = :date",
+        ExpressionAttributeValues: { ":date": date },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/** Adds a message to a day's thread and returns the stored item. */
+export async function addComment(
+  date: string,
+  author: { sub: string; role: "viewer" | "admin"; name: string },
+  text: string
+): Promise<Record<string, unknown>> {
+  const createdAt = new Date().toISOString();
+  const item: Record<string, unknown> = {
+    date_id: date,
+    comment_id: `${createdAt}#${randomBytes(4).toString("hex")}`,
+    author: author.sub,
+    author_role: author.role,
+    author_name: author.name,
+    text,
+    created_at: createdAt,
+  };
+  // The author doesn't need telling about their own replies
+  if (author.role === "viewer") item.unread = true;
+
+  await docClient.send(
+    new PutCommand({
+      TableName: COMMENTS_TABLE,
+      Item: item,
+      ConditionExpression: "attribute_not_exists(comment_id)",
+    })
+  );
+  return item;
+}
+
+/**
+ * Removes a message. With `author`, only if that session subject wrote it
+ * (admins pass null to remove any). Returns the item, or undefined if there
+ * was no such message of theirs.
+ */
+export async function deleteComment(
+  date: string,
+  id: string,
+  author: string | null
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const result = await docClient.send(
+      new DeleteCommand({
+        TableName: COMMENTS_TABLE,
+        Key: { date_id: date, comment_id: id },
+        ConditionExpression: author === null ? "attribute_exists(comment_id)" : "#au = :author",
+        ExpressionAttributeNames: author === null ? undefined : { "#au": "author" },
+        ExpressionAttributeValues: author === null ? undefined : { ":author": author },
+        ReturnValues: "ALL_OLD",
+      })
+    );
+    return result.Attributes;
+  } catch (err) {
+    if ((err as Error).name === "ConditionalCheckFailedException") return undefined;
+    throw err;
+  }
+}
+
+/** Clears `unread` on a day's messages. Returns how many there were. */
+export async function markThreadRead(date: string): Promise<number> {
+  const unread = (await listComments(date)).filter((item) => item.unread);
+  for (const item of unread) {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: COMMENTS_TABLE,
+        Key: { date_id: date, comment_id: item.comment_id },
+        UpdateExpression: "REMOVE #un",
+        ExpressionAttributeNames: { "#un": "unread" },
+      })
+    );
+  }
+  return unread.length;
+}
+
+/** Days with messages the author hasn't read, newest message first. */
+export async function listUnreadThreads(): Promise<UnreadThread[]> {
+  const byDate = new Map<string, UnreadThread>();
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: COMMENTS_TABLE,
+        FilterExpression: "attribute_exists(#un)",
+        ProjectionExpression: "date_id, created_at",
+        ExpressionAttributeNames: { "#un": "unread" },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    for (const item of result.Items || []) {
+      const date = item.date_id as string;
+      const createdAt = item.created_at as string;
+      const thread = byDate.get(date) ?? { date, count: 0, latestAt: createdAt };
+      thread.count++;
+      if (createdAt > thread.latestAt) thread.latestAt = createdAt;
+      byDate.set(date, thread);
+    }
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return [...byDate.values()].sort((a, b) => b.latestAt.localeCompare(a.latestAt));
+}
@@ -0,0 +1,39 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+const client = new DynamoDBClient({
+  region: process.env.AWS_REGION || "us-west-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID_DYNAMO!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY_DYNAMO!,
+  },
+});
+
+export const docClient = DynamoDBDocumentClient.from(client);
+
+// Partition key date_id, sort key entry_id; scripts/migrate-memory-entries.ts
+// copies the older one-memory-per-day table (valentine_memories) into it
+export const MEMORIES_TABLE = process.env.DYNAMODB_TABLE_NAME || "valentine_memory_entries";
+// GSI on MEMORIES_TABLE: partition key kind, sort key date_id (see memories.ts)
+export const MEMORIES_DATE_INDEX = process.env.DYNAMODB_MEMORIES_DATE_INDEX || "by_date";
+export const SESSIONS_TABLE = process.env.DYNAMODB_SESSIONS_TABLE || "valentine_sessions";
+export const LOGIN_ATTEMPTS_TABLE =
+  process.env.DYNAMODB_LOGIN_ATTEMPTS_TABLE || "valentine_login_attempts";
+export const API_TOKENS_TABLE = process.env.DYNAMODB_API_TOKENS_TABLE || "valentine_api_tokens";
+export const VIEWERS_TABLE = process.env.DYNAMODB_VIEWERS_TABLE || "valentine_viewers";
+export const SHARE_LINKS_TABLE = process.env.DYNAMODB_SHARE_LINKS_TABLE || "valentine_share_links";
+export const PASSKEYS_TABLE = process.env.DYNAMODB_PASSKEYS_TABLE || "valentine_passkeys";
+export const ADMIN_MFA_TABLE = process.env.DYNAMODB_ADMIN_MFA_TABLE || "valentine_admin_mfa";
+export const AUDIT_TABLE = process.env.DYNAMODB_AUDIT_TABLE || "valentine_audit_log";
+// Partition key entry_key, sort key version (see history.ts)
+export const MEMORY_HISTORY_TABLE =
+  process.env.DYNAMODB_MEMORY_HISTORY_TABLE || "valentine_memory_entry_history";
+// Partition key tag (see collections.ts)
+export const COLLECTIONS_TABLE = process.env.DYNAMODB_COLLECTIONS_TABLE || "valentine_collections";
+// Partition key term_prefix, sort key term_key (see search.ts)
+export const SEARCH_INDEX_TABLE =
+  process.env.DYNAMODB_SEARCH_INDEX_TABLE || "valentine_search_index";
+// Partition key reactor, sort key reaction_key (see reactions.ts)
+export const REACTIONS_TABLE = process.env.DYNAMODB_REACTIONS_TABLE || "valentine_reactions";
+// Partition key date_id, sort key comment_id (see comments.ts)
+export const COMMENTS_TABLE = process.env.DYNAMODB_COMMENTS_TABLE || "valentine_comments";
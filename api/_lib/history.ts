@@ -0,0 +1,102 @@
+import { PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { MemoryFormat } from "../../src/types.js";
+import type { AuditActor } from "./audit.js";
+import { docClient, MEMORY_HISTORY_TABLE } from "./dynamo.js";
+import { entryPath, memoryFormat, memoryVersion } from "./memories.js";
+
+/**
+ * Earlier versions of each memory (DynamoDB).
+ *
+ * Partition key entry_key ("<date>/<entry id>"), sort key version (number).
+ * Every save copies the version it replaces here, with who saved that
+ * version and who replaced it, so an entry's history is one Query.
+ * Reverting is just a normal save of an old revision's content, which in
+ * turn lands here.
+ */
+
+export interface Revision {
+  version: number;
+  type: string;
+  text: string;
+  format: MemoryFormat;
+  media: string[];
+  /** When and by whom this version was saved (null for memories saved before history). */
+  savedAt: string | null;
+  savedBy: string | null;
+  replacedAt: string;
+  replacedBy: string;
+}
+
+export const HISTORY_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Stores `item`, the version a save just replaced. Like recordAudit, a
+ * failure is logged rather than failing a save that already went through.
+ */
+export async function recordRevision(item: Record<string, unknown>, who: AuditActor): Promise<void> {
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: MEMORY_HISTORY_TABLE,
+        Item: {
+          entry_key: entryPath(item.date_id as string, item.entry_id as string),
+          date_id: item.date_id,
+          entry_id: item.entry_id,
+          version: memoryVersion(item),
+          type: item.type,
+          text: item.text ?? "",
+          format: memoryFormat(item),
+          media: item.media ?? [],
+          saved_at: item.updated_at ?? null,
+          saved_by: item.updated_by ?? null,
+          replaced_at: new Date().toISOString(),
+          replaced_by: who.actor,
+        },
+      })
+    );
+  } catch (err) {
+    console.error("Memory history write failed:", item.date_id, item.entry_id, err);
+  }
+}
+
+function toRevision(item: Record<string, unknown>): Revision {
+  return {
+    version: item.version as number,
+    type: item.type as string,
+    text: (item.text as string) ?? "",
+    format: memoryFormat(item),
+    media: (item.media as string[]) ?? [],
+    savedAt: (item.saved_at as string) ?? null,
+    savedBy: (item.saved_by as string) ?? null,
+    replacedAt: item.replaced_at as string,
+    replacedBy: item.replaced_by as string,
+  };
+}
+
+/** Newest-first page of an entry's earlier versions. The cursor is the last version returned. */
+export async function listRevisions(
+  date: string,
+  id: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<{ revisions: Revision[]; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(options.limit || HISTORY_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const after = options.cursor ? parseInt(options.cursor, 10) : NaN;
+  const key = entryPath(date, id);
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: MEMORY_HISTORY_TABLE,
+      KeyConditionExpression: "entry_key = :key",
+      ExpressionAttributeValues: { ":key": key },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: isNaN(after) ? undefined : { entry_key: key, version: after },
+    })
+  );
+
+  return {
+    revisions: (result.Items || []).map(toRevision),
+    nextCursor: result.LastEvaluatedKey ? String(result.LastEvaluatedKey.version) : null,
+  };
+}
@@ -0,0 +1,531 @@
+import { randomBytes } from "crypto";
+import {
+  DeleteCommand,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { MemoryFormat, MemoryStatus } from "../../src/types.js";
+import { MEMORY_STATUSES } from "../../src/validation.js";
+import { docClient, MEMORIES_DATE_INDEX, MEMORIES_TABLE } from "./dynamo.js";
+
+/**
+ * Date-ordered reads of the memories table.
+ *
+ * A day can hold several memories. The table's key is date_id (partition)
+ * plus entry_id (sort, a random id), and `position` orders a day's entries:
+ * new ones get the save time in milliseconds, so they land last, and
+ * reordering rewrites positions as 0, 1, 2...
+ *
+ * Every item carries kind = "memory", and the GSI MEMORIES_DATE_INDEX
+ * (partition key: kind, sort key: date_id) keeps them in date order, so a
+ * date range is one paginated Query instead of a full-table Scan.
+ * Items written before the index existed need `npm run backfill-memory-kind`.
+ *
+ * Deleting a memory moves it to the trash: kind becomes "trash", which takes
+ * it out of every viewer query, and purge_at (unix seconds, the table's TTL
+ * attribute) lets DynamoDB remove it after MEMORY_TRASH_RETENTION_DAYS.
+ */
+
+export const MEMORY_KIND = "memory";
+export const TRASH_KIND = "trash";
+export const MEMORIES_PAGE_SIZE = 100;
+export const MAX_MEMORIES_PAGE_SIZE = 500;
+export const MAX_ENTRIES_PER_DAY = 20;
+
+const ENTRY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export function newEntryId(): string {
+  return randomBytes(6).toString("hex");
+}
+
+export function isEntryId(value: unknown): value is string {
+  return typeof value === "string" && ENTRY_ID_PATTERN.test(value);
+}
+
+/** Names one entry in audit log targets and history keys: "<date>/<entry id>". */
+export function entryPath(date: string, id: string): string {
+  return `${date}/${id}`;
+}
+
+function entryKey(date: string, id: string) {
+  return { date_id: date, entry_id: id };
+}
+
+/** A day's entries in display order. */
+export function byPosition(a: Record<string, unknown>, b: Record<string, unknown>): number {
+  return (
+    ((a.position as number) ?? 0) - ((b.position as number) ?? 0) ||
+    String(a.entry_id).localeCompare(String(b.entry_id))
+  );
+}
+
+/**
+ * Publish state. Viewers only get published memories: "published" ones once
+ * publish_at (if set) has passed, and "ready" ones once their publish_at has
+ * passed. Drafts never. Memories saved before statuses existed count as published.
+ */
+export function isMemoryStatus(value: unknown): value is MemoryStatus {
+  return MEMORY_STATUSES.includes(value as MemoryStatus);
+}
+
+export function memoryStatus(item: Record<string, unknown>): MemoryStatus {
+  return isMemoryStatus(item.status) ? item.status : "published";
+}
+
+/** Only Markdown memories store a format; everything else is plain text. */
+export function memoryFormat(item: Record<string, unknown>): MemoryFormat {
+  return item.format === "markdown" ? "markdown" : "plain";
+}
+
+/** A memory's tags; items saved before tags existed have none. */
+export function memoryTags(item: Record<string, unknown>): string[] {
+  return Array.isArray(item.tags) ? (item.tags as string[]) : [];
+}
+
+export function isPublished(item: Record<string, unknown>, now = new Date()): boolean {
+  const status = memoryStatus(item);
+  const publishAt = typeof item.publish_at === "string" ? item.publish_at : null;
+  if (publishAt && publishAt > now.toISOString()) return false;
+  return status === "published" || (status === "ready" && publishAt !== null);
+}
+
+/**
+ * Origins memory media URLs may point at: the bucket's own URL plus any in
+ * MEDIA_CDN_ORIGINS (comma-separated). Undefined when neither is configured.
+ */
+export function mediaOrigins(): string[] | undefined {
+  const origins = (process.env.MEDIA_CDN_ORIGINS || "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  const bucket = process.env.S3_BUCKET_NAME;
+  if (bucket) {
+    origins.push(`https://${bucket}.s3.${process.env.AWS_REGION || "us-west-1"}.amazonaws.com`);
+  }
+  return origins.length > 0 ? origins : undefined;
+}
+
+export function trashRetentionDays(): number {
+  const days = parseInt(process.env.MEMORY_TRASH_RETENTION_DAYS || "", 10);
+  return days > 0 ? days : 30;
+}
+
+export function isTrashed(item: Record<string, unknown>): boolean {
+  return item.kind === TRASH_KIND;
+}
+
+export interface MemoryPage {
+  items: Record<string, unknown>[];
+  nextCursor: string | null;
+}
+
+/** Items saved before versioning have no `version` and count as 0. */
+export function memoryVersion(item: Record<string, unknown>): number {
+  return typeof item.version === "number" ? item.version : 0;
+}
+
+export function memoryEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * The version an If-Match header names ("3" or W/"3"), "*" for any existing
+ * item, null when the header is absent, or undefined when it's malformed.
+ */
+export function parseIfMatch(header: string | string[] | undefined): number | "*" | null | undefined {
+  const value = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (!value) return null;
+  if (value === "*") return "*";
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : undefined;
+}
+
+function encodeCursor(key: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify({ d: key.date_id, e: key.entry_id })).toString("base64url");
+}
+
+/** The index's ExclusiveStartKey for a cursor, or undefined if it's malformed. */
+function decodeCursor(cursor: string, kind: string): Record<string, unknown> | undefined {
+  try {
+    const { d, e } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    return typeof d === "string" && typeof e === "string"
+      ? { kind, date_id: d, entry_id: e }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One page of memories in date order, each day's entries by position. A page
+ * ends before a day it would split (unless that day alone fills it), so the
+ * next page starts with that day's first entry.
+ *   from/to: inclusive YYYY-MM-DD bounds (both optional)
+ *   cursor:  nextCursor from the previous page
+ *   kind:    TRASH_KIND lists the trash instead
+ *   tag:     only memories carrying this tag. The filter runs after the page
+ *            is read, so a page can come back short (or empty) with a cursor.
+ */
+export async function listMemories(options: {
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: string;
+  kind?: string;
+  tag?: string;
+}): Promise<MemoryPage> {
+  const kind = options.kind || MEMORY_KIND;
+  const limit = Math.min(
+    Math.max(options.limit || MEMORIES_PAGE_SIZE, 1),
+    MAX_MEMORIES_PAGE_SIZE
+  );
+
+  const values: Record<string, unknown> = {
+    ":kind": kind,
+    ":from": options.from || "0000-00-00",
+    ":to": options.to || "9999-99-99",
+  };
+  if (options.tag) values[":tag"] = options.tag;
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: MEMORIES_TABLE,
+      IndexName: MEMORIES_DATE_INDEX,
+      KeyConditionExpression: "#k = :kind AND date_id BETWEEN :from AND :to",
+      FilterExpression: options.tag ? "contains(#tg, :tag)" : undefined,
+      ProjectionExpression:
+        "date_id, entry_id, #p, #t, #tx, #fm, media, #tg, #v, #s, publish_at, deleted_at, purge_at",
+      ExpressionAttributeNames: {
+        "#k": "kind",
+        "#p": "position",
+        "#t": "type",
+        "#tx": "text",
+        "#fm": "format",
+        "#v": "version",
+        "#s": "status",
+        "#tg": "tags",
+      },
+      ExpressionAttributeValues: values,
+      Limit: limit,
+      ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor, kind) : undefined,
+    })
+  );
+
+  let items = result.Items || [];
+  let lastKey = result.LastEvaluatedKey;
+  if (lastKey) {
+    const lastDate = items[items.length - 1]?.date_id;
+    const whole = items.filter((item) => item.date_id !== lastDate);
+    if (whole.length > 0) {
+      items = whole;
+      lastKey = whole[whole.length - 1];
+    }
+  }
+  // Entries of a day share the index sort key, which leaves their order to DynamoDB
+  items.sort(
+    (a, b) => String(a.date_id).localeCompare(String(b.date_id)) || byPosition(a, b)
+  );
+
+  return {
+    items,
+    nextCursor: lastKey ? encodeCursor(lastKey) : null,
+  };
+}
+
+export async function getMemoryItem(
+  date: string,
+  id: string
+): Promise<Record<string, unknown> | undefined> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: MEMORIES_TABLE, Key: entryKey(date, id) })
+  );
+  return result.Item;
+}
+
+/** Every item stored under a date (trashed ones too), in display order. */
+export async function listDay(date: string): Promise<Record<string, unknown>[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: MEMORIES_TABLE,
+        KeyConditionExpression: "date_id = :date",
+        ExpressionAttributeValues: { ":date": date },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items.sort(byPosition);
+}
+
+/** A memory as written by PUT /api/memories and imports (already validated). */
+export interface MemoryInput {
+  date: string;
+  id: string;
+  type: string;
+  text?: string;
+  media?: string[];
+  /** Left out: keep the stored status (new memories are published). */
+  status?: MemoryStatus;
+  /** ISO time; null clears it, left out keeps the stored one. */
+  publishAt?: string | null;
+  /** Left out: keep the stored format (new memories are plain). */
+  format?: MemoryFormat;
+  /** Left out: keep the stored tags; [] clears them. */
+  tags?: string[];
+}
+
+/**
+ * Saves a memory, bumping its version and stamping updated_at/updated_by.
+ * A new entry goes last in its day.
+ *   ifMatch:    only save over this version ("*": any live memory; null: no check)
+ *   createOnly: only save if the entry doesn't exist (a trashed one is replaced)
+ * Returns the item as it was before (if any) and after. Throws
+ * ConditionalCheckFailedException when the precondition fails.
+ */
+export async function saveMemory(
+  input: MemoryInput,
+  actor: string,
+  precondition: { ifMatch: number | "*" | null; createOnly?: boolean } = { ifMatch: null }
+): Promise<{ before?: Record<string, unknown>; after: Record<string, unknown>; version: number }> {
+  const { ifMatch, createOnly } = precondition;
+  const now = new Date().toISOString();
+  const media = input.media && input.media.length > 0 ? input.media : null;
+  const publishAt =
+    typeof input.publishAt === "string" ? new Date(input.publishAt).toISOString() : input.publishAt;
+
+  const names: Record<string, string> = {
+    "#k": "kind",
+    "#t": "type",
+    "#tx": "text",
+    "#m": "media",
+    "#v": "version",
+    "#s": "status",
+    "#p": "position",
+  };
+  const values: Record<string, unknown> = {
+    ":kind": MEMORY_KIND,
+    ":position": Date.now(),
+    ":type": input.type,
+    ":text": input.text || "",
+    ":zero": 0,
+    ":one": 1,
+    ":now": now,
+    ":by": actor,
+  };
+  const sets = [
+    "#k = :kind",
+    "#t = :type",
+    "#tx = :text",
+    "#v = if_not_exists(#v, :zero) + :one",
+    "#p = if_not_exists(#p, :position)",
+    "updated_at = :now",
+    "updated_by = :by",
+  ];
+  const removes = ["deleted_at", "purge_at"];
+
+  if (media) {
+    sets.push("#m = :media");
+    values[":media"] = media;
+  } else {
+    removes.push("#m");
+  }
+  if (input.status !== undefined) {
+    sets.push("#s = :status");
+    values[":status"] = input.status;
+  } else {
+    sets.push("#s = if_not_exists(#s, :published)");
+    values[":published"] = "published";
+  }
+  if (publishAt) {
+    sets.push("publish_at = :publishAt");
+    values[":publishAt"] = publishAt;
+  } else if (publishAt === null) {
+    removes.push("publish_at");
+  }
+  // Only Markdown is stored; plain is the default
+  if (input.format === "markdown") {
+    sets.push("#fm = :format");
+    names["#fm"] = "format";
+    values[":format"] = input.format;
+  } else if (input.format === "plain") {
+    removes.push("#fm");
+    names["#fm"] = "format";
+  }
+  if (input.tags && input.tags.length > 0) {
+    sets.push("#tg = :tags");
+    names["#tg"] = "tags";
+    values[":tags"] = input.tags;
+  } else if (input.tags) {
+    removes.push("#tg");
+    names["#tg"] = "tags";
+  }
+
+  let condition: string | undefined;
+  if (createOnly) {
+    condition = "attribute_not_exists(date_id) OR #k = :trash";
+    values[":trash"] = TRASH_KIND;
+  } else if (ifMatch === "*") {
+    condition = "attribute_exists(date_id) AND (attribute_not_exists(#k) OR #k = :kind)";
+  } else if (ifMatch === 0) {
+    condition = "attribute_exists(date_id) AND attribute_not_exists(#v)";
+  } else if (ifMatch !== null) {
+    condition = "#v = :expected";
+    values[":expected"] = ifMatch;
+  }
+
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: MEMORIES_TABLE,
+      Key: entryKey(input.date, input.id),
+      UpdateExpression: `SET ${sets.join(", ")} REMOVE ${removes.join(", ")}`,
+      ConditionExpression: condition,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ReturnValues: "ALL_OLD",
+    })
+  );
+
+  const before = result.Attributes;
+  const version = (before ? memoryVersion(before) : 0) + 1;
+  const after: Record<string, unknown> = {
+    ...before,
+    date_id: input.date,
+    entry_id: input.id,
+    position: before?.position ?? values[":position"],
+    kind: MEMORY_KIND,
+    type: input.type,
+    text: input.text || "",
+    version,
+    status: input.status ?? memoryStatus(before ?? {}),
+    updated_at: now,
+    updated_by: actor,
+  };
+  if (media) after.media = media;
+  else delete after.media;
+  if (publishAt) after.publish_at = publishAt;
+  else if (publishAt === null) delete after.publish_at;
+  if (input.format === "markdown") after.format = input.format;
+  else if (input.format === "plain") delete after.format;
+  if (input.tags && input.tags.length > 0) after.tags = input.tags;
+  else if (input.tags) delete after.tags;
+  delete after.deleted_at;
+  delete after.purge_at;
+
+  return { before, after, version };
+}
+
+/**
+ * Moves a memory to the trash and bumps its version, so a stale editor can't
+ * save over it. Returns the item as it was, or undefined if there was no
+ * such live entry.
+ */
+export async function trashMemory(
+  date: string,
+  id: string
+): Promise<Record<string, unknown> | undefined> {
+  const now = Math.floor(Date.now() / 1000);
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: MEMORIES_TABLE,
+        Key: entryKey(date, id),
+        UpdateExpression:
+          "SET #k = :trash, deleted_at = :deletedAt, purge_at = :purgeAt, #v = if_not_exists(#v, :zero) + :one",
+        ConditionExpression: "attribute_exists(date_id) AND (attribute_not_exists(#k) OR #k = :kind)",
+        ExpressionAttributeNames: { "#k": "kind", "#v": "version" },
+        ExpressionAttributeValues: {
+          ":trash": TRASH_KIND,
+          ":kind": MEMORY_KIND,
+          ":deletedAt": new Date(now * 1000).toISOString(),
+          ":purgeAt": now + trashRetentionDays() * 24 * 60 * 60,
+          ":zero": 0,
+          ":one": 1,
+        },
+        ReturnValues: "ALL_OLD",
+      })
+    );
+    return result.Attributes;
+  } catch (err) {
+    if ((err as Error).name === "ConditionalCheckFailedException") return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Puts a trashed memory back. Throws ConditionalCheckFailedException if
+ * it isn't in the trash.
+ */
+export async function restoreMemory(date: string, id: string): Promise<Record<string, unknown>> {
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: MEMORIES_TABLE,
+      Key: entryKey(date, id),
+      UpdateExpression: "SET #k = :kind, #v = #v + :one REMOVE deleted_at, purge_at",
+      ConditionExpression: "#k = :trash",
+      ExpressionAttributeNames: { "#k": "kind", "#v": "version" },
+      ExpressionAttributeValues: { ":kind": MEMORY_KIND, ":trash": TRASH_KIND, ":one": 1 },
+      ReturnValues: "ALL_NEW",
+    })
+  );
+  return result.Attributes!;
+}
+
+/**
+ * Deletes a trashed memory for good. Throws ConditionalCheckFailedException
+ * if it isn't in the trash.
+ */
+export async function purgeMemory(date: string, id: string): Promise<Record<string, unknown>> {
+  const result = await docClient.send(
+    new DeleteCommand({
+      TableName: MEMORIES_TABLE,
+      Key: entryKey(date, id),
+      ConditionExpression: "#k = :trash",
+      ExpressionAttributeNames: { "#k": "kind" },
+      ExpressionAttributeValues: { ":trash": TRASH_KIND },
+      ReturnValues: "ALL_OLD",
+    })
+  );
+  return result.Attributes!;
+}
+
+/**
+ * Puts a day's live entries in the order of `ids`, which must name each of
+ * them exactly once. Versions are left alone: order isn't content, so it
+ * shouldn't make an open editor conflict. Returns false, writing nothing,
+ * if `ids` doesn't match the live entries (one was added or deleted since).
+ */
+export async function reorderMemories(date: string, ids: string[]): Promise<boolean> {
+  const live = (await listDay(date)).filter((item) => !isTrashed(item));
+  const stored = new Set(live.map((item) => item.entry_id as string));
+  const sameSet =
+    ids.length === stored.size && new Set(ids).size === ids.length && ids.every((id) => stored.has(id));
+  if (!sameSet) return false;
+
+  try {
+    await docClient.send(
+      new TransactWriteCommand({
+        TransactItems: ids.map((id, position) => ({
+          Update: {
+            TableName: MEMORIES_TABLE,
+            Key: entryKey(date, id),
+            UpdateExpression: "SET #p = :position",
+            ConditionExpression: "#k = :kind",
+            ExpressionAttributeNames: { "#p": "position", "#k": "kind" },
+            ExpressionAttributeValues: { ":position": position, ":kind": MEMORY_KIND },
+          },
+        })),
+      })
+    );
+    return true;
+  } catch (err) {
+    // An entry was trashed between the read and the write
+    if ((err as Error).name === "TransactionCanceledException") return false;
+    throw err;
+  }
+}
@@ -0,0 +1,321 @@
+import type { MemoryEntry, MemoryFormat, MemoryStatus, MemoryType } from "../../src/types.js";
+import type { FieldErrors } from "../../src/validation.js";
+import { validateMemory } from "../../src/validation.js";
+import {
+  isEntryId,
+  listMemories,
+  MAX_ENTRIES_PER_DAY,
+  memoryFormat,
+  memoryStatus,
+  memoryTags,
+  memoryVersion,
+} from "./memories.js";
+
+/**
+ * Export and import of memories as MemoryEntry JSON or CSV.
+ *
+ * An import is planned before anything is written: each row is validated
+ * and compared with the stored copy. Rows that carry the `version` they
+ * were exported at become conflicts when the stored copy has moved on
+ * since, so an old backup can't silently undo later edits.
+ *
+ * Rows are matched to stored entries by date and `id`. Rows without an id
+ * (files from before a day could hold several memories) take the day's
+ * remaining entries in order, and any left over become new entries. New
+ * entries that would take a day past MAX_ENTRIES_PER_DAY are row errors.
+ * Rows without tags (files from before tags existed) keep the stored ones.
+ */
+
+export type ExportFormat = "json" | "csv";
+export type ImportMode = "merge" | "replace";
+
+/** A row to import: the MemoryEntry shape, with publishAt null when unset. `id` is set once matched. */
+export type ImportEntry = Omit<MemoryEntry, "locked" | "publishAt"> & { publishAt: string | null };
+
+export interface ImportPlan {
+  creates: ImportEntry[];
+  updates: { date: string; changes: string[]; before: MemoryEntry; after: ImportEntry }[];
+  /** Stored copy changed since the row's version was exported. */
+  conflicts: { date: string; changes: string[]; current: MemoryEntry; incoming: ImportEntry }[];
+  /** Replace only: stored entries the file doesn't have, which go to the trash. */
+  deletes: MemoryEntry[];
+  unchanged: number;
+  errors: { row: number; date?: string; fields: FieldErrors & { id?: string; version?: string } }[];
+}
+
+export const MAX_IMPORT_ROWS = 500;
+const CSV_COLUMNS = ["date", "id", "type", "text", "format", "media", "tags", "status", "publishAt", "version"] as const;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return value === "json" || value === "csv";
+}
+
+export function isImportMode(value: unknown): value is ImportMode {
+  return value === "merge" || value === "replace";
+}
+
+function toEntry(item: Record<string, unknown>): MemoryEntry {
+  return {
+    date: item.date_id as string,
+    id: item.entry_id as string,
+    type: item.type as MemoryType,
+    text: (item.text as string) ?? "",
+    format: memoryFormat(item),
+    media: (item.media as string[]) ?? [],
+    tags: memoryTags(item),
+    status: memoryStatus(item),
+    publishAt: (item.publish_at as string) || undefined,
+    version: memoryVersion(item),
+  };
+}
+
+/** Every live memory (not the trash), in date order and each day's entries in order. */
+export async function loadAllMemories(): Promise<MemoryEntry[]> {
+  const entries: MemoryEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listMemories({ cursor, limit: 500 });
+    entries.push(...page.items.map(toEntry));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return entries;
+}
+
+// --- CSV (RFC 4180: quoted fields may hold commas, quotes and newlines) ---
+
+// Spreadsheets run a cell starting with one of =+-@ as a formula, so export
+// puts a ' in front (and in front of a leading ' so it survives); import takes it off
+const FORMULA_START = /^[=+\-@']/;
+const ESCAPED_FORMULA_START = /^'[=+\-@']/;
+
+function csvField(value: string): string {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Media URLs and tags are space-separated in one column each; neither can contain spaces. */
+export function toCsv(entries: MemoryEntry[]): string {
+  const rows = entries.map((e) =>
+    [
+      e.date,
+      e.id ?? "",
+      e.type,
+      e.text,
+      e.format ?? "",
+      (e.media ?? []).join(" "),
+      (e.tags ?? []).join(" "),
+      e.status ?? "",
+      e.publishAt ?? "",
+      e.version !== undefined ? String(e.version) : "",
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+/** Raw rows as MemoryEntry-shaped objects, still unvalidated. Throws on malformed input. */
+export function parseImport(format: ExportFormat, content: string): Record<string, unknown>[] {
+  if (format === "json") {
+    const data = JSON.parse(content);
+    // A bare array, or the { memories } shape GET /api/memories returns
+    const list = Array.isArray(data) ? data : data?.memories;
+    if (!Array.isArray(list)) throw new Error("Expected an array of memories");
+    return list.map((row) => (row && typeof row === "object" ? row : {}));
+  }
+
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ""));
+  if (!header || !header.includes("date") || !header.includes("type")) {
+    throw new Error("CSV needs a header row with at least date and type");
+  }
+  return rows.map((cells) => {
+    const get = (name: string) => {
+      const i = header.indexOf(name);
+      const cell = i === -1 ? "" : (cells[i] ?? "");
+      return ESCAPED_FORMULA_START.test(cell) ? cell.slice(1) : cell;
+    };
+    const version = get("version");
+    return {
+      date: get("date"),
+      id: get("id") || undefined,
+      type: get("type"),
+      text: get("text"),
+      format: get("format") || undefined,
+      media: get("media").split(/\s+/).filter(Boolean),
+      tags: header.includes("tags") ? get("tags").split(/\s+/).filter(Boolean) : undefined,
+      status: get("status") || undefined,
+      publishAt: get("publishAt") || null,
+      version: version ? Number(version) : undefined,
+    };
+  });
+}
+
+function normalize(row: Record<string, unknown>): ImportEntry {
+  return {
+    date: row.date as string,
+    id: (row.id as string) ?? undefined,
+    type: row.type as MemoryType,
+    text: (row.text as string) ?? "",
+    format: (row.format as MemoryFormat) ?? undefined,
+    media: (row.media as string[]) ?? [],
+    tags: (row.tags as string[]) ?? undefined,
+    status: (row.status as MemoryStatus) ?? undefined,
+    publishAt:
+      typeof row.publishAt === "string" && row.publishAt
+        ? new Date(row.publishAt).toISOString()
+        : null,
+    version: typeof row.version === "number" && Number.isInteger(row.version) ? row.version : undefined,
+  };
+}
+
+/** Fields where the row would change the stored copy. */
+function diffFields(current: MemoryEntry, incoming: ImportEntry): string[] {
+  const changes: string[] = [];
+  if (current.type !== incoming.type) changes.push("type");
+  if (current.text !== incoming.text) changes.push("text");
+  if (incoming.format !== undefined && (current.format ?? "plain") !== incoming.format) changes.push("format");
+  if ((current.media ?? []).join("\n") !== (incoming.media ?? []).join("\n")) changes.push("media");
+  if (incoming.tags !== undefined && (current.tags ?? []).join(" ") !== incoming.tags.join(" ")) {
+    changes.push("tags");
+  }
+  if (incoming.status !== undefined && current.status !== incoming.status) changes.push("status");
+  if ((current.publishAt ?? null) !== incoming.publishAt) changes.push("publishAt");
+  return changes;
+}
+
+export function planImport(
+  rows: Record<string, unknown>[],
+  current: MemoryEntry[],
+  mode: ImportMode,
+  mediaOrigins: string[] | undefined
+): ImportPlan {
+  const plan: ImportPlan = {
+    creates: [],
+    updates: [],
+    conflicts: [],
+    deletes: [],
+    unchanged: 0,
+    errors: [],
+  };
+  const key = (date: string, id: string | undefined) => `${date}/${id}`;
+  const stored = new Map(current.map((m) => [key(m.date, m.id), m]));
+  const valid: ImportEntry[] = [];
+  const rowNumbers = new Map<ImportEntry, number>();
+  const seen = new Set<string>();
+
+  rows.forEach((row, i) => {
+    // 1-based position among the file's memories (the CSV header isn't counted)
+    const rowNumber = i + 1;
+    const fields: ImportPlan["errors"][number]["fields"] = validateMemory(row, { mediaOrigins });
+    if (row.id !== undefined && !isEntryId(row.id)) {
+      fields.id = "Id may only use letters, digits, - and _ (at most 32)";
+    }
+    if (row.version !== undefined && !(typeof row.version === "number" && Number.isInteger(row.version))) {
+      fields.version = "Version must be a whole number";
+    }
+    const date = typeof row.date === "string" ? row.date : undefined;
+    if (date && isEntryId(row.id)) {
+      if (seen.has(key(date, row.id))) fields.id = `${date} ${row.id} appears more than once`;
+      seen.add(key(date, row.id));
+    }
+    if (Object.keys(fields).length > 0) {
+      plan.errors.push({ row: rowNumber, date, fields });
+      return;
+    }
+    const entry = normalize(row);
+    valid.push(entry);
+    rowNumbers.set(entry, rowNumber);
+  });
+
+  // Rows without an id take the day's entries no row claimed by id, in order
+  const unclaimed = new Map<string, MemoryEntry[]>();
+  for (const m of current) {
+    if (seen.has(key(m.date, m.id))) continue;
+    unclaimed.set(m.date, [...(unclaimed.get(m.date) ?? []), m]);
+  }
+  const matched = new Set<string>();
+  const creates: ImportEntry[] = [];
+
+  for (const entry of valid) {
+    const existing =
+      entry.id !== undefined ? stored.get(key(entry.date, entry.id)) : unclaimed.get(entry.date)?.shift();
+    if (!existing) {
+      creates.push(entry);
+      continue;
+    }
+    matched.add(key(existing.date, existing.id));
+    entry.id = existing.id;
+    const changes = diffFields(existing, entry);
+    if (changes.length === 0) {
+      plan.unchanged++;
+    } else if (entry.version !== undefined && entry.version !== existing.version) {
+      plan.conflicts.push({ date: entry.date, changes, current: existing, incoming: entry });
+    } else {
+      plan.updates.push({ date: entry.date, changes, before: existing, after: entry });
+    }
+  }
+
+  if (mode === "replace") {
+    plan.deletes = current.filter((m) => !matched.has(key(m.date, m.id)));
+  }
+
+  // A day keeps its stored entries (replace: only those the file matched) plus the new ones
+  const dayCounts = new Map<string, number>();
+  const kept = mode === "replace" ? current.filter((m) => matched.has(key(m.date, m.id))) : current;
+  for (const m of kept) dayCounts.set(m.date, (dayCounts.get(m.date) ?? 0) + 1);
+  for (const entry of creates) {
+    const count = dayCounts.get(entry.date) ?? 0;
+    if (count >= MAX_ENTRIES_PER_DAY) {
+      plan.errors.push({
+        row: rowNumbers.get(entry)!,
+        date: entry.date,
+        fields: { date: `A day can hold at most ${MAX_ENTRIES_PER_DAY} memories` },
+      });
+      continue;
+    }
+    dayCounts.set(entry.date, count + 1);
+    plan.creates.push(entry);
+  }
+  plan.errors.sort((a, b) => a.row - b.row);
+  return plan;
+}
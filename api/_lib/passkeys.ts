@@ -0,0 +1,167 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { AuthenticatorTransportFuture, WebAuthnCredential } from "@simplewebauthn/server";
+import { clearSignedCookie, readSignedCookie, requestHost, setSignedCookie } from "./auth.js";
+import { docClient, PASSKEYS_TABLE } from "./dynamo.js";
+
+/**
+ * Admin passkeys (WebAuthn credentials) in DynamoDB, keyed by credential_id.
+ *
+ * Challenges live in a short-lived signed cookie between the options and
+ * verify requests, so no server-side challenge store is needed.
+ *
+ * Relying party: WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN, defaulting to the request's
+ * host (http for localhost, so `vercel dev` works with a virtual authenticator).
+ */
+
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  /** True for synced passkeys (iCloud Keychain, Google Password Manager, ...). */
+  backedUp: boolean;
+}
+
+export const RP_NAME = "Our Love Story";
+// Fixed user handle: there is a single admin
+export const ADMIN_USER_ID = new TextEncoder().encode("admin");
+
+const CHALLENGE_COOKIE = "webauthn_challenge";
+const CHALLENGE_MAX_AGE = 5 * 60;
+
+type ChallengePurpose = "register" | "login";
+
+export function getRelyingParty(req: VercelRequest): { rpID: string; origin: string } {
+  const host = requestHost(req);
+  const hostname = host.split(":")[0];
+  const isLocal = hostname === "localhost" || hostname === "127.0.0.1";
+  return {
+    rpID: process.env.WEBAUTHN_RP_ID || hostname,
+    origin: process.env.WEBAUTHN_ORIGIN || `${isLocal ? "http" : "https"}://${host}`,
+  };
+}
+
+export function setChallenge(res: VercelResponse, purpose: ChallengePurpose, challenge: string) {
+  setSignedCookie(res, CHALLENGE_COOKIE, `${purpose}|${challenge}`, CHALLENGE_MAX_AGE, "/api/admin");
+}
+
+/** The pending challenge for `purpose`, or null. Always clears the cookie (single use). */
+export function takeChallenge(
+  req: VercelRequest,
+  res: VercelResponse,
+  purpose: ChallengePurpose
+): string | null {
+  clearSignedCookie(res, CHALLENGE_COOKIE, "/api/admin");
+  const value = readSignedCookie(req, CHALLENGE_COOKIE);
+  if (!value?.startsWith(`${purpose}|`)) return null;
+  return value.slice(purpose.length + 1);
+}
+
+function toPasskey(item: Record<string, unknown>): Passkey {
+  return {
+    id: item.credential_id as string,
+    name: item.name as string,
+    createdAt: item.created_at as string,
+    lastUsedAt: (item.last_used_at as string) ?? null,
+    backedUp: item.backed_up === true,
+  };
+}
+
+async function scanPasskeys(): Promise<Record<string, unknown>[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: PASSKEYS_TABLE, ExclusiveStartKey: startKey })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items;
+}
+
+export async function listPasskeys(): Promise<Passkey[]> {
+  return (await scanPasskeys())
+    .map(toPasskey)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Credential ids + transports, for allow/exclude lists in WebAuthn options. */
+export async function listCredentialDescriptors(): Promise<
+  { id: string; transports?: AuthenticatorTransportFuture[] }[]
+> {
+  return (await scanPasskeys()).map((item) => ({
+    id: item.credential_id as string,
+    transports: (item.transports as AuthenticatorTransportFuture[]) || undefined,
+  }));
+}
+
+export async function getCredential(id: string): Promise<WebAuthnCredential | null> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: PASSKEYS_TABLE, Key: { credential_id: id } })
+  );
+  const item = result.Item;
+  if (!item) return null;
+  return {
+    id,
+    publicKey: new Uint8Array(Buffer.from(item.public_key as string, "base64url")),
+    counter: (item.counter as number) || 0,
+    transports: (item.transports as AuthenticatorTransportFuture[]) || undefined,
+  };
+}
+
+export async function savePasskey(
+  credential: WebAuthnCredential,
+  name: string,
+  backedUp: boolean
+): Promise<Passkey> {
+  const item = {
+    credential_id: credential.id,
+    public_key: Buffer.from(credential.publicKey).toString("base64url"),
+    counter: credential.counter,
+    transports: credential.transports,
+    name,
+    backed_up: backedUp,
+    created_at: new Date().toISOString(),
+  };
+  await docClient.send(
+    new PutCommand({
+      TableName: PASSKEYS_TABLE,
+      Item: item,
+      ConditionExpression: "attribute_not_exists(credential_id)",
+    })
+  );
+  return toPasskey(item);
+}
+
+export async function recordPasskeyUse(id: string, counter: number): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: PASSKEYS_TABLE,
+      Key: { credential_id: id },
+      UpdateExpression: "SET #c = :counter, last_used_at = :now",
+      ExpressionAttributeNames: { "#c": "counter" },
+      ExpressionAttributeValues: { ":counter": counter, ":now": new Date().toISOString() },
+    })
+  );
+}
+
+/** Throws ConditionalCheckFailedException if the passkey doesn't exist. */
+export async function deletePasskey(id: string): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: PASSKEYS_TABLE,
+      Key: { credential_id: id },
+      ConditionExpression: "attribute_exists(credential_id)",
+    })
+  );
+}
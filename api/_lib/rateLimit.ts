@@ -0,0 +1,275 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { docClient, LOGIN_ATTEMPTS_TABLE } from "./dynamo.js";
+import { getClientIp } from "./sessions.js";
+
+/**
+ * Login attempt limiting for the viewer password and the admin PIN.
+ *
+ * Attempts are counted per IP and globally per login kind. After a few free
+ * attempts each further one locks that counter for an exponentially growing
+ * period (capped), so guessing gets slower and slower.
+ *
+ * An attempt is counted, and the lock it earns set, in one conditional write
+ * before the credential is checked, so a burst of guesses sent at once can't
+ * all get past the lock. A successful attempt is taken back afterwards.
+ *
+ * Counters live in DynamoDB (LOGIN_ATTEMPTS_TABLE) unless
+ * RATE_LIMIT_STORE=memory, which keeps them in the function instance for
+ * local dev. If DynamoDB fails we fall back to memory rather than lock
+ * everyone out.
+ */
+
+// "admin_totp" is separate from "admin" so a correct PIN doesn't reset code guesses;
+// "admin_passkey" so PIN guesses can't lock out passkey sign-in
+export type LoginKind = "viewer" | "admin" | "admin_totp" | "admin_passkey";
+
+interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number; // ms; the last counted attempt
+  lockedUntil: number; // ms
+}
+
+/** Either the attempt was counted (with the lock it earns if it fails), or the counter is locked. */
+type Reservation = { allowed: true; lockMs: number } | { allowed: false; remainingMs: number };
+
+interface AttemptStore {
+  /** Counts an attempt unless the counter is locked (starting over if the last one was too long ago). */
+  reserve(key: string, policy: LimitPolicy, now: number): Promise<Reservation>;
+  /** Takes back one counted attempt. */
+  release(key: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface LimitPolicy {
+  freeAttempts: number;
+  baseLockMs: number;
+  maxLockMs: number;
+}
+
+const POLICIES: Record<"ip" | "global", LimitPolicy> = {
+  ip: { freeAttempts: 5, baseLockMs: 30 * 1000, maxLockMs: 60 * 60 * 1000 },
+  global: { freeAttempts: 50, baseLockMs: 10 * 1000, maxLockMs: 15 * 60 * 1000 },
+};
+
+// Failures older than this are forgotten
+const RESET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Conditional writes lost to other attempts before this one is refused as part of a burst
+const MAX_RESERVE_TRIES = 5;
+
+function lockDuration(failures: number, policy: LimitPolicy): number {
+  const over = failures - policy.freeAttempts;
+  if (over <= 0) return 0;
+  return Math.min(policy.baseLockMs * 2 ** (over - 1), policy.maxLockMs);
+}
+
+/** The record after counting one more attempt on `existing`. */
+function nextRecord(existing: AttemptRecord | null, policy: LimitPolicy, now: number): AttemptRecord {
+  const stale = !existing || now - existing.lastFailureAt > RESET_WINDOW_MS;
+  const failures = stale ? 1 : existing.failures + 1;
+  return { failures, lastFailureAt: now, lockedUntil: now + lockDuration(failures, policy) };
+}
+
+class MemoryAttemptStore implements AttemptStore {
+  private records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+  // Synchronous, so a read and the write after it can't interleave with another request
+  private read(key: string): AttemptRecord | null {
+    const entry = this.records.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return entry.record;
+  }
+
+  async reserve(key: string, policy: LimitPolicy, now: number): Promise<Reservation> {
+    const existing = this.read(key);
+    if (existing && existing.lockedUntil > now) {
+      return { allowed: false, remainingMs: existing.lockedUntil - now };
+    }
+    const record = nextRecord(existing, policy, now);
+    this.records.set(key, { record, expiresAt: now + RESET_WINDOW_MS });
+    return { allowed: true, lockMs: record.lockedUntil - now };
+  }
+
+  async release(key: string) {
+    const existing = this.read(key);
+    if (existing && existing.failures > 0) existing.failures--;
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+class DynamoAttemptStore implements AttemptStore {
+  private async get(key: string): Promise<AttemptRecord | null> {
+    const result = await docClient.send(
+      new GetCommand({ TableName: LOGIN_ATTEMPTS_TABLE, Key: { attempt_key: key }, ConsistentRead: true })
+    );
+    const item = result.Item;
+    if (!item) return null;
+    return {
+      failures: item.failures as number,
+      lastFailureAt: item.last_failure_at as number,
+      lockedUntil: (item.locked_until as number) || 0,
+    };
+  }
+
+  /**
+   * Writes the next record only if the counter hasn't moved since it was
+   * read (compare-and-set on failures and last_failure_at), so concurrent
+   * attempts can't both count from the same value or skip a lock.
+   */
+  async reserve(key: string, policy: LimitPolicy, now: number): Promise<Reservation> {
+    for (let attempt = 0; attempt < MAX_RESERVE_TRIES; attempt++) {
+      const existing = await this.get(key);
+      if (existing && existing.lockedUntil > now) {
+        return { allowed: false, remainingMs: existing.lockedUntil - now };
+      }
+      const record = nextRecord(existing, policy, now);
+      try {
+        await docClient.send(
+          new PutCommand({
+            TableName: LOGIN_ATTEMPTS_TABLE,
+            Item: {
+              attempt_key: key,
+              failures: record.failures,
+              last_failure_at: record.lastFailureAt,
+              locked_until: record.lockedUntil,
+              expires_at: Math.floor((now + RESET_WINDOW_MS) / 1000),
+            },
+            ConditionExpression: existing
+              ? "failures = :failures AND last_failure_at = :last"
+              : "attribute_not_exists(attempt_key)",
+            ExpressionAttributeValues: existing
+              ? { ":failures": existing.failures, ":last": existing.lastFailureAt }
+              : undefined,
+          })
+        );
+        return { allowed: true, lockMs: record.lockedUntil - now };
+      } catch (err) {
+        if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+      }
+    }
+    // Lost every race: many attempts are landing at once, so this is a burst
+    return { allowed: false, remainingMs: policy.baseLockMs };
+  }
+
+  async release(key: string) {
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: LOGIN_ATTEMPTS_TABLE,
+          Key: { attempt_key: key },
+          UpdateExpression: "ADD failures :minus",
+          ConditionExpression: "failures > :zero",
+          ExpressionAttributeValues: { ":minus": -1, ":zero": 0 },
+        })
+      );
+    } catch (err) {
+      if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+    }
+  }
+
+  async delete(key: string) {
+    await docClient.send(
+      new DeleteCommand({ TableName: LOGIN_ATTEMPTS_TABLE, Key: { attempt_key: key } })
+    );
+  }
+}
+
+const memoryStore = new MemoryAttemptStore();
+const dynamoStore = new DynamoAttemptStore();
+
+function primaryStore(): AttemptStore {
+  return process.env.RATE_LIMIT_STORE === "memory" ? memoryStore : dynamoStore;
+}
+
+async function withFallback<T>(op: (store: AttemptStore) => Promise<T>): Promise<T> {
+  const store = primaryStore();
+  try {
+    return await op(store);
+  } catch (err) {
+    if (store === memoryStore) throw err;
+    console.error("Login attempt store failed; using in-memory fallback:", err);
+    return op(memoryStore);
+  }
+}
+
+function ipKey(kind: LoginKind, ip: string): string {
+  return `${kind}:ip:${ip}`;
+}
+
+function globalKey(kind: LoginKind): string {
+  return `${kind}:global`;
+}
+
+/**
+ * Counts an attempt on the per-IP and global counters before it's checked.
+ * Returns the ms left on a lock that refused it (nothing is counted then),
+ * or 0 and the lock the attempt earns if it fails.
+ */
+async function reserveAttempt(kind: LoginKind, ip: string): Promise<{ remainingMs: number; lockMs: number }> {
+  const now = Date.now();
+  const counters = [
+    { key: ipKey(kind, ip), policy: POLICIES.ip },
+    { key: globalKey(kind), policy: POLICIES.global },
+  ];
+  return withFallback(async (store) => {
+    const counted: string[] = [];
+    let lockMs = 0;
+    for (const { key, policy } of counters) {
+      const reservation = await store.reserve(key, policy, now);
+      if (!reservation.allowed) {
+        await Promise.all(counted.map((k) => store.release(k)));
+        return { remainingMs: reservation.remainingMs, lockMs: 0 };
+      }
+      counted.push(key);
+      lockMs = Math.max(lockMs, reservation.lockMs);
+    }
+    return { remainingMs: 0, lockMs };
+  });
+}
+
+/** Clears the per-IP counter after a successful login and takes the attempt back from the global one. */
+async function recordSuccess(kind: LoginKind, ip: string): Promise<void> {
+  await withFallback((store) => Promise.all([store.delete(ipKey(kind, ip)), store.release(globalKey(kind))]));
+}
+
+export function sendLocked(res: VercelResponse, remainingMs: number) {
+  const retryAfter = Math.max(1, Math.ceil(remainingMs / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(429).json({ error: "Too many attempts", retryAfter });
+}
+
+/**
+ * Runs a login check under the limiter. Sends 429 (with Retry-After) while
+ * locked; otherwise counts the attempt, runs `check` and returns its outcome.
+ */
+export async function limitLoginAttempt(
+  kind: LoginKind,
+  req: VercelRequest,
+  res: VercelResponse,
+  check: () => boolean | Promise<boolean>
+): Promise<"ok" | "invalid" | "locked"> {
+  const ip = getClientIp(req);
+
+  const { remainingMs, lockMs } = await reserveAttempt(kind, ip);
+  if (remainingMs > 0) {
+    sendLocked(res, remainingMs);
+    return "locked";
+  }
+
+  if (await check()) {
+    await recordSuccess(kind, ip);
+    return "ok";
+  }
+
+  if (lockMs > 0) res.setHeader("Retry-After", String(Math.ceil(lockMs / 1000)));
+  return "invalid";
+}
@@ -0,0 +1,97 @@
+import { DeleteCommand, PutCommand, QueryCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import type { Reaction, ReactionSummary } from "../../src/types.js";
+import { docClient, REACTIONS_TABLE } from "./dynamo.js";
+import { entryPath } from "./memories.js";
+import { listViewers, subjectName } from "./viewers.js";
+
+/**
+ * Reactions (DynamoDB): one item per reactor, memory and emoji. Partition key
+ * `reactor` (the session subject, so a shared viewer login shares its
+ * reactions), sort key reaction_key = "<date>/<entry id>#<emoji>". A viewer's
+ * own reactions are one Query; the admin summary scans the table.
+ *
+ * Reactions to a memory that's later purged are left behind; the dashboard
+ * only shows the ones whose memory it has.
+ */
+
+function reactionKey(date: string, id: string, emoji: string): string {
+  return `${entryPath(date, id)}#${emoji}`;
+}
+
+function toReaction(item: Record<string, unknown>): Reaction {
+  return { date: item.date_id as string, id: item.entry_id as string, emoji: item.emoji as string };
+}
+
+/** Everything `reactor` has reacted with, in date order. */
+export async function listReactions(reactor: string): Promise<Reaction[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: REACTIONS_TABLE,
+        KeyConditionExpression: "reactor = :reactor",
+        ExpressionAttributeValues: { ":reactor": reactor },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items.map(toReaction);
+}
+
+/** Adds a reaction; adding one that's already there changes nothing. */
+export async function addReaction(reactor: string, date: string, id: string, emoji: string): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: REACTIONS_TABLE,
+      Item: {
+        reactor,
+        reaction_key: reactionKey(date, id, emoji),
+        date_id: date,
+        entry_id: id,
+        emoji,
+        created_at: new Date().toISOString(),
+      },
+    })
+  );
+}
+
+export async function removeReaction(reactor: string, date: string, id: string, emoji: string): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: REACTIONS_TABLE,
+      Key: { reactor, reaction_key: reactionKey(date, id, emoji) },
+    })
+  );
+}
+
+/** Every memory anyone reacted to, with counts per emoji and who reacted, in date order. */
+export async function summarizeReactions(): Promise<ReactionSummary[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: REACTIONS_TABLE, ExclusiveStartKey: startKey })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  const names = new Map((await listViewers()).map((v) => [v.username, v.name]));
+  const byEntry = new Map<string, ReactionSummary>();
+  for (const item of items) {
+    const { date, id, emoji } = toReaction(item);
+    const key = entryPath(date, id);
+    let summary = byEntry.get(key);
+    if (!summary) {
+      summary = { date, id, counts: {}, reactors: [] };
+      byEntry.set(key, summary);
+    }
+    summary.counts[emoji] = (summary.counts[emoji] ?? 0) + 1;
+    const name = subjectName(item.reactor as string, names);
+    if (!summary.reactors.includes(name)) summary.reactors.push(name);
+  }
+  return [...byEntry.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
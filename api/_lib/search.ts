@@ -0,0 +1,171 @@
+import { BatchGetCommand, BatchWriteCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { parseMarkdown, plainText } from "../../src/markdown.js";
+import { terms } from "../../src/search.js";
+import { docClient, MEMORIES_TABLE, SEARCH_INDEX_TABLE } from "./dynamo.js";
+import { entryPath, memoryFormat, memoryTags } from "./memories.js";
+
+/**
+ * Full-text index of memory text and tags (DynamoDB), with terms from
+ * src/search.ts.
+ *
+ * One item per term and entry: partition key term_prefix (the term's first
+ * two letters), sort key term_key = "<term>#<date>/<entry id>". A search word
+ * is a begins_with Query on its prefix's partition, which is what makes "lak"
+ * find "lake". Saves add and remove only the terms that changed.
+ *
+ * The index only says where words are. Results are read back from the
+ * memories table, so the trash, drafts and the unlock rule apply as they do
+ * everywhere else, and entries that no longer exist (e.g. purged by the
+ * trash TTL) are skipped.
+ */
+
+export interface IndexItem {
+  term_prefix: string;
+  term_key: string;
+  date_id: string;
+  entry_id: string;
+}
+
+// Matches read per query word; a very common prefix stops there
+const MAX_TERM_MATCHES = 1000;
+const BATCH_WRITE_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+const MAX_BATCH_ATTEMPTS = 5;
+
+function chunks<T>(list: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+}
+
+function backoff(attempt: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+}
+
+/** A memory's text as readers see it: Markdown without its markup, captions included. */
+export function searchableText(item: Record<string, unknown>): string {
+  const text = typeof item.text === "string" ? item.text : "";
+  return memoryFormat(item) === "markdown" ? plainText(parseMarkdown(text)) : text;
+}
+
+/** What a memory is found by: its text and its tags. */
+export function itemTerms(item: Record<string, unknown>): string[] {
+  const tagWords = memoryTags(item).map((tag) => tag.replace(/-/g, " "));
+  return terms([searchableText(item), ...tagWords].join(" "));
+}
+
+/** The index items for one memory. */
+export function indexItems(item: Record<string, unknown>): IndexItem[] {
+  const date = item.date_id as string;
+  const id = item.entry_id as string;
+  return itemTerms(item).map((term) => ({
+    term_prefix: term.slice(0, 2),
+    term_key: `${term}#${entryPath(date, id)}`,
+    date_id: date,
+    entry_id: id,
+  }));
+}
+
+/** Writes and deletes index items, retrying what DynamoDB leaves unprocessed. */
+export async function writeIndexChanges(puts: IndexItem[], deletes: IndexItem[]): Promise<void> {
+  const requests = [
+    ...puts.map((item) => ({ PutRequest: { Item: item } })),
+    ...deletes.map(({ term_prefix, term_key }) => ({
+      DeleteRequest: { Key: { term_prefix, term_key } },
+    })),
+  ];
+  for (const batch of chunks(requests, BATCH_WRITE_SIZE)) {
+    let pending: Record<string, unknown>[] | undefined = batch;
+    for (let attempt = 0; pending && pending.length > 0; attempt++) {
+      if (attempt === MAX_BATCH_ATTEMPTS) throw new Error("Search index write kept being throttled");
+      if (attempt > 0) await backoff(attempt);
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [SEARCH_INDEX_TABLE]: pending } })
+      );
+      pending = result.UnprocessedItems?.[SEARCH_INDEX_TABLE] as Record<string, unknown>[] | undefined;
+    }
+  }
+}
+
+/**
+ * Brings the index in line with a save: `before` and `after` are the item as
+ * saveMemory returned it (either may be undefined for a create or a purge).
+ * Like recordAudit, a failure is logged rather than failing a save that
+ * already went through; `npm run build-search-index` repairs the index.
+ */
+export async function updateSearchIndex(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): Promise<void> {
+  const old = before ? indexItems(before) : [];
+  const next = after ? indexItems(after) : [];
+  const oldKeys = new Set(old.map((item) => item.term_key));
+  const nextKeys = new Set(next.map((item) => item.term_key));
+  try {
+    await writeIndexChanges(
+      next.filter((item) => !oldKeys.has(item.term_key)),
+      old.filter((item) => !nextKeys.has(item.term_key))
+    );
+  } catch (err) {
+    const item = after ?? before;
+    console.error("Search index update failed:", item?.date_id, item?.entry_id, err);
+  }
+}
+
+/** "<date>/<entry id>" of every entry with a term starting with `term`. */
+async function entriesMatching(term: string): Promise<Set<string>> {
+  const found = new Set<string>();
+  let startKey: Record<string, unknown> | undefined;
+  let read = 0;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: SEARCH_INDEX_TABLE,
+        KeyConditionExpression: "term_prefix = :prefix AND begins_with(term_key, :term)",
+        ExpressionAttributeValues: { ":prefix": term.slice(0, 2), ":term": term },
+        ProjectionExpression: "date_id, entry_id",
+        ExclusiveStartKey: startKey,
+      })
+    );
+    for (const item of result.Items || []) {
+      found.add(entryPath(item.date_id as string, item.entry_id as string));
+    }
+    read += result.Items?.length ?? 0;
+    startKey = result.LastEvaluatedKey;
+  } while (startKey && read < MAX_TERM_MATCHES);
+  return found;
+}
+
+/** Entries matching every term (as "<date>/<entry id>"), newest first. */
+export async function findEntries(queryTerms: string[]): Promise<string[]> {
+  if (queryTerms.length === 0) return [];
+  const matches = await Promise.all(queryTerms.map(entriesMatching));
+  const [first, ...rest] = matches.sort((a, b) => a.size - b.size);
+  return [...first].filter((path) => rest.every((set) => set.has(path))).sort().reverse();
+}
+
+/** Memory items for "<date>/<entry id>" paths, in the same order; missing ones are left out. */
+export async function loadEntries(paths: string[]): Promise<Record<string, unknown>[]> {
+  const loaded = new Map<string, Record<string, unknown>>();
+  for (const batch of chunks(paths, BATCH_GET_SIZE)) {
+    let keys: Record<string, unknown>[] | undefined = batch.map((path) => {
+      const [date, id] = path.split("/");
+      return { date_id: date, entry_id: id };
+    });
+    for (let attempt = 0; keys && keys.length > 0; attempt++) {
+      if (attempt === MAX_BATCH_ATTEMPTS) throw new Error("Memory reads kept being throttled");
+      if (attempt > 0) await backoff(attempt);
+      const result = await docClient.send(
+        new BatchGetCommand({ RequestItems: { [MEMORIES_TABLE]: { Keys: keys } } })
+      );
+      for (const item of result.Responses?.[MEMORIES_TABLE] || []) {
+        loaded.set(entryPath(item.date_id as string, item.entry_id as string), item);
+      }
+      keys = result.UnprocessedKeys?.[MEMORIES_TABLE]?.Keys as Record<string, unknown>[] | undefined;
+    }
+  }
+  return paths.flatMap((path) => {
+    const item = loaded.get(path);
+    return item ? [item] : [];
+  });
+}
@@ -0,0 +1,189 @@
+import { randomBytes } from "crypto";
+import type { VercelRequest } from "@vercel/node";
+import {
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { docClient, SESSIONS_TABLE } from "./dynamo.js";
+import type { Role } from "./auth.js";
+
+/**
+ * Server-side session registry (DynamoDB, keyed by session_id).
+ *
+ * Every login writes a record here and the session id is carried in the
+ * signed cookie. Revoking a record invalidates the cookie everywhere.
+ * `expires_at` is unix seconds and can be used as the table's TTL attribute.
+ */
+
+export interface SessionRecord {
+  id: string;
+  role: Role;
+  sub: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  expiresAt: number;
+  revokedAt?: string;
+}
+
+// Marker written by "log out everywhere". Tokens issued before session ids
+// existed can't be revoked one by one, so they stop working once it's set.
+const REVOKE_ALL_ID = "__revoke_all__";
+
+export function newSessionId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+export function getClientIp(req: VercelRequest): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+  return first?.split(",")[0].trim() || req.socket?.remoteAddress || "unknown";
+}
+
+/** Short human label for a user agent, e.g. "iPhone · Safari". */
+export function describeDevice(userAgent: string): string {
+  const ua = userAgent.toLowerCase();
+  const os = ua.includes("iphone")
+    ? "iPhone"
+    : ua.includes("ipad")
+      ? "iPad"
+      : ua.includes("android")
+        ? "Android"
+        : ua.includes("mac os")
+          ? "Mac"
+          : ua.includes("windows")
+            ? "Windows"
+            : ua.includes("linux")
+              ? "Linux"
+              : "Unknown device";
+  const browser = ua.includes("edg/")
+    ? "Edge"
+    : ua.includes("firefox/") || ua.includes("fxios/")
+      ? "Firefox"
+      : ua.includes("chrome/") || ua.includes("crios/")
+        ? "Chrome"
+        : ua.includes("safari/")
+          ? "Safari"
+          : "Browser";
+  return `${os} · ${browser}`;
+}
+
+function toRecord(item: Record<string, unknown>): SessionRecord {
+  return {
+    id: item.session_id as string,
+    role: item.role as Role,
+    sub: item.sub as string,
+    device: (item.device as string) || "Unknown device",
+    userAgent: (item.user_agent as string) || "",
+    ip: (item.ip as string) || "",
+    createdAt: item.created_at as string,
+    expiresAt: item.expires_at as number,
+    revokedAt: (item.revoked_at as string) || undefined,
+  };
+}
+
+export async function createSession(
+  req: VercelRequest,
+  id: string,
+  role: Role,
+  sub: string,
+  maxAgeSeconds: number
+): Promise<void> {
+  const userAgent = String(req.headers["user-agent"] || "").slice(0, 512);
+  await docClient.send(
+    new PutCommand({
+      TableName: SESSIONS_TABLE,
+      Item: {
+        session_id: id,
+        role,
+        sub,
+        device: describeDevice(userAgent),
+        user_agent: userAgent,
+        ip: getClientIp(req),
+        created_at: new Date().toISOString(),
+        expires_at: Math.floor(Date.now() / 1000) + maxAgeSeconds,
+      },
+    })
+  );
+}
+
+/** True if the session exists, hasn't expired and hasn't been revoked. */
+export async function isSessionActive(id: string): Promise<boolean> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: SESSIONS_TABLE, Key: { session_id: id } })
+  );
+  const item = result.Item;
+  if (!item || item.revoked_at) return false;
+  return (item.expires_at as number) > Math.floor(Date.now() / 1000);
+}
+
+/** True unless "log out everywhere" has been used (see REVOKE_ALL_ID). */
+export async function areUntrackedSessionsAllowed(): Promise<boolean> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: SESSIONS_TABLE, Key: { session_id: REVOKE_ALL_ID } })
+  );
+  return !result.Item;
+}
+
+/** Active (unexpired, unrevoked) sessions, newest first. */
+export async function listActiveSessions(): Promise<SessionRecord[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: SESSIONS_TABLE,
+        FilterExpression:
+          "session_id <> :marker AND attribute_not_exists(revoked_at) AND expires_at > :now",
+        ExpressionAttributeValues: { ":marker": REVOKE_ALL_ID, ":now": now },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items
+    .map(toRecord)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeSession(id: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: SESSIONS_TABLE,
+      Key: { session_id: id },
+      UpdateExpression: "SET revoked_at = :now",
+      ConditionExpression: "attribute_exists(session_id)",
+      ExpressionAttributeValues: { ":now": new Date().toISOString() },
+    })
+  ).catch((err) => {
+    // Unknown ids are already as good as revoked
+    if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+  });
+}
+
+/** Revokes every active session belonging to a subject (e.g. a disabled viewer). */
+export async function revokeSessionsForSubject(sub: string): Promise<number> {
+  const sessions = (await listActiveSessions()).filter((s) => s.sub === sub);
+  await Promise.all(sessions.map((s) => revokeSession(s.id)));
+  return sessions.length;
+}
+
+/** "Log out everywhere": revokes every tracked session and all untracked ones. */
+export async function revokeAllSessions(): Promise<number> {
+  await docClient.send(
+    new PutCommand({
+      TableName: SESSIONS_TABLE,
+      Item: { session_id: REVOKE_ALL_ID, created_at: new Date().toISOString() },
+    })
+  );
+  const sessions = await listActiveSessions();
+  await Promise.all(sessions.map((s) => revokeSession(s.id)));
+  return sessions.length;
+}
@@ -0,0 +1,164 @@
+import { randomBytes } from "crypto";
+import { GetCommand, PutCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { isValidSignature, signValue } from "./auth.js";
+import { docClient, SHARE_LINKS_TABLE } from "./dynamo.js";
+import { revokeSessionsForSubject } from "./sessions.js";
+
+/**
+ * Read-only share links for a single day (DynamoDB, keyed by link_id).
+ *
+ * Link token: <id>-<sig>, where sig is an HMAC of the id under AUTH_SECRET,
+ * so forged ids are rejected before touching the table. Opening a link
+ * counts a view and starts a "share" session whose subject is
+ * `share:<id>:<date>`; it lasts until the link expires.
+ */
+
+export interface ShareLink {
+  id: string;
+  /** Path part of the link: /s/<token>. */
+  token: string;
+  date: string;
+  createdAt: string;
+  /** Unix seconds. */
+  expiresAt: number;
+  /** null = unlimited. */
+  maxViews: number | null;
+  views: number;
+}
+
+const TOKEN_PATTERN = /^([a-f0-9]{16})-([a-f0-9]{64})$/;
+
+function linkSignature(id: string): string {
+  return signValue(`share|${id}`);
+}
+
+/** The link id a token names, or null if it isn't shaped like a token (the signature isn't checked). */
+export function shareLinkId(token: string): string | null {
+  const match = TOKEN_PATTERN.exec(token);
+  return match ? match[1] : null;
+}
+
+export function shareSubject(id: string, date: string): string {
+  return `share:${id}:${date}`;
+}
+
+/** The one date a share session may read, from its subject. */
+export function shareDateFromSubject(sub: string): string | null {
+  const match = /^share:[a-f0-9]{16}:(\d{4}-\d{2}-\d{2})$/.exec(sub);
+  return match ? match[1] : null;
+}
+
+function toLink(item: Record<string, unknown>): ShareLink {
+  const id = item.link_id as string;
+  return {
+    id,
+    token: `${id}-${linkSignature(id)}`,
+    date: item.date_id as string,
+    createdAt: item.created_at as string,
+    expiresAt: item.expires_at as number,
+    maxViews: (item.max_views as number) ?? null,
+    views: (item.views as number) || 0,
+  };
+}
+
+export async function createShareLink(
+  date: string,
+  expiresInDays: number,
+  maxViews: number | null
+): Promise<ShareLink> {
+  const item: Record<string, unknown> = {
+    link_id: randomBytes(8).toString("hex"),
+    date_id: date,
+    created_at: new Date().toISOString(),
+    expires_at: Math.floor(Date.now() / 1000) + expiresInDays * 24 * 60 * 60,
+    views: 0,
+  };
+  if (maxViews) item.max_views = maxViews;
+
+  await docClient.send(new PutCommand({ TableName: SHARE_LINKS_TABLE, Item: item }));
+  return toLink(item);
+}
+
+/** Unrevoked links (including expired and used-up ones), newest first. */
+export async function listShareLinks(): Promise<ShareLink[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: SHARE_LINKS_TABLE,
+        FilterExpression: "attribute_not_exists(revoked_at)",
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items.map(toLink).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Revokes a link and signs out everyone who opened it.
+ * Throws ConditionalCheckFailedException if the link doesn't exist.
+ */
+export async function revokeShareLink(id: string): Promise<void> {
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: SHARE_LINKS_TABLE,
+      Key: { link_id: id },
+      UpdateExpression: "SET revoked_at = :now",
+      ConditionExpression: "attribute_exists(link_id)",
+      ExpressionAttributeValues: { ":now": new Date().toISOString() },
+      ReturnValues: "ALL_NEW",
+    })
+  );
+  await revokeSessionsForSubject(shareSubject(id, result.Attributes!.date_id as string));
+}
+
+/**
+ * Validates a link token and counts a view.
+ *   - "invalid":     malformed, forged or unknown
+ *   - "unavailable": revoked, expired or out of views
+ * Pass `countView: false` to re-check a link without using up a view.
+ */
+export async function openShareLink(
+  token: string,
+  countView = true
+): Promise<ShareLink | "invalid" | "unavailable"> {
+  const match = TOKEN_PATTERN.exec(token);
+  if (!match || !isValidSignature(`share|${match[1]}`, match[2])) {
+    return "invalid";
+  }
+  const id = match[1];
+
+  const result = await docClient.send(
+    new GetCommand({ TableName: SHARE_LINKS_TABLE, Key: { link_id: id } })
+  );
+  if (!result.Item) return "invalid";
+
+  const link = toLink(result.Item);
+  const now = Math.floor(Date.now() / 1000);
+  if (result.Item.revoked_at || link.expiresAt <= now) return "unavailable";
+  if (!countView) return link;
+
+  try {
+    const updated = await docClient.send(
+      new UpdateCommand({
+        TableName: SHARE_LINKS_TABLE,
+        Key: { link_id: id },
+        UpdateExpression: "SET views = if_not_exists(views, :zero) + :one",
+        ConditionExpression:
+          "attribute_not_exists(revoked_at) AND expires_at > :now AND " +
+          "(attribute_not_exists(max_views) OR views < max_views)",
+        ExpressionAttributeValues: { ":zero": 0, ":one": 1, ":now": now },
+        ReturnValues: "ALL_NEW",
+      })
+    );
+    return toLink(updated.Attributes!);
+  } catch (err) {
+    if ((err as Error).name === "ConditionalCheckFailedException") return "unavailable";
+    throw err;
+  }
+}
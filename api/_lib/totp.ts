@@ -0,0 +1,230 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+} from "crypto";
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { ADMIN_MFA_TABLE, docClient } from "./dynamo.js";
+
+/**
+ * Optional TOTP second factor (RFC 6238: HMAC-SHA1, 30 s steps, 6 digits)
+ * for admin PIN sign-in. One item in DynamoDB (mfa_id = "totp") holds:
+ *   - secret_enc:         AES-256-GCM encrypted secret (key: TOTP_ENCRYPTION_KEY)
+ *   - pending_secret_enc: secret being enrolled, until a code confirms it
+ *   - last_step:          last accepted time step, so a code can't be replayed
+ *   - recovery_codes:     SHA-256 of each recovery code → "unused" | ISO time used
+ */
+
+const ITEM_KEY = { mfa_id: "totp" };
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, for clock drift
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "Our Love Story";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function totpAt(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return String(code).padStart(DIGITS, "0");
+}
+
+/** The matching time step within the drift window, or null. */
+function matchStep(secret: Buffer, code: string, afterStep = -1): number | null {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+  const now = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (step > afterStep && totpAt(secret, step) === code) return step;
+  }
+  return null;
+}
+
+function encryptionKey(): Buffer {
+  const key = process.env.TOTP_ENCRYPTION_KEY;
+  if (!key) throw new Error("TOTP_ENCRYPTION_KEY env var is not set");
+  return createHash("sha256").update(key).digest();
+}
+
+function encryptSecret(secret: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+  const parts = [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString("base64"));
+  return ["v1", ...parts].join(":");
+}
+
+function decryptSecret(stored: string): Buffer {
+  const [version, iv, tag, ciphertext] = stored.split(":");
+  if (version !== "v1") throw new Error("Unknown TOTP secret format");
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]);
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+function newRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
+
+async function getItem(): Promise<Record<string, unknown> | undefined> {
+  const result = await docClient.send(new GetCommand({ TableName: ADMIN_MFA_TABLE, Key: ITEM_KEY }));
+  return result.Item;
+}
+
+export async function getTotpStatus(): Promise<{
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}> {
+  const item = await getItem();
+  const codes = (item?.recovery_codes as Record<string, string>) || {};
+  return {
+    enabled: Boolean(item?.secret_enc),
+    recoveryCodesRemaining: Object.values(codes).filter((v) => v === "unused").length,
+  };
+}
+
+export async function isTotpEnabled(): Promise<boolean> {
+  return Boolean((await getItem())?.secret_enc);
+}
+
+/** Starts (or restarts) enrollment. The secret is only active after confirmEnrollment. */
+export async function startEnrollment(): Promise<{ secret: string; otpauthUrl: string }> {
+  const secret = randomBytes(20);
+  await docClient.send(
+    new UpdateCommand({
+      TableName: ADMIN_MFA_TABLE,
+      Key: ITEM_KEY,
+      UpdateExpression: "SET pending_secret_enc = :pending",
+      ExpressionAttributeValues: { ":pending": encryptSecret(secret) },
+    })
+  );
+
+  const encoded = base32Encode(secret);
+  const label = encodeURIComponent(`${ISSUER}:admin`);
+  const params = new URLSearchParams({
+    secret: encoded,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return { secret: encoded, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+}
+
+/**
+ * Activates the pending secret if `code` matches it, replacing any previous
+ * secret and recovery codes. Returns the new recovery codes (shown once), or
+ * null if there's no pending enrollment or the code is wrong.
+ */
+export async function confirmEnrollment(code: string): Promise<string[] | null> {
+  const item = await getItem();
+  const pending = item?.pending_secret_enc as string | undefined;
+  if (!pending) return null;
+
+  const step = matchStep(decryptSecret(pending), code);
+  if (step === null) return null;
+
+  const recoveryCodes = newRecoveryCodes();
+  await docClient.send(
+    new PutCommand({
+      TableName: ADMIN_MFA_TABLE,
+      Item: {
+        ...ITEM_KEY,
+        secret_enc: pending,
+        last_step: step,
+        recovery_codes: Object.fromEntries(
+          recoveryCodes.map((c) => [hashRecoveryCode(c), "unused"])
+        ),
+        enabled_at: new Date().toISOString(),
+      },
+      // Don't clobber a concurrent restart of enrollment
+      ConditionExpression: "pending_secret_enc = :pending",
+      ExpressionAttributeValues: { ":pending": pending },
+    })
+  );
+  return recoveryCodes;
+}
+
+/** Checks a current code. Each time step is accepted at most once. */
+export async function verifyTotpCode(code: string): Promise<boolean> {
+  const item = await getItem();
+  if (!item?.secret_enc) return false;
+
+  const lastStep = (item.last_step as number) ?? -1;
+  const step = matchStep(decryptSecret(item.secret_enc as string), code.trim(), lastStep);
+  if (step === null) return false;
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: ADMIN_MFA_TABLE,
+        Key: ITEM_KEY,
+        UpdateExpression: "SET last_step = :step",
+        ConditionExpression: "attribute_not_exists(last_step) OR last_step < :step",
+        ExpressionAttributeValues: { ":step": step },
+      })
+    );
+    return true;
+  } catch (err) {
+    if ((err as Error).name === "ConditionalCheckFailedException") return false;
+    throw err;
+  }
+}
+
+/** Uses up a recovery code. False if it's unknown or already used. */
+export async function consumeRecoveryCode(code: string): Promise<boolean> {
+  if (!normalizeRecoveryCode(code)) return false;
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: ADMIN_MFA_TABLE,
+        Key: ITEM_KEY,
+        UpdateExpression: "SET recovery_codes.#h = :now",
+        ConditionExpression: "recovery_codes.#h = :unused",
+        ExpressionAttributeNames: { "#h": hashRecoveryCode(code) },
+        ExpressionAttributeValues: { ":unused": "unused", ":now": new Date().toISOString() },
+      })
+    );
+    return true;
+  } catch (err) {
+    if ((err as Error).name === "ConditionalCheckFailedException") return false;
+    throw err;
+  }
+}
+
+export async function disableTotp(): Promise<void> {
+  await docClient.send(new DeleteCommand({ TableName: ADMIN_MFA_TABLE, Key: ITEM_KEY }));
+}
@@ -0,0 +1,41 @@
+/**
+ * Server-side unlock boundary for viewers.
+ *
+ * A memory dated D is shown on D's anniversary: the app's "Today's Memory"
+ * is the entry from exactly one year ago (timelineToday in App.tsx). Anything
+ * newer than that is a surprise and must not leave the server for viewers or
+ * share links; admins always get everything.
+ *
+ * "Today" comes from the server clock in MEMORY_TIMEZONE (IANA name, default
+ * UTC), never from the browser.
+ */
+
+const TIMELINE_OFFSET_YEARS = 1;
+
+function timeZone(): string {
+  return process.env.MEMORY_TIMEZONE || "UTC";
+}
+
+/** Today's date (YYYY-MM-DD) in MEMORY_TIMEZONE. */
+export function getServerToday(now = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timeZone(),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+/**
+ * Latest memory date viewers may read: today minus one year. Feb 29 rolls to
+ * Mar 1 the way Date.setFullYear does in the browser.
+ */
+export function getUnlockedThrough(now = new Date()): string {
+  const [y, m, d] = getServerToday(now).split("-").map(Number);
+  return new Date(Date.UTC(y - TIMELINE_OFFSET_YEARS, m - 1, d)).toISOString().slice(0, 10);
+}
+
+export function isDateLocked(date: string, now = new Date()): boolean {
+  return date > getUnlockedThrough(now);
+}
@@ -0,0 +1,194 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import { GetCommand, PutCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { docClient, VIEWERS_TABLE } from "./dynamo.js";
+
+/**
+ * Named viewer accounts (DynamoDB, keyed by username).
+ *
+ * Passwords are stored as scrypt hashes: scrypt$N$r$p$<salt b64>$<hash b64>.
+ * A viewer's session subject is `viewer:<username>`.
+ */
+
+export interface ViewerAccount {
+  username: string;
+  name: string;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+function scryptAsync(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scryptAsync(password, salt, { N, r, p });
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Verified against when the username doesn't exist, so both paths cost the same
+let dummyHash: Promise<string> | null = null;
+
+export function normalizeUsername(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase() : "";
+}
+
+export function viewerSubject(username: string): string {
+  return `viewer:${username}`;
+}
+
+/** Username from a `viewer:<username>` session subject, or null. */
+export function usernameFromSubject(sub: string): string | null {
+  return sub.startsWith("viewer:") ? sub.slice("viewer:".length) : null;
+}
+
+/**
+ * Who a session subject is, for people reading it: a viewer account's name
+ * (from `names`, by username), else what the subject says.
+ */
+export function subjectName(sub: string, names: Map<string, string> = new Map()): string {
+  const username = usernameFromSubject(sub);
+  if (username) return names.get(username) ?? username;
+  if (sub === "viewer") return "Shared login";
+  return sub === "admin" ? "Admin" : sub;
+}
+
+function toAccount(item: Record<string, unknown>): ViewerAccount {
+  return {
+    username: item.username as string,
+    name: item.name as string,
+    disabled: item.disabled === true,
+    createdAt: item.created_at as string,
+    updatedAt: item.updated_at as string,
+  };
+}
+
+export async function getViewer(username: string): Promise<ViewerAccount | null> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: VIEWERS_TABLE, Key: { username } })
+  );
+  return result.Item ? toAccount(result.Item) : null;
+}
+
+/** The account if the credentials match and it isn't disabled, else null. */
+export async function authenticateViewer(
+  username: string,
+  password: string
+): Promise<ViewerAccount | null> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: VIEWERS_TABLE, Key: { username } })
+  );
+  const item = result.Item;
+  if (!item) {
+    dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  const valid = await verifyPassword(password, item.password_hash as string);
+  if (!valid || item.disabled === true) return null;
+  return toAccount(item);
+}
+
+export async function listViewers(): Promise<ViewerAccount[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: VIEWERS_TABLE,
+        ProjectionExpression: "username, #n, disabled, created_at, updated_at",
+        ExpressionAttributeNames: { "#n": "name" },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return items.map(toAccount).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Throws ConditionalCheckFailedException if the username is taken. */
+export async function createViewer(
+  username: string,
+  name: string,
+  password: string
+): Promise<ViewerAccount> {
+  const now = new Date().toISOString();
+  const item = {
+    username,
+    name,
+    password_hash: await hashPassword(password),
+    disabled: false,
+    created_at: now,
+    updated_at: now,
+  };
+  await docClient.send(
+    new PutCommand({
+      TableName: VIEWERS_TABLE,
+      Item: item,
+      ConditionExpression: "attribute_not_exists(username)",
+    })
+  );
+  return toAccount(item);
+}
+
+/** Throws ConditionalCheckFailedException if the account doesn't exist. */
+export async function updateViewer(
+  username: string,
+  changes: { name?: string; disabled?: boolean; password?: string }
+): Promise<ViewerAccount> {
+  const sets = ["updated_at = :now"];
+  const values: Record<string, unknown> = { ":now": new Date().toISOString() };
+  const names: Record<string, string> = {};
+
+  if (changes.name !== undefined) {
+    sets.push("#n = :name");
+    names["#n"] = "name";
+    values[":name"] = changes.name;
+  }
+  if (changes.disabled !== undefined) {
+    sets.push("disabled = :disabled");
+    values[":disabled"] = changes.disabled;
+  }
+  if (changes.password !== undefined) {
+    sets.push("password_hash = :hash");
+    values[":hash"] = await hashPassword(changes.password);
+  }
+
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: VIEWERS_TABLE,
+      Key: { username },
+      UpdateExpression: `SET ${sets.join(", ")}`,
+      ConditionExpression: "attribute_exists(username)",
+      ExpressionAttributeNames: Object.keys(names).length ? names : undefined,
+      ExpressionAttributeValues: values,
+      ReturnValues: "ALL_NEW",
+    })
+  );
+  return toAccount(result.Attributes!);
+}
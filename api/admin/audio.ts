@@ -0,0 +1,100 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { randomBytes } from "crypto";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { requireAdmin } from "../_lib/auth.js";
+import { auditActor, recordAudit } from "../_lib/audit.js";
+import { AUDIO_PREFIX, isValidDate } from "../../src/validation.js";
+
+const s3 = new S3Client({
+  region: process.env.AWS_REGION || "us-west-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID_DYNAMO!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY_DYNAMO!,
+  },
+});
+
+const BUCKET = process.env.S3_BUCKET_NAME || "";
+const REGION = process.env.AWS_REGION || "us-west-1";
+
+// Vercel rejects request bodies over 4.5 MB; a few minutes of Opus is well under this
+const MAX_AUDIO_BYTES = 4 * 1024 * 1024;
+
+// What MediaRecorder produces (webm in Chrome/Firefox, mp4 in Safari) and common uploads
+const AUDIO_TYPES: Record<string, string> = {
+  "audio/webm": ".webm",
+  "audio/ogg": ".ogg",
+  "audio/mp4": ".m4a",
+  "audio/x-m4a": ".m4a",
+  "audio/aac": ".aac",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/wave": ".wav",
+};
+
+function queryParam(req: VercelRequest, name: string): string {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || "";
+}
+
+/**
+ * POST /api/admin/audio?date=YYYY-MM-DD&type=<audio MIME type>
+ * Body: the recording, sent as application/octet-stream (Vercel only hands
+ * over raw bytes for that content type). Stores it under audio/<date>/ and
+ * returns { key, url }; `npm run convert-media` later adds a web-safe .m4a.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const session = await requireAdmin(req, res, "memories:write");
+  if (!session) return;
+
+  if (!BUCKET) {
+    return res.status(500).json({ error: "S3_BUCKET_NAME not configured" });
+  }
+
+  const date = queryParam(req, "date");
+  if (!isValidDate(date)) {
+    return res.status(400).json({ error: "Date must be a real day written YYYY-MM-DD" });
+  }
+  // "audio/webm;codecs=opus" → "audio/webm"
+  const contentType = queryParam(req, "type").split(";")[0].trim().toLowerCase();
+  const ext = AUDIO_TYPES[contentType];
+  if (!ext) {
+    return res.status(400).json({ error: `Unsupported audio type: ${contentType || "none"}` });
+  }
+
+  const body = req.body;
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    return res.status(400).json({ error: "Send the recording as application/octet-stream" });
+  }
+  if (body.length > MAX_AUDIO_BYTES) {
+    return res.status(413).json({ error: "Voice notes can be at most 4 MB" });
+  }
+
+  const key = `${AUDIO_PREFIX}${date}/${randomBytes(8).toString("hex")}${ext}`;
+  try {
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: BUCKET,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  } catch (error) {
+    console.error("Audio upload error:", error);
+    return res.status(500).json({ error: "Failed to upload the recording" });
+  }
+
+  await recordAudit(auditActor(req, session), "media.upload", "1 file(s)", {
+    after: { keys: [key] },
+  });
+
+  return res.status(200).json({
+    key,
+    url: `https://${BUCKET}.s3.${REGION}.amazonaws.com/${key}`,
+  });
+}
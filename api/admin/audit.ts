@@ -0,0 +1,52 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import { AUDIT_ACTIONS, isAuditAction, listAuditEntries } from "../_lib/audit.js";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ACTION_GROUPS = new Set(AUDIT_ACTIONS.map((a) => a.split(".")[0]));
+
+function queryParam(req: VercelRequest, name: string): string {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || "";
+}
+
+/**
+ * GET → newest-first page of the audit log: { entries, nextCursor }
+ *   ?action=memory.delete | memory | collection | media | media_index
+ *   ?from=YYYY-MM-DD&to=YYYY-MM-DD  (inclusive, UTC)
+ *   ?cursor=<nextCursor>&limit=<1-100>
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  const action = queryParam(req, "action");
+  const from = queryParam(req, "from");
+  const to = queryParam(req, "to");
+  const limit = parseInt(queryParam(req, "limit"), 10);
+
+  if (action && !isAuditAction(action) && !ACTION_GROUPS.has(action)) {
+    return res.status(400).json({ error: `Unknown action: ${action}` });
+  }
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return res.status(400).json({ error: "from and to must be YYYY-MM-DD" });
+  }
+
+  try {
+    const page = await listAuditEntries({
+      action: action || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      cursor: queryParam(req, "cursor") || undefined,
+      limit: isNaN(limit) ? undefined : limit,
+    });
+    return res.status(200).json(page);
+  } catch (error) {
+    console.error("Audit log list error:", error);
+    return res.status(500).json({ error: "Failed to load activity" });
+  }
+}
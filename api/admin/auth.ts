@@ -1,41 +1,79 @@
-import { createHmac } from "crypto";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  clearSignedCookie,
+  isPinLoginEnabled,
+  readSignedCookie,
+  safeEqual,
+  setSignedCookie,
+  startSession,
+  verifyCsrf,
+} from "../_lib/auth.js";
+import { listCredentialDescriptors } from "../_lib/passkeys.js";
+import { limitLoginAttempt } from "../_lib/rateLimit.js";
+import { consumeRecoveryCode, isTotpEnabled, verifyTotpCode } from "../_lib/totp.js";
 
-const ADMIN_COOKIE = "admin_session";
-const ADMIN_MAX_AGE = 7 * 24 * 60 * 60;
-
-function getSecret(): string | null {
-  return process.env.AUTH_SECRET || null;
-}
-
-function sign(payload: string): string | null {
-  const secret = getSecret();
-  if (!secret) return null;
-  return createHmac("sha256", secret).update(payload).digest("hex");
-}
-
-function createSessionToken(role: string, maxAgeSeconds: number): string {
-  const exp = Math.floor(Date.now() / 1000) + maxAgeSeconds;
-  const payload = `${role}|${exp}`;
-  const sig = sign(payload);
-  if (!sig) throw new Error("AUTH_SECRET env var is not set");
-  return `${payload}|${sig}`;
-}
-
-function setAdminCookie(res: VercelResponse): void {
-  const token = createSessionToken("admin", ADMIN_MAX_AGE);
-  res.setHeader(
-    "Set-Cookie",
-    `${ADMIN_COOKIE}=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${ADMIN_MAX_AGE}`
-  );
-}
+// Set after a correct PIN while the TOTP step is still outstanding
+const MFA_COOKIE = "admin_mfa_pending";
+const MFA_MAX_AGE = 5 * 60;
 
+/**
+ * GET  → which admin sign-in methods are available: { pin, passkey }
+ * POST { pin } → PIN sign-in (break-glass; off when ADMIN_PIN_DISABLED=true).
+ *   With TOTP enrolled, answers { mfaRequired: true } instead of a session.
+ * POST { code } | { recoveryCode } → second step after the PIN.
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === "GET") {
+    res.setHeader("Cache-Control", "no-store");
+    let passkey = false;
+    try {
+      passkey = (await listCredentialDescriptors()).length > 0;
+    } catch (err) {
+      console.error("Passkey lookup error:", err);
+    }
+    return res.status(200).json({ pin: isPinLoginEnabled(), passkey });
+  }
+
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
+  if (!verifyCsrf(req, res)) return;
+
+  if (process.env.ADMIN_PIN_DISABLED === "true") {
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(403).json({ error: "PIN sign-in is disabled" });
+  }
+
   const body = req.body && typeof req.body === "object" ? req.body : {};
+
+  // --- Second step: TOTP or recovery code ---
+  if (typeof body.code === "string" || typeof body.recoveryCode === "string") {
+    res.setHeader("Cache-Control", "no-store");
+    if (readSignedCookie(req, MFA_COOKIE) !== "pin-ok") {
+      return res.status(401).json({ error: "PIN step expired. Start again." });
+    }
+
+    try {
+      const outcome = await limitLoginAttempt("admin_totp", req, res, () =>
+        typeof body.code === "string"
+          ? verifyTotpCode(body.code)
+          : consumeRecoveryCode(body.recoveryCode)
+      );
+      if (outcome === "locked") return;
+      if (outcome === "invalid") {
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      clearSignedCookie(res, MFA_COOKIE, "/api/admin");
+      await startSession(req, res, "admin", "admin");
+      return res.status(200).json({ ok: true });
+    } catch (err) {
+      console.error("Admin TOTP error:", err);
+      return res.status(500).json({ error: "Server misconfigured" });
+    }
+  }
+
   const pin = typeof body.pin === "string" ? body.pin.trim() : "";
   const adminPin = (process.env.ADMIN_PIN || "").trim();
 
@@ -44,13 +82,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(500).json({ error: "Server misconfigured" });
   }
 
-  if (!pin || pin !== adminPin) {
-    res.setHeader("Cache-Control", "no-store");
-    return res.status(401).json({ error: "Invalid PIN" });
-  }
-
   try {
-    setAdminCookie(res);
+    const outcome = await limitLoginAttempt("admin", req, res, () =>
+      Boolean(pin) && safeEqual(pin, adminPin)
+    );
+    if (outcome === "locked") return;
+    if (outcome === "invalid") {
+      res.setHeader("Cache-Control", "no-store");
+      return res.status(401).json({ error: "Invalid PIN" });
+    }
+
+    if (await isTotpEnabled()) {
+      res.setHeader("Cache-Control", "no-store");
+      setSignedCookie(res, MFA_COOKIE, "pin-ok", MFA_MAX_AGE, "/api/admin");
+      return res.status(200).json({ mfaRequired: true });
+    }
+
+    await startSession(req, res, "admin", "admin");
     return res.status(200).json({ ok: true });
   } catch (err) {
     console.error("Admin auth error:", err);
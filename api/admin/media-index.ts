@@ -0,0 +1,91 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { S3Client, GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { requireAdmin } from "../_lib/auth.js";
+import { auditActor, recordAudit, summarizeMediaIndex } from "../_lib/audit.js";
+
+const s3 = new S3Client({
+  region: process.env.AWS_REGION || "us-west-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID_DYNAMO!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY_DYNAMO!,
+  },
+});
+
+const BUCKET = process.env.S3_BUCKET_NAME || "";
+const PROCESSED_PREFIX = process.env.S3_PROCESSED_PREFIX ?? "processed/";
+const INDEX_KEY = `${PROCESSED_PREFIX.replace(/\/?$/, "/")}date-media-index.json`;
+
+function isDateMediaIndex(value: unknown): value is Record<string, string[]> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  return Object.entries(value).every(
+    ([date, urls]) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(date) &&
+      Array.isArray(urls) &&
+      urls.every((u) => typeof u === "string")
+  );
+}
+
+/**
+ * Read or replace the date → media index used by /api/date-media and
+ * /api/admin/photos. Lets the index scripts run with an API token
+ * (scope index:rebuild) instead of AWS credentials.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const session = await requireAdmin(req, res, "index:rebuild");
+  if (!session) return;
+
+  if (!BUCKET) {
+    return res.status(500).json({ error: "S3_BUCKET_NAME not configured" });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: current index ---
+  if (req.method === "GET") {
+    try {
+      const result = await s3.send(new GetObjectCommand({ Bucket: BUCKET, Key: INDEX_KEY }));
+      if (!result.Body) throw new Error("Empty index body");
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of result.Body as AsyncIterable<Uint8Array>) {
+        chunks.push(chunk);
+      }
+      return res.status(200).json(JSON.parse(Buffer.concat(chunks).toString("utf-8")));
+    } catch (error) {
+      if ((error as Error).name === "NoSuchKey") {
+        return res.status(200).json({});
+      }
+      console.error("Media index read error:", error);
+      return res.status(500).json({ error: "Failed to read media index" });
+    }
+  }
+
+  // --- PUT: replace the index ---
+  if (req.method === "PUT") {
+    const index = req.body;
+    if (!isDateMediaIndex(index)) {
+      return res
+        .status(400)
+        .json({ error: "Body must be an object of YYYY-MM-DD → string[]" });
+    }
+
+    try {
+      await s3.send(
+        new PutObjectCommand({
+          Bucket: BUCKET,
+          Key: INDEX_KEY,
+          Body: JSON.stringify(index, null, 2),
+          ContentType: "application/json",
+        })
+      );
+      await recordAudit(auditActor(req, session), "media_index.update", INDEX_KEY, {
+        after: summarizeMediaIndex(index),
+      });
+      return res.status(200).json({ ok: true, dates: Object.keys(index).length });
+    } catch (error) {
+      console.error("Media index write error:", error);
+      return res.status(500).json({ error: "Failed to write media index" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../../_lib/auth.js";
+import { isExportFormat, loadAllMemories, toCsv } from "../../_lib/memoryTransfer.js";
+
+function queryParam(req: VercelRequest, name: string): string {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || "";
+}
+
+/**
+ * GET ?format=json|csv → every live memory (not the trash) as a download.
+ * JSON is an array of MemoryEntry; CSV has the same fields as columns, with
+ * media URLs space-separated. Both round-trip through ./import.ts.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+  if (!(await requireAdmin(req, res, "memories:write"))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  const format = queryParam(req, "format") || "json";
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ error: "format must be json or csv" });
+  }
+
+  try {
+    const memories = await loadAllMemories();
+    const filename = `memories-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      return res.status(200).send(toCsv(memories));
+    }
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    return res.status(200).send(JSON.stringify(memories, null, 2));
+  } catch (error) {
+    console.error("Memory export error:", error);
+    return res.status(500).json({ error: "Failed to export memories" });
+  }
+}
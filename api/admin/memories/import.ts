@@ -0,0 +1,148 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../../_lib/auth.js";
+import { auditActor, recordAudit } from "../../_lib/audit.js";
+import { recordRevision } from "../../_lib/history.js";
+import { entryPath, mediaOrigins, newEntryId, saveMemory, trashMemory } from "../../_lib/memories.js";
+import { updateSearchIndex } from "../../_lib/search.js";
+import {
+  type ImportEntry,
+  isExportFormat,
+  isImportMode,
+  loadAllMemories,
+  MAX_IMPORT_ROWS,
+  parseImport,
+  planImport,
+} from "../../_lib/memoryTransfer.js";
+
+/**
+ * POST { format: "json"|"csv", content, mode: "merge"|"replace", dryRun? }
+ *
+ * Plans the import against the stored memories and returns the plan
+ * ({ creates, updates, conflicts, deletes, unchanged, errors }). Nothing is
+ * written unless dryRun is false and every row is valid; then:
+ *   merge:   creates and updates are saved, conflicts are skipped
+ *   replace: the file wins — conflicts are saved too, and entries missing
+ *            from the file go to the trash
+ * Days are written IMPORT_CONCURRENCY at a time (each day's rows in file
+ * order), so MAX_IMPORT_ROWS fits in the function's time limit. Rows that
+ * lose a race with another editor or fail to save are reported under
+ * `failed`, and the rest still go in.
+ */
+const IMPORT_CONCURRENCY = 8;
+
+/** Runs `task` over `items`, at most IMPORT_CONCURRENCY at a time. */
+async function forEachLimited<T>(items: T[], task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(IMPORT_CONCURRENCY, items.length) }, worker));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+  const session = await requireAdmin(req, res, "memories:write");
+  if (!session) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  const { format, content, mode, dryRun } = req.body || {};
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ error: "format must be json or csv" });
+  }
+  if (!isImportMode(mode)) {
+    return res.status(400).json({ error: "mode must be merge or replace" });
+  }
+  if (typeof content !== "string" || !content.trim()) {
+    return res.status(400).json({ error: "Missing required field: content" });
+  }
+
+  let rows: Record<string, unknown>[];
+  try {
+    rows = parseImport(format, content);
+  } catch (err) {
+    return res.status(400).json({ error: `Couldn't read the file: ${(err as Error).message}` });
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return res.status(400).json({ error: `At most ${MAX_IMPORT_ROWS} memories per import` });
+  }
+
+  try {
+    const plan = planImport(rows, await loadAllMemories(), mode, mediaOrigins());
+    // Anything but an explicit false is a preview
+    if (dryRun !== false) {
+      return res.status(200).json({ dryRun: true, mode, ...plan });
+    }
+    if (plan.errors.length > 0) {
+      return res
+        .status(400)
+        .json({ error: "Fix the invalid rows before importing", dryRun: false, mode, ...plan });
+    }
+
+    const who = auditActor(req, session);
+    const reason = `Import (${mode})`;
+    const applied = { created: 0, updated: 0, deleted: 0 };
+    const failed: { date: string; id?: string; error: string }[] = [];
+
+    const save = async (entry: ImportEntry, expected: number | null) => {
+      const id = entry.id ?? newEntryId();
+      try {
+        const { before, after } = await saveMemory({ ...entry, id }, who.actor, {
+          ifMatch: expected,
+          createOnly: expected === null,
+        });
+        if (before) await recordRevision(before, who);
+        await updateSearchIndex(before, after);
+        await recordAudit(
+          who,
+          expected === null ? "memory.create" : "memory.update",
+          entryPath(entry.date, id),
+          { before: before ?? null, after, reason }
+        );
+        if (expected === null) applied.created++;
+        else applied.updated++;
+      } catch (err) {
+        if ((err as Error).name === "ConditionalCheckFailedException") {
+          failed.push({ date: entry.date, id, error: "Changed somewhere else during the import" });
+        } else {
+          console.error("Memory import row error:", err);
+          failed.push({ date: entry.date, id, error: "Failed to save" });
+        }
+      }
+    };
+
+    const trash = async (date: string, id: string) => {
+      try {
+        const before = await trashMemory(date, id);
+        if (!before) return;
+        await recordAudit(who, "memory.delete", entryPath(date, id), { before, reason });
+        applied.deleted++;
+      } catch (err) {
+        console.error("Memory import row error:", err);
+        failed.push({ date, id, error: "Failed to move to the trash" });
+      }
+    };
+
+    // One list of writes per day, so new entries keep the file's order within it
+    const byDay = new Map<string, (() => Promise<void>)[]>();
+    const queue = (date: string, write: () => Promise<void>) =>
+      byDay.set(date, [...(byDay.get(date) ?? []), write]);
+    for (const entry of plan.creates) queue(entry.date, () => save(entry, null));
+    for (const { after, before } of plan.updates) queue(after.date, () => save(after, before.version ?? 0));
+    if (mode === "replace") {
+      for (const { incoming, current } of plan.conflicts) {
+        queue(incoming.date, () => save(incoming, current.version ?? 0));
+      }
+      for (const { date, id } of plan.deletes) queue(date, () => trash(date, id!));
+    }
+    await forEachLimited([...byDay.values()], async (writes) => {
+      for (const write of writes) await write();
+    });
+
+    return res.status(200).json({ dryRun: false, mode, ...plan, applied, failed });
+  } catch (error) {
+    console.error("Memory import error:", error);
+    return res.status(500).json({ error: "Failed to import memories" });
+  }
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { isPinLoginEnabled, requireAdmin } from "../_lib/auth.js";
+import { deletePasskey, listPasskeys } from "../_lib/passkeys.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: registered passkeys (no key material) ---
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await listPasskeys());
+    } catch (error) {
+      console.error("Passkey list error:", error);
+      return res.status(500).json({ error: "Failed to list passkeys" });
+    }
+  }
+
+  // --- DELETE: remove a passkey by credential id ---
+  if (req.method === "DELETE") {
+    const { id } = req.body || {};
+    if (typeof id !== "string" || !id) {
+      return res.status(400).json({ error: "Missing required field: id" });
+    }
+
+    try {
+      // Without the PIN fallback, removing the last passkey would lock admin out
+      if (!isPinLoginEnabled() && (await listPasskeys()).length <= 1) {
+        return res
+          .status(409)
+          .json({ error: "Can't remove the last passkey while PIN login is disabled" });
+      }
+      await deletePasskey(id);
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(404).json({ error: "Passkey not found" });
+      }
+      console.error("Passkey delete error:", error);
+      return res.status(500).json({ error: "Failed to delete passkey" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,98 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+} from "@simplewebauthn/server";
+import { startSession, verifyCsrf } from "../../_lib/auth.js";
+import {
+  getCredential,
+  getRelyingParty,
+  listCredentialDescriptors,
+  recordPasskeyUse,
+  setChallenge,
+  takeChallenge,
+} from "../../_lib/passkeys.js";
+import { limitLoginAttempt } from "../../_lib/rateLimit.js";
+
+/**
+ * Admin sign-in with a passkey.
+ *   GET  → WebAuthn request options
+ *   POST { response } → verify the assertion and start an admin session
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Cache-Control", "no-store");
+
+  const { rpID, origin } = getRelyingParty(req);
+
+  // --- GET: request options ---
+  if (req.method === "GET") {
+    try {
+      const allowCredentials = await listCredentialDescriptors();
+      if (allowCredentials.length === 0) {
+        return res.status(404).json({ error: "No passkeys registered" });
+      }
+      const options = await generateAuthenticationOptions({
+        rpID,
+        allowCredentials,
+        userVerification: "preferred",
+      });
+      setChallenge(res, "login", options.challenge);
+      return res.status(200).json(options);
+    } catch (error) {
+      console.error("Passkey login options error:", error);
+      return res.status(500).json({ error: "Failed to start passkey sign-in" });
+    }
+  }
+
+  // --- POST: verify assertion ---
+  if (req.method === "POST") {
+    if (!verifyCsrf(req, res)) return;
+
+    const response = req.body?.response as AuthenticationResponseJSON | undefined;
+    if (!response || typeof response.id !== "string") {
+      return res.status(400).json({ error: "Missing required field: response" });
+    }
+
+    const expectedChallenge = takeChallenge(req, res, "login");
+    if (!expectedChallenge) {
+      return res.status(400).json({ error: "Sign-in expired. Please try again." });
+    }
+
+    try {
+      let newCounter = 0;
+      const outcome = await limitLoginAttempt("admin_passkey", req, res, async () => {
+        const credential = await getCredential(response.id);
+        if (!credential) return false;
+        try {
+          const verification = await verifyAuthenticationResponse({
+            response,
+            expectedChallenge,
+            expectedOrigin: origin,
+            expectedRPID: rpID,
+            credential,
+            requireUserVerification: false,
+          });
+          newCounter = verification.authenticationInfo.newCounter;
+          return verification.verified;
+        } catch (err) {
+          console.warn("Passkey assertion rejected:", (err as Error).message);
+          return false;
+        }
+      });
+      if (outcome === "locked") return;
+      if (outcome === "invalid") {
+        return res.status(401).json({ error: "Passkey not recognized" });
+      }
+
+      await recordPasskeyUse(response.id, newCounter);
+      await startSession(req, res, "admin", "admin");
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      console.error("Passkey login error:", error);
+      return res.status(500).json({ error: "Failed to sign in with passkey" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { requireAdmin } from "../../_lib/auth.js";
+import {
+  ADMIN_USER_ID,
+  getRelyingParty,
+  listCredentialDescriptors,
+  RP_NAME,
+  savePasskey,
+  setChallenge,
+  takeChallenge,
+} from "../../_lib/passkeys.js";
+
+/**
+ * Register a passkey for the signed-in admin.
+ *   GET  → WebAuthn creation options
+ *   POST { name, response } → verify the authenticator's response and store it
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  const { rpID, origin } = getRelyingParty(req);
+
+  // --- GET: creation options ---
+  if (req.method === "GET") {
+    try {
+      const options = await generateRegistrationOptions({
+        rpName: RP_NAME,
+        rpID,
+        userName: "admin",
+        userID: ADMIN_USER_ID,
+        userDisplayName: "Admin",
+        attestationType: "none",
+        excludeCredentials: await listCredentialDescriptors(),
+        authenticatorSelection: { residentKey: "preferred", userVerification: "preferred" },
+      });
+      setChallenge(res, "register", options.challenge);
+      return res.status(200).json(options);
+    } catch (error) {
+      console.error("Passkey registration options error:", error);
+      return res.status(500).json({ error: "Failed to start passkey registration" });
+    }
+  }
+
+  // --- POST: verify and store ---
+  if (req.method === "POST") {
+    const { name, response } = req.body || {};
+    if (typeof name !== "string" || !name.trim() || name.length > 64) {
+      return res.status(400).json({ error: "name must be 1-64 characters" });
+    }
+    if (!response || typeof response !== "object") {
+      return res.status(400).json({ error: "Missing required field: response" });
+    }
+
+    const expectedChallenge = takeChallenge(req, res, "register");
+    if (!expectedChallenge) {
+      return res.status(400).json({ error: "Registration expired. Please try again." });
+    }
+
+    try {
+      const verification = await verifyRegistrationResponse({
+        response: response as RegistrationResponseJSON,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: false,
+      });
+      if (!verification.verified) {
+        return res.status(400).json({ error: "Passkey could not be verified" });
+      }
+
+      const { credential, credentialBackedUp } = verification.registrationInfo;
+      const passkey = await savePasskey(credential, name.trim(), credentialBackedUp);
+      return res.status(201).json(passkey);
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(409).json({ error: "This passkey is already registered" });
+      }
+      console.error("Passkey registration error:", error);
+      return res.status(400).json({ error: "Passkey could not be verified" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
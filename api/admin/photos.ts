@@ -1,4 +1,3 @@
-import { createHmac, timingSafeEqual } from "crypto";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import {
   S3Client,
@@ -6,60 +5,8 @@ import {
   GetObjectCommand,
 } from "@aws-sdk/client-s3";
 import exifr from "exifr";
-
-const ADMIN_COOKIE = "admin_session";
-
-function getSecret(): string | null {
-  return process.env.AUTH_SECRET || null;
-}
-
-function sign(payload: string): string | null {
-  const secret = getSecret();
-  if (!secret) return null;
-  return createHmac("sha256", secret).update(payload).digest("hex");
-}
-
-function safeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
-
-function verifySessionToken(token: string): { role: string } | null {
-  const parts = token.split("|");
-  if (parts.length !== 3) return null;
-  const [role, expStr, sig] = parts;
-  if (role !== "admin") return null;
-  const exp = parseInt(expStr, 10);
-  if (isNaN(exp)) return null;
-  const expectedSig = sign(`${role}|${expStr}`);
-  if (expectedSig === null || !safeEqual(sig, expectedSig)) return null;
-  if (Math.floor(Date.now() / 1000) > exp) return null;
-  return { role };
-}
-
-function parseCookies(req: VercelRequest): Record<string, string> {
-  const header = req.headers.cookie || "";
-  const cookies: Record<string, string> = {};
-  for (const pair of header.split(";")) {
-    const [name, ...rest] = pair.trim().split("=");
-    if (name) cookies[name.trim()] = rest.join("=").trim();
-  }
-  return cookies;
-}
-
-function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
-  const cookies = parseCookies(req);
-  const t = cookies[ADMIN_COOKIE];
-  if (t) {
-    const s = verifySessionToken(t);
-    if (s && s.role === "admin") return true;
-  }
-  const pin = req.headers["admin-pin"];
-  if (pin && pin === process.env.ADMIN_PIN) return true;
-  res.setHeader("Cache-Control", "no-store");
-  res.status(401).json({ error: "Unauthorized" });
-  return false;
-}
+import { requireAdmin } from "../_lib/auth.js";
+import { AUDIO_PREFIX } from "../../src/validation.js";
 
 const s3 = new S3Client({
   region: process.env.AWS_REGION || "us-west-1",
@@ -96,6 +43,8 @@ function getExt(key: string): string {
 }
 
 function isMedia(key: string): boolean {
+  // Voice notes are linked from their memory directly, not picked from the library
+  if (key.startsWith(AUDIO_PREFIX)) return false;
   return MEDIA_EXTS.some((ext) => key.toLowerCase().endsWith(ext));
 }
 
@@ -206,7 +155,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  if (!requireAdmin(req, res)) return;
+  if (!(await requireAdmin(req, res, ["media:delete", "index:rebuild"]))) return;
 
   if (!BUCKET) {
     return res.status(500).json({ error: "S3_BUCKET_NAME not configured" });
@@ -215,7 +164,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // ?source=originals returns only non-processed files (for bulk delete)
   // ?source=all returns everything
   // default: only processed/ prefix
+  // ?keysOnly=1 skips the index and EXIF reads and returns { keys } (for scripts)
   const source = (req.query.source as string) || "processed";
+  const keysOnly = req.query.keysOnly === "1";
   const page = req.query.page ? parseInt(req.query.page as string, 10) || 1 : 1;
   const pageSize =
     req.query.pageSize && !Array.isArray(req.query.pageSize)
@@ -224,7 +175,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     // Fast path for processed media: use the precomputed date-media index if available.
-    if (source === "processed") {
+    if (source === "processed" && !keysOnly) {
       try {
         const index = await loadProcessedIndex();
         const allPhotos: {
@@ -313,6 +264,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       continuationToken = result.NextContinuationToken;
     } while (continuationToken);
 
+    if (keysOnly) {
+      res.setHeader("Cache-Control", "no-store");
+      return res.status(200).json({ keys: mediaKeys });
+    }
+
     // 2. For each file, read EXIF date + classify (in parallel, batched)
     const BATCH_SIZE = 10;
     const photos: { key: string; url: string; date: string | null; webDisplayable: boolean; mediaType: "image" | "video" }[] = [];
@@ -1,60 +1,7 @@
-import { createHmac, timingSafeEqual } from "crypto";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { S3Client, DeleteObjectsCommand } from "@aws-sdk/client-s3";
-
-const ADMIN_COOKIE = "admin_session";
-
-function getSecret(): string | null {
-  return process.env.AUTH_SECRET || null;
-}
-
-function sign(payload: string): string | null {
-  const secret = getSecret();
-  if (!secret) return null;
-  return createHmac("sha256", secret).update(payload).digest("hex");
-}
-
-function safeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
-
-function verifySessionToken(token: string): { role: string } | null {
-  const parts = token.split("|");
-  if (parts.length !== 3) return null;
-  const [role, expStr, sig] = parts;
-  if (role !== "admin") return null;
-  const exp = parseInt(expStr, 10);
-  if (isNaN(exp)) return null;
-  const expectedSig = sign(`${role}|${expStr}`);
-  if (expectedSig === null || !safeEqual(sig, expectedSig)) return null;
-  if (Math.floor(Date.now() / 1000) > exp) return null;
-  return { role };
-}
-
-function parseCookies(req: VercelRequest): Record<string, string> {
-  const header = req.headers.cookie || "";
-  const cookies: Record<string, string> = {};
-  for (const pair of header.split(";")) {
-    const [name, ...rest] = pair.trim().split("=");
-    if (name) cookies[name.trim()] = rest.join("=").trim();
-  }
-  return cookies;
-}
-
-function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
-  const cookies = parseCookies(req);
-  const t = cookies[ADMIN_COOKIE];
-  if (t) {
-    const s = verifySessionToken(t);
-    if (s && s.role === "admin") return true;
-  }
-  const pin = req.headers["admin-pin"];
-  if (pin && pin === process.env.ADMIN_PIN) return true;
-  res.setHeader("Cache-Control", "no-store");
-  res.status(401).json({ error: "Unauthorized" });
-  return false;
-}
+import { requireAdmin } from "../../_lib/auth.js";
+import { auditActor, recordAudit } from "../../_lib/audit.js";
 
 const s3 = new S3Client({
   region: process.env.AWS_REGION || "us-west-1",
@@ -71,14 +18,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  if (!requireAdmin(req, res)) return;
+  const session = await requireAdmin(req, res, "media:delete");
+  if (!session) return;
 
   if (!BUCKET) {
     return res.status(500).json({ error: "S3_BUCKET_NAME not configured" });
   }
 
-  const body = req.body as { keys?: string[] } | undefined;
+  const body = req.body as { keys?: string[]; reason?: string } | undefined;
   const keys = Array.isArray(body?.keys) ? body.keys : [];
+  const reason = typeof body?.reason === "string" ? body.reason : undefined;
 
   if (keys.length === 0) {
     return res.status(400).json({ error: "Request body must include keys: string[]" });
@@ -101,6 +50,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const deleted = (result.Deleted || []).map((o) => o.Key).filter(Boolean) as string[];
     const errors = (result.Errors || []).map((e) => ({ key: e.Key, code: e.Code, message: e.Message }));
 
+    if (deleted.length > 0) {
+      await recordAudit(auditActor(req, session), "media.delete", `${deleted.length} file(s)`, {
+        before: { keys: deleted },
+        reason,
+      });
+    }
+
     return res.status(200).json({
       deleted,
       errors: errors.length ? errors : undefined,
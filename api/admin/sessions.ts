@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  ADMIN_COOKIE,
+  VIEWER_COOKIE,
+  parseCookies,
+  requireAdmin,
+  verifySessionToken,
+} from "../_lib/auth.js";
+import { listActiveSessions, revokeAllSessions, revokeSession } from "../_lib/sessions.js";
+
+function currentSessionIds(req: VercelRequest): Set<string> {
+  const cookies = parseCookies(req);
+  const ids = new Set<string>();
+  for (const name of [VIEWER_COOKIE, ADMIN_COOKIE]) {
+    const sid = cookies[name] ? verifySessionToken(cookies[name])?.sid : null;
+    if (sid) ids.add(sid);
+  }
+  return ids;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: list active sessions ---
+  if (req.method === "GET") {
+    try {
+      const current = currentSessionIds(req);
+      const sessions = await listActiveSessions();
+      return res.status(200).json(
+        sessions.map((s) => ({ ...s, current: current.has(s.id) }))
+      );
+    } catch (error) {
+      console.error("Session list error:", error);
+      return res.status(500).json({ error: "Failed to list sessions" });
+    }
+  }
+
+  // --- DELETE: revoke one session ({ id }) or all of them ({ all: true }) ---
+  if (req.method === "DELETE") {
+    const { id, all } = req.body || {};
+
+    try {
+      if (all === true) {
+        const revoked = await revokeAllSessions();
+        return res.status(200).json({ ok: true, revoked });
+      }
+      if (typeof id !== "string" || !id) {
+        return res.status(400).json({ error: "Request body must include id or all: true" });
+      }
+      await revokeSession(id);
+      return res.status(200).json({ ok: true, revoked: 1 });
+    } catch (error) {
+      console.error("Session revoke error:", error);
+      return res.status(500).json({ error: "Failed to revoke session" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import { createShareLink, listShareLinks, revokeShareLink } from "../_lib/shareLinks.js";
+
+const MAX_EXPIRY_DAYS = 90;
+const MAX_VIEWS = 1000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: list unrevoked links ---
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await listShareLinks());
+    } catch (error) {
+      console.error("Share link list error:", error);
+      return res.status(500).json({ error: "Failed to list share links" });
+    }
+  }
+
+  // --- POST: mint a link for one day ---
+  if (req.method === "POST") {
+    const { date, expiresInDays, maxViews } = req.body || {};
+
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+    }
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      return res.status(400).json({ error: `expiresInDays must be 1-${MAX_EXPIRY_DAYS}` });
+    }
+    const views = maxViews == null ? null : Number(maxViews);
+    if (views !== null && (!Number.isInteger(views) || views < 1 || views > MAX_VIEWS)) {
+      return res.status(400).json({ error: `maxViews must be 1-${MAX_VIEWS} or null` });
+    }
+
+    try {
+      return res.status(201).json(await createShareLink(date, days, views));
+    } catch (error) {
+      console.error("Share link create error:", error);
+      return res.status(500).json({ error: "Failed to create share link" });
+    }
+  }
+
+  // --- DELETE: revoke a link and end its sessions ---
+  if (req.method === "DELETE") {
+    const { id } = req.body || {};
+    if (typeof id !== "string" || !id) {
+      return res.status(400).json({ error: "Missing required field: id" });
+    }
+
+    try {
+      await revokeShareLink(id);
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+      console.error("Share link revoke error:", error);
+      return res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import {
+  createApiToken,
+  isApiScope,
+  listApiTokens,
+  revokeApiToken,
+} from "../_lib/apiTokens.js";
+
+const MAX_EXPIRY_DAYS = 365;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Managing tokens needs a real admin session, never a token
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: list unrevoked tokens (no secrets) ---
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await listApiTokens());
+    } catch (error) {
+      console.error("API token list error:", error);
+      return res.status(500).json({ error: "Failed to list tokens" });
+    }
+  }
+
+  // --- POST: create a token; the plaintext is only returned here ---
+  if (req.method === "POST") {
+    const { name, scopes, expiresInDays } = req.body || {};
+
+    if (typeof name !== "string" || !name.trim() || name.length > 64) {
+      return res.status(400).json({ error: "name must be 1-64 characters" });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiScope)) {
+      return res.status(400).json({ error: "scopes must be a non-empty list of known scopes" });
+    }
+    const days = expiresInDays == null ? null : Number(expiresInDays);
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS)) {
+      return res
+        .status(400)
+        .json({ error: `expiresInDays must be 1-${MAX_EXPIRY_DAYS} or null` });
+    }
+
+    try {
+      const { token, record } = await createApiToken(name.trim(), [...new Set(scopes)], days);
+      return res.status(201).json({ token, ...record });
+    } catch (error) {
+      console.error("API token create error:", error);
+      return res.status(500).json({ error: "Failed to create token" });
+    }
+  }
+
+  // --- DELETE: revoke a token by id ---
+  if (req.method === "DELETE") {
+    const { id } = req.body || {};
+    if (typeof id !== "string" || !id) {
+      return res.status(400).json({ error: "Missing required field: id" });
+    }
+
+    try {
+      await revokeApiToken(id);
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(404).json({ error: "Token not found" });
+      }
+      console.error("API token revoke error:", error);
+      return res.status(500).json({ error: "Failed to revoke token" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import {
+  consumeRecoveryCode,
+  disableTotp,
+  getTotpStatus,
+  verifyTotpCode,
+} from "../_lib/totp.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: { enabled, recoveryCodesRemaining } ---
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await getTotpStatus());
+    } catch (error) {
+      console.error("TOTP status error:", error);
+      return res.status(500).json({ error: "Failed to load two-step status" });
+    }
+  }
+
+  // --- DELETE: turn TOTP off; needs a current code or a recovery code ---
+  if (req.method === "DELETE") {
+    const { code, recoveryCode } = req.body || {};
+
+    try {
+      const valid =
+        typeof code === "string"
+          ? await verifyTotpCode(code)
+          : typeof recoveryCode === "string" && (await consumeRecoveryCode(recoveryCode));
+      if (!valid) {
+        return res.status(401).json({ error: "Invalid code" });
+      }
+      await disableTotp();
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      console.error("TOTP disable error:", error);
+      return res.status(500).json({ error: "Failed to turn off two-step sign-in" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,49 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../../_lib/auth.js";
+import { confirmEnrollment, startEnrollment } from "../../_lib/totp.js";
+
+/**
+ * Enroll an authenticator app for the admin TOTP step.
+ *   POST {} → new pending secret: { secret, otpauthUrl } (render otpauthUrl as a QR code)
+ *   POST { code } → confirm with a code from the app; returns { recoveryCodes } once
+ *
+ * Starting is a POST (so it passes the CSRF check): it replaces any pending secret.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- POST without a code: start enrollment ---
+  if (req.method === "POST" && req.body?.code === undefined) {
+    try {
+      return res.status(200).json(await startEnrollment());
+    } catch (error) {
+      console.error("TOTP enrollment start error:", error);
+      return res.status(500).json({ error: "Failed to start enrollment" });
+    }
+  }
+
+  // --- POST { code }: confirm enrollment ---
+  if (req.method === "POST") {
+    const code = typeof req.body?.code === "string" ? req.body.code.trim() : "";
+    if (!code) {
+      return res.status(400).json({ error: "Missing required field: code" });
+    }
+
+    try {
+      const recoveryCodes = await confirmEnrollment(code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "Code didn't match. Check the app and try again." });
+      }
+      return res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(409).json({ error: "Enrollment was restarted. Scan the new code." });
+      }
+      console.error("TOTP enrollment confirm error:", error);
+      return res.status(500).json({ error: "Failed to confirm enrollment" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import { revokeSessionsForSubject } from "../_lib/sessions.js";
+import {
+  createViewer,
+  listViewers,
+  MIN_PASSWORD_LENGTH,
+  normalizeUsername,
+  updateViewer,
+  USERNAME_PATTERN,
+  viewerSubject,
+} from "../_lib/viewers.js";
+
+function validName(name: unknown): name is string {
+  return typeof name === "string" && name.trim().length > 0 && name.length <= 64;
+}
+
+function validPassword(password: unknown): password is string {
+  return typeof password === "string" && password.length >= MIN_PASSWORD_LENGTH;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: list accounts (no password hashes) ---
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await listViewers());
+    } catch (error) {
+      console.error("Viewer list error:", error);
+      return res.status(500).json({ error: "Failed to list viewers" });
+    }
+  }
+
+  // --- POST: add an account ---
+  if (req.method === "POST") {
+    const { name, password } = req.body || {};
+    const username = normalizeUsername(req.body?.username);
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return res.status(400).json({
+        error: "username must be 1-32 characters: a-z, 0-9, dot, dash or underscore",
+      });
+    }
+    if (!validName(name)) {
+      return res.status(400).json({ error: "name must be 1-64 characters" });
+    }
+    if (!validPassword(password)) {
+      return res
+        .status(400)
+        .json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    try {
+      return res.status(201).json(await createViewer(username, name.trim(), password));
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+      console.error("Viewer create error:", error);
+      return res.status(500).json({ error: "Failed to create viewer" });
+    }
+  }
+
+  // --- PATCH: rename, disable/enable or reset the password ---
+  if (req.method === "PATCH") {
+    const { name, disabled, password } = req.body || {};
+    const username = normalizeUsername(req.body?.username);
+
+    if (!username) {
+      return res.status(400).json({ error: "Missing required field: username" });
+    }
+    if (name !== undefined && !validName(name)) {
+      return res.status(400).json({ error: "name must be 1-64 characters" });
+    }
+    if (disabled !== undefined && typeof disabled !== "boolean") {
+      return res.status(400).json({ error: "disabled must be a boolean" });
+    }
+    if (password !== undefined && !validPassword(password)) {
+      return res
+        .status(400)
+        .json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    try {
+      const account = await updateViewer(username, {
+        name: name?.trim(),
+        disabled,
+        password,
+      });
+      // Disabling or resetting the password signs the person out everywhere
+      if (disabled === true || password !== undefined) {
+        await revokeSessionsForSubject(viewerSubject(username));
+      }
+      return res.status(200).json(account);
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(404).json({ error: "Viewer not found" });
+      }
+      console.error("Viewer update error:", error);
+      return res.status(500).json({ error: "Failed to update viewer" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
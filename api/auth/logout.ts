@@ -1,15 +1,38 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  ADMIN_COOKIE,
+  SHARE_COOKIE,
+  VIEWER_COOKIE,
+  clearedCookie,
+  parseCookies,
+  verifyCsrf,
+  verifySessionToken,
+} from "../_lib/auth.js";
+import { revokeSession } from "../_lib/sessions.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  // Clear both cookies; harmless if they don't exist
-  const cookies = [
-    "viewer_session=; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=0",
-    "admin_session=; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=0",
-  ];
-  res.setHeader("Set-Cookie", cookies);
+  if (!verifyCsrf(req, res)) return;
+
+  // Revoke this browser's sessions server-side so copied cookies stop working too
+  const cookies = parseCookies(req);
+  for (const name of [VIEWER_COOKIE, ADMIN_COOKIE, SHARE_COOKIE]) {
+    const session = cookies[name] ? verifySessionToken(cookies[name]) : null;
+    if (session?.sid) {
+      await revokeSession(session.sid).catch((err) =>
+        console.error("Failed to revoke session on logout:", err)
+      );
+    }
+  }
+
+  // Clear all session cookies; harmless if they don't exist
+  res.setHeader("Set-Cookie", [
+    clearedCookie(VIEWER_COOKIE),
+    clearedCookie(ADMIN_COOKIE),
+    clearedCookie(SHARE_COOKIE),
+  ]);
   return res.status(200).json({ ok: true });
 }
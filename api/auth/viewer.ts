@@ -1,56 +1,48 @@
-import { createHmac, timingSafeEqual } from "crypto";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-
-const VIEWER_COOKIE = "viewer_session";
-const VIEWER_MAX_AGE = 365 * 24 * 60 * 60;
-
-function getSecret(): string | null {
-  return process.env.AUTH_SECRET || null;
-}
-
-function sign(payload: string): string | null {
-  const secret = getSecret();
-  if (!secret) return null;
-  return createHmac("sha256", secret).update(payload).digest("hex");
-}
-
-function createSessionToken(role: string, maxAgeSeconds: number): string {
-  const exp = Math.floor(Date.now() / 1000) + maxAgeSeconds;
-  const payload = `${role}|${exp}`;
-  const sig = sign(payload);
-  if (!sig) throw new Error("AUTH_SECRET env var is not set");
-  return `${payload}|${sig}`;
-}
-
-function setViewerCookie(res: VercelResponse): void {
-  const token = createSessionToken("viewer", VIEWER_MAX_AGE);
-  res.setHeader(
-    "Set-Cookie",
-    `${VIEWER_COOKIE}=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${VIEWER_MAX_AGE}`
-  );
-}
-
+import { safeEqual, startSession, verifyCsrf } from "../_lib/auth.js";
+import { limitLoginAttempt } from "../_lib/rateLimit.js";
+import { authenticateViewer, normalizeUsername, viewerSubject } from "../_lib/viewers.js";
+
+/**
+ * Viewer login with a named account ({ username, password }).
+ *
+ * While VIEWER_PASSWORD is still set, a login without a username is checked
+ * against it and gets the shared "viewer" subject. Unset it once everyone
+ * has an account.
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const body = req.body && typeof req.body === "object" ? req.body : {};
-  const password = typeof body.password === "string" ? body.password.trim() : "";
-  const viewerPassword = (process.env.VIEWER_PASSWORD || "").trim();
-
-  if (!viewerPassword) {
-    console.error("VIEWER_PASSWORD env var is not set");
-    return res.status(500).json({ error: "Server misconfigured" });
-  }
+  if (!verifyCsrf(req, res)) return;
 
-  if (!password || password !== viewerPassword) {
-    res.setHeader("Cache-Control", "no-store");
-    return res.status(401).json({ error: "Invalid password" });
-  }
+  const body = req.body && typeof req.body === "object" ? req.body : {};
+  const username = normalizeUsername(body.username);
+  const password = typeof body.password === "string" ? body.password : "";
+  const sharedPassword = (process.env.VIEWER_PASSWORD || "").trim();
 
   try {
-    setViewerCookie(res);
+    let subject: string | null = null;
+    const outcome = await limitLoginAttempt("viewer", req, res, async () => {
+      if (!password) return false;
+      if (!username) {
+        if (!sharedPassword || !safeEqual(password.trim(), sharedPassword)) return false;
+        subject = "viewer";
+        return true;
+      }
+      const account = await authenticateViewer(username, password);
+      if (!account) return false;
+      subject = viewerSubject(account.username);
+      return true;
+    });
+    if (outcome === "locked") return;
+    if (outcome === "invalid" || !subject) {
+      res.setHeader("Cache-Control", "no-store");
+      return res.status(401).json({ error: "Invalid name or password" });
+    }
+
+    await startSession(req, res, "viewer", subject);
     return res.status(200).json({ ok: true });
   } catch (err) {
     console.error("Viewer login error:", err);
@@ -0,0 +1,120 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin, requireViewer } from "./_lib/auth.js";
+import { auditActor, recordAudit } from "./_lib/audit.js";
+import {
+  deleteCollection,
+  listCollections,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_TITLE_LENGTH,
+  saveCollection,
+} from "./_lib/collections.js";
+import { mediaOrigins } from "./_lib/memories.js";
+import { isValidTag } from "../src/validation.js";
+
+function coverError(cover: unknown): string | undefined {
+  if (typeof cover !== "string") return "cover must be a URL or null";
+  let parsed: URL;
+  try {
+    parsed = new URL(cover);
+  } catch {
+    return "cover must be a URL or null";
+  }
+  const origins = mediaOrigins();
+  if (parsed.protocol !== "https:" || (origins && !origins.includes(parsed.origin))) {
+    return "cover must be an https URL from the media bucket";
+  }
+  return undefined;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // --- GET: every collection, for viewers and admins (a share link's session gets 401).
+  // A collection's memories come from GET /api/memories?tag=<tag> ---
+  if (req.method === "GET") {
+    const session = await requireViewer(req, res);
+    if (!session) return;
+
+    res.setHeader("Vary", "Cookie");
+    res.setHeader(
+      "Cache-Control",
+      session.role === "admin" ? "private, no-store" : "private, max-age=300, stale-while-revalidate=120"
+    );
+    try {
+      return res.status(200).json(await listCollections());
+    } catch (error) {
+      console.error("Collection list error:", error);
+      return res.status(500).json({ error: "Failed to list collections" });
+    }
+  }
+
+  // --- PUT: admin-only, create or replace the collection for { tag, title,
+  // description?, cover? }. Leaving out description or cover clears it ---
+  if (req.method === "PUT") {
+    const session = await requireAdmin(req, res, "memories:write");
+    if (!session) return;
+
+    const { tag, title, description, cover, reason } = req.body || {};
+
+    if (!isValidTag(tag)) {
+      return res.status(400).json({ error: "tag must be 1-32 characters: a-z, 0-9 or dash" });
+    }
+    if (typeof title !== "string" || !title.trim() || title.length > MAX_TITLE_LENGTH) {
+      return res.status(400).json({ error: `title must be 1-${MAX_TITLE_LENGTH} characters` });
+    }
+    if (
+      description != null &&
+      (typeof description !== "string" || description.length > MAX_DESCRIPTION_LENGTH)
+    ) {
+      return res
+        .status(400)
+        .json({ error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    }
+    const coverProblem = cover != null ? coverError(cover) : undefined;
+    if (coverProblem) {
+      return res.status(400).json({ error: coverProblem });
+    }
+
+    try {
+      const { before, after } = await saveCollection(
+        {
+          tag,
+          title: title.trim(),
+          description: description?.trim() || undefined,
+          cover: cover ?? undefined,
+        },
+        auditActor(req, session).actor
+      );
+      await recordAudit(auditActor(req, session), "collection.update", tag, {
+        before: before ?? null,
+        after,
+        reason: typeof reason === "string" ? reason : undefined,
+      });
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      console.error("Collection save error:", error);
+      return res.status(500).json({ error: "Failed to save collection" });
+    }
+  }
+
+  // --- DELETE: admin-only, remove the collection { tag }; its memories keep the tag ---
+  if (req.method === "DELETE") {
+    const session = await requireAdmin(req, res, "memories:write");
+    if (!session) return;
+
+    const { tag } = req.body || {};
+    if (!isValidTag(tag)) {
+      return res.status(400).json({ error: "Missing required field: tag" });
+    }
+
+    try {
+      const before = await deleteCollection(tag);
+      if (!before) return res.status(404).json({ error: "Collection not found" });
+      await recordAudit(auditActor(req, session), "collection.delete", tag, { before });
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      console.error("Collection delete error:", error);
+      return res.status(500).json({ error: "Failed to delete collection" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
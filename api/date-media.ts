@@ -1,70 +1,8 @@
-import { createHmac, timingSafeEqual } from "crypto";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
-
-const VIEWER_COOKIE = "viewer_session";
-const ADMIN_COOKIE = "admin_session";
-
-function getSecret(): string | null {
-  return process.env.AUTH_SECRET || null;
-}
-
-function sign(payload: string): string | null {
-  const secret = getSecret();
-  if (!secret) return null;
-  return createHmac("sha256", secret).update(payload).digest("hex");
-}
-
-function safeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
-
-function verifySessionToken(token: string): { role: string } | null {
-  const parts = token.split("|");
-  if (parts.length !== 3) return null;
-  const [role, expStr, sig] = parts;
-  if (role !== "viewer" && role !== "admin") return null;
-  const exp = parseInt(expStr, 10);
-  if (isNaN(exp)) return null;
-  const expectedSig = sign(`${role}|${expStr}`);
-  if (expectedSig === null || !safeEqual(sig, expectedSig)) return null;
-  if (Math.floor(Date.now() / 1000) > exp) return null;
-  return { role };
-}
-
-function parseCookies(req: VercelRequest): Record<string, string> {
-  const header = req.headers.cookie || "";
-  const cookies: Record<string, string> = {};
-  for (const pair of header.split(";")) {
-    const [name, ...rest] = pair.trim().split("=");
-    if (name) cookies[name.trim()] = rest.join("=").trim();
-  }
-  return cookies;
-}
-
-function getSessionFromRequest(req: VercelRequest): { role: string } | null {
-  const cookies = parseCookies(req);
-  if (cookies[ADMIN_COOKIE]) {
-    const s = verifySessionToken(cookies[ADMIN_COOKIE]);
-    if (s && s.role === "admin") return s;
-  }
-  if (cookies[VIEWER_COOKIE]) {
-    const s = verifySessionToken(cookies[VIEWER_COOKIE]);
-    if (s && s.role === "viewer") return s;
-  }
-  return null;
-}
-
-function requireViewer(req: VercelRequest, res: VercelResponse): boolean {
-  const session = getSessionFromRequest(req);
-  if (!session) {
-    res.setHeader("Cache-Control", "no-store");
-    res.status(401).json({ error: "Unauthorized" });
-    return false;
-  }
-  return true;
-}
+import { requireViewerOrShare } from "./_lib/auth.js";
+import { shareDateFromSubject } from "./_lib/shareLinks.js";
+import { isDateLocked } from "./_lib/unlock.js";
 
 const s3 = new S3Client({
   region: process.env.AWS_REGION || "us-west-1",
@@ -133,7 +71,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  if (!requireViewer(req, res)) return;
+  const session = await requireViewerOrShare(req, res);
+  if (!session) return;
 
   if (!BUCKET) {
     return res.status(500).json({ error: "S3_BUCKET_NAME not configured" });
@@ -143,12 +82,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!date) {
     return res.status(400).json({ error: "Missing required query param: date" });
   }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+  }
+
+  // Share links can only read their own day
+  if (session.role === "share" && shareDateFromSubject(session.sub) !== date) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  res.setHeader("Vary", "Cookie");
+
+  // Same unlock rule as /api/memories: no media for days that aren't unlocked yet
+  if (session.role !== "admin" && isDateLocked(date)) {
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.status(200).json({ date, urls: [], locked: true });
+  }
 
   try {
     const index = await loadDateMediaIndex();
     const urls = index[date] ?? [];
 
-    res.setHeader("Cache-Control", "s-maxage=300, stale-while-revalidate=120");
+    res.setHeader("Cache-Control", "private, max-age=300, stale-while-revalidate=120");
     return res.status(200).json({ date, urls });
   } catch (error) {
     console.error("date-media error:", error);
@@ -1,194 +1,270 @@
-import { createHmac, timingSafeEqual } from "crypto";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { requireAdmin, requireViewerOrShare } from "./_lib/auth.js";
+import { auditActor, recordAudit } from "./_lib/audit.js";
+import { recordRevision } from "./_lib/history.js";
 import {
-  DynamoDBDocumentClient,
-  ScanCommand,
-  PutCommand,
-  DeleteCommand,
-} from "@aws-sdk/lib-dynamodb";
+  entryPath,
+  getMemoryItem,
+  isEntryId,
+  isPublished,
+  isTrashed,
+  listDay,
+  listMemories,
+  MAX_ENTRIES_PER_DAY,
+  mediaOrigins,
+  memoryEtag,
+  memoryFormat,
+  memoryStatus,
+  memoryTags,
+  memoryVersion,
+  newEntryId,
+  parseIfMatch,
+  saveMemory,
+  trashMemory,
+} from "./_lib/memories.js";
+import { updateSearchIndex } from "./_lib/search.js";
+import { shareDateFromSubject } from "./_lib/shareLinks.js";
+import { getUnlockedThrough } from "./_lib/unlock.js";
+import { hasErrors, isValidDate, isValidTag, validateMemory } from "../src/validation.js";
 
-const VIEWER_COOKIE = "viewer_session";
-const ADMIN_COOKIE = "admin_session";
-
-function getSecret(): string | null {
-  return process.env.AUTH_SECRET || null;
-}
-
-function sign(payload: string): string | null {
-  const secret = getSecret();
-  if (!secret) return null;
-  return createHmac("sha256", secret).update(payload).digest("hex");
-}
-
-function safeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
-
-function verifySessionToken(token: string): { role: string } | null {
-  const parts = token.split("|");
-  if (parts.length !== 3) return null;
-  const [role, expStr, sig] = parts;
-  if (role !== "viewer" && role !== "admin") return null;
-  const exp = parseInt(expStr, 10);
-  if (isNaN(exp)) return null;
-  const expectedSig = sign(`${role}|${expStr}`);
-  if (expectedSig === null || !safeEqual(sig, expectedSig)) return null;
-  if (Math.floor(Date.now() / 1000) > exp) return null;
-  return { role };
-}
-
-function parseCookies(req: VercelRequest): Record<string, string> {
-  const header = req.headers.cookie || "";
-  const cookies: Record<string, string> = {};
-  for (const pair of header.split(";")) {
-    const [name, ...rest] = pair.trim().split("=");
-    if (name) cookies[name.trim()] = rest.join("=").trim();
+/**
+ * An item as sent to the browser. Past `unlockedThrough` only a stub goes out,
+ * so future surprises can't be read from the network tab; null reveals all (admins),
+ * including the publish state.
+ */
+function toMemory(item: Record<string, unknown>, unlockedThrough: string | null) {
+  const date = item.date_id as string;
+  if (unlockedThrough !== null && date > unlockedThrough) {
+    return { date, locked: true };
   }
-  return cookies;
+  const tags = memoryTags(item);
+  const memory = {
+    date,
+    id: item.entry_id as string,
+    type: item.type,
+    text: item.text,
+    format: memoryFormat(item) === "markdown" ? "markdown" : undefined,
+    media: item.media || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    version: memoryVersion(item),
+  };
+  if (unlockedThrough !== null) return memory;
+  return { ...memory, status: memoryStatus(item), publishAt: item.publish_at || undefined };
 }
 
-function getSessionFromRequest(req: VercelRequest): { role: string } | null {
-  const cookies = parseCookies(req);
-  if (cookies[ADMIN_COOKIE]) {
-    const s = verifySessionToken(cookies[ADMIN_COOKIE]);
-    if (s && s.role === "admin") return s;
-  }
-  if (cookies[VIEWER_COOKIE]) {
-    const s = verifySessionToken(cookies[VIEWER_COOKIE]);
-    if (s && s.role === "viewer") return s;
+/** Items in date order as sent to the browser; a locked day is one stub however many entries it has. */
+function toMemories(items: Record<string, unknown>[], unlockedThrough: string | null) {
+  const memories: ReturnType<typeof toMemory>[] = [];
+  for (const item of items) {
+    const memory = toMemory(item, unlockedThrough);
+    const last = memories[memories.length - 1];
+    if ("locked" in memory && last && "locked" in last && last.date === memory.date) continue;
+    memories.push(memory);
   }
-  return null;
+  return memories;
 }
 
-function getAdminSessionFromRequest(req: VercelRequest): { role: string } | null {
-  const cookies = parseCookies(req);
-  const t = cookies[ADMIN_COOKIE];
-  if (t) {
-    const s = verifySessionToken(t);
-    if (s && s.role === "admin") return s;
-  }
-  return null;
+function queryParam(req: VercelRequest, name: string): string {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || "";
 }
 
-function requireViewer(req: VercelRequest, res: VercelResponse): boolean {
-  const session = getSessionFromRequest(req);
-  if (!session) {
-    res.setHeader("Cache-Control", "no-store");
-    res.status(401).json({ error: "Unauthorized" });
-    return false;
-  }
-  return true;
-}
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // --- GET: requires viewer or admin session; share links get their one day.
+  // Viewers and share links get { date, locked: true } for days not yet unlocked.
+  // ?from=&to= (YYYY-MM-DD), ?limit= and ?cursor= page through { memories, nextCursor },
+  // in date order and each day's entries in their order; ?date= returns that day's
+  // entries the same way, and ?date=&id= one entry with its ETag. ?tag= lists only
+  // memories with that tag (a collection), leaving out locked days altogether ---
+  if (req.method === "GET") {
+    const session = await requireViewerOrShare(req, res);
+    if (!session) return;
 
-function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
-  if (getAdminSessionFromRequest(req)) return true;
-  const pin = req.headers["admin-pin"];
-  if (pin && pin === process.env.ADMIN_PIN) return true;
-  res.setHeader("Cache-Control", "no-store");
-  res.status(401).json({ error: "Unauthorized" });
-  return false;
-}
+    const unlockedThrough = session.role === "admin" ? null : getUnlockedThrough();
+    // Admin and viewer responses differ, so a browser cache must not mix them up
+    res.setHeader("Vary", "Cookie");
+    // Viewers and share links never learn that drafts or scheduled memories exist
+    const visible = (item: Record<string, unknown>) =>
+      !isTrashed(item) && (session.role === "admin" || isPublished(item));
 
-const client = new DynamoDBClient({
-  region: process.env.AWS_REGION || "us-west-1",
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID_DYNAMO!,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY_DYNAMO!,
-  },
-});
+    const single = queryParam(req, "date");
+    if (single) {
+      res.setHeader("Cache-Control", "private, no-store");
+      if (!isValidDate(single)) {
+        return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+      }
+      if (session.role === "share" && shareDateFromSubject(session.sub) !== single) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const id = queryParam(req, "id");
+      if (id && !isEntryId(id)) {
+        return res.status(400).json({ error: "Invalid id" });
+      }
 
-const docClient = DynamoDBDocumentClient.from(client);
-const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || "valentine_memories";
+      try {
+        if (!id) {
+          const items = (await listDay(single)).filter(visible);
+          return res.status(200).json({ memories: toMemories(items, unlockedThrough), nextCursor: null });
+        }
+        const item = await getMemoryItem(single, id);
+        if (!item || !visible(item)) return res.status(404).json({ error: "Memory not found" });
+        const memory = toMemory(item, unlockedThrough);
+        if (!("locked" in memory)) res.setHeader("ETag", memoryEtag(memory.version));
+        return res.status(200).json(memory);
+      } catch (error) {
+        console.error("DynamoDB get error:", error);
+        return res.status(500).json({ error: "Failed to fetch memory" });
+      }
+    }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // --- GET: requires viewer or admin session ---
-  if (req.method === "GET") {
-    if (!requireViewer(req, res)) return;
+    if (session.role === "share") {
+      const date = shareDateFromSubject(session.sub);
+      res.setHeader("Cache-Control", "private, no-store");
+      if (!date) return res.status(403).json({ error: "Forbidden" });
 
-    try {
-      const result = await docClient.send(
-        new ScanCommand({
-          TableName: TABLE_NAME,
-          ProjectionExpression: "date_id, #t, #tx, media",
-          ExpressionAttributeNames: {
-            "#t": "type",
-            "#tx": "text",
-          },
-        })
-      );
+      try {
+        const items = (await listDay(date)).filter(visible);
+        return res.status(200).json({ memories: toMemories(items, unlockedThrough), nextCursor: null });
+      } catch (error) {
+        console.error("DynamoDB get error:", error);
+        return res.status(500).json({ error: "Failed to fetch memories" });
+      }
+    }
 
-      const memories = (result.Items || []).map((item) => ({
-        date: item.date_id,
-        type: item.type,
-        text: item.text,
-        media: item.media || undefined,
-      }));
+    const from = queryParam(req, "from");
+    const to = queryParam(req, "to");
+    const tag = queryParam(req, "tag");
+    const limit = parseInt(queryParam(req, "limit"), 10);
+    if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+      return res.status(400).json({ error: "from and to must be YYYY-MM-DD" });
+    }
+    if (tag && !isValidTag(tag)) {
+      return res.status(400).json({ error: "Invalid tag" });
+    }
 
-      memories.sort((a, b) => a.date.localeCompare(b.date));
+    try {
+      const page = await listMemories({
+        from: from || undefined,
+        to: to || undefined,
+        limit: isNaN(limit) ? undefined : limit,
+        cursor: queryParam(req, "cursor") || undefined,
+        tag: tag || undefined,
+      });
+      let memories = toMemories(page.items.filter(visible), unlockedThrough);
+      // A stub would still tell viewers a tagged surprise is coming
+      if (tag) memories = memories.filter((memory) => !("locked" in memory));
 
+      // private: a shared CDN cache would hand the full list to share sessions.
+      // Admins edit against `version`, so a cached list would only cause conflicts.
       res.setHeader(
         "Cache-Control",
-        "s-maxage=300, stale-while-revalidate=120"
+        session.role === "admin"
+          ? "private, no-store"
+          : "private, max-age=300, stale-while-revalidate=120"
       );
 
-      return res.status(200).json(memories);
+      return res.status(200).json({ memories, nextCursor: page.nextCursor });
     } catch (error) {
-      console.error("DynamoDB scan error:", error);
+      console.error("DynamoDB query error:", error);
       return res.status(500).json({ error: "Failed to fetch memories" });
     }
   }
 
-  // --- PUT: admin-only, upsert a memory ---
+  // --- PUT: admin-only, save one of a day's entries. Without `id` it adds a new
+  // entry after the day's others; with `id` it upserts that entry. Every save
+  // bumps `version` and copies the version it replaces to the history table
+  // (see api/memories/[date]/history.ts). If-Match: "<version>" only saves over
+  // that version, If-None-Match: * only creates (a trashed item counts as gone);
+  // otherwise 409 with the current copy. Without either it overwrites. `status`,
+  // `publishAt` (ISO time, null to clear), `format` and `tags` ([] to clear) are kept
+  // as they are when left out; new memories default to published, plain and untagged.
+  // Answers { ok, id, version }. ---
   if (req.method === "PUT") {
-    if (!requireAdmin(req, res)) return;
+    const session = await requireAdmin(req, res, "memories:write");
+    if (!session) return;
 
-    const { date, type, text, media } = req.body || {};
+    const { date, id: requestedId, type, text, media, reason, status, publishAt, format, tags } =
+      req.body || {};
 
-    if (!date || !type) {
-      return res
-        .status(400)
-        .json({ error: "Missing required fields: date, type" });
+    // { error, fields: { date?, type?, text?, media?, status?, publishAt?, format?, tags? } }
+    const fields = validateMemory(req.body || {}, { mediaOrigins: mediaOrigins() });
+    if (hasErrors(fields)) {
+      return res.status(400).json({ error: "Invalid memory", fields });
     }
+    const who = auditActor(req, session);
+    const ifMatch = parseIfMatch(req.headers["if-match"]);
+    if (ifMatch === undefined) {
+      return res.status(400).json({ error: "Invalid If-Match header" });
+    }
+    if (requestedId !== undefined && !isEntryId(requestedId)) {
+      return res.status(400).json({ error: "Invalid id" });
+    }
+    if (requestedId === undefined && ifMatch !== null) {
+      return res.status(400).json({ error: "If-Match needs the id of the entry to save over" });
+    }
+    const id: string = requestedId ?? newEntryId();
+    const createOnly = requestedId === undefined || req.headers["if-none-match"] === "*";
 
     try {
-      const item: Record<string, unknown> = { date_id: date, type, text: text || "" };
-      if (media && Array.isArray(media) && media.length > 0) {
-        item.media = media;
+      if (requestedId === undefined) {
+        const live = (await listDay(date)).filter((item) => !isTrashed(item));
+        if (live.length >= MAX_ENTRIES_PER_DAY) {
+          return res.status(400).json({ error: `A day can hold at most ${MAX_ENTRIES_PER_DAY} memories` });
+        }
       }
 
-      await docClient.send(
-        new PutCommand({
-          TableName: TABLE_NAME,
-          Item: item,
-        })
+      const { before, after, version } = await saveMemory(
+        { date, id, type, text, media, status, publishAt, format, tags },
+        who.actor,
+        { ifMatch, createOnly }
       );
 
-      return res.status(200).json({ ok: true });
+      if (before) await recordRevision(before, who);
+      await updateSearchIndex(before, after);
+      await recordAudit(
+        who,
+        before && !isTrashed(before) ? "memory.update" : "memory.create",
+        entryPath(date, id),
+        { before: before ?? null, after, reason: typeof reason === "string" ? reason : undefined }
+      );
+
+      res.setHeader("ETag", memoryEtag(version));
+      return res.status(200).json({ ok: true, id, version });
     } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        const item = await getMemoryItem(date, id).catch(() => undefined);
+        const current = item && !isTrashed(item) ? item : undefined;
+        if (current) res.setHeader("ETag", memoryEtag(memoryVersion(current)));
+        return res.status(409).json({
+          error: "This memory was changed somewhere else",
+          code: "conflict",
+          current: current ? toMemory(current, null) : null,
+        });
+      }
       console.error("DynamoDB put error:", error);
       return res.status(500).json({ error: "Failed to save memory" });
     }
   }
 
-  // --- DELETE: admin-only, remove a memory by date ---
+  // --- DELETE: admin-only, move one entry { date, id } to the trash (see api/memories/trash.ts) ---
   if (req.method === "DELETE") {
-    if (!requireAdmin(req, res)) return;
+    const session = await requireAdmin(req, res, "memories:write");
+    if (!session) return;
 
-    const { date } = req.body || {};
+    const { date, id } = req.body || {};
 
-    if (!date) {
-      return res.status(400).json({ error: "Missing required field: date" });
+    if (!isValidDate(date)) {
+      return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+    }
+    if (!isEntryId(id)) {
+      return res.status(400).json({ error: "Missing required field: id" });
     }
 
     try {
-      await docClient.send(
-        new DeleteCommand({
-          TableName: TABLE_NAME,
-          Key: { date_id: date },
-        })
-      );
+      const before = await trashMemory(date, id);
+      if (before) {
+        await recordAudit(auditActor(req, session), "memory.delete", entryPath(date, id), { before });
+      }
 
       return res.status(200).json({ ok: true });
     } catch (error) {
@@ -0,0 +1,117 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireViewer, type Session } from "../../_lib/auth.js";
+import {
+  addComment,
+  COMMENT_ID_PATTERN,
+  deleteComment,
+  listComments,
+  markThreadRead,
+  MAX_COMMENT_LENGTH,
+  MAX_COMMENTS_PER_DAY,
+} from "../../_lib/comments.js";
+import { isPublished, isTrashed, listDay } from "../../_lib/memories.js";
+import { getUnlockedThrough } from "../../_lib/unlock.js";
+import { getViewer, subjectName, usernameFromSubject } from "../../_lib/viewers.js";
+import { isValidDate } from "../../../src/validation.js";
+
+function toComment(item: Record<string, unknown>, session: Session) {
+  return {
+    id: item.comment_id as string,
+    role: item.author_role as "viewer" | "admin",
+    name: item.author_name as string,
+    text: item.text as string,
+    createdAt: item.created_at as string,
+    mine: item.author === session.sub,
+    unread: session.role === "admin" && item.unread ? true : undefined,
+  };
+}
+
+/** Viewers only get a thread on a day they can see: unlocked, with a published memory. */
+async function canSeeDay(date: string, session: Session): Promise<boolean> {
+  if (session.role === "admin") return true;
+  if (date > getUnlockedThrough()) return false;
+  return (await listDay(date)).some((item) => !isTrashed(item) && isPublished(item));
+}
+
+/** What a message's author is called: their viewer account's name, else the subject's label. */
+async function authorName(session: Session): Promise<string> {
+  const username = usernameFromSubject(session.sub);
+  const account = username ? await getViewer(username) : null;
+  return account?.name ?? subjectName(session.sub);
+}
+
+/**
+ * The reply thread on a day's memories, between viewers and the author. Needs a
+ * viewer or admin session (share links can't see it); a locked day is a 404.
+ *
+ * GET    → { date, comments: [{ id, role, name, text, createdAt, mine, unread? }] }, oldest first
+ * POST   { text } → { comment }: adds a message as the signed-in viewer or admin
+ * PATCH  { read: true } (admin-only) → { ok, marked }: clears the day's unread badge
+ * DELETE { id } → { ok }: takes a message back; viewers only their own
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const session = await requireViewer(req, res);
+  if (!session) return;
+  res.setHeader("Cache-Control", "private, no-store");
+
+  const value = req.query.date;
+  const date = (Array.isArray(value) ? value[0] : value) || "";
+  if (!isValidDate(date)) {
+    return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+  }
+
+  try {
+    if (!(await canSeeDay(date, session))) {
+      return res.status(404).json({ error: "Memory not found" });
+    }
+
+    if (req.method === "GET") {
+      const items = await listComments(date);
+      return res.status(200).json({ date, comments: items.map((item) => toComment(item, session)) });
+    }
+
+    if (req.method === "POST") {
+      const { text } = req.body || {};
+      if (typeof text !== "string" || !text.trim() || text.length > MAX_COMMENT_LENGTH) {
+        return res.status(400).json({ error: `text must be 1-${MAX_COMMENT_LENGTH} characters` });
+      }
+      if ((await listComments(date)).length >= MAX_COMMENTS_PER_DAY) {
+        return res
+          .status(400)
+          .json({ error: `A day's thread can hold at most ${MAX_COMMENTS_PER_DAY} messages` });
+      }
+      const author = {
+        sub: session.sub,
+        role: session.role === "admin" ? ("admin" as const) : ("viewer" as const),
+        name: await authorName(session),
+      };
+      const item = await addComment(date, author, text.trim());
+      return res.status(200).json({ comment: toComment(item, session) });
+    }
+
+    if (req.method === "PATCH") {
+      if (session.role !== "admin") return res.status(403).json({ error: "Forbidden" });
+      if (req.body?.read !== true) {
+        return res.status(400).json({ error: "Expected { read: true }" });
+      }
+      return res.status(200).json({ ok: true, marked: await markThreadRead(date) });
+    }
+
+    if (req.method === "DELETE") {
+      const { id } = req.body || {};
+      if (typeof id !== "string" || !COMMENT_ID_PATTERN.test(id)) {
+        return res.status(400).json({ error: "Invalid id" });
+      }
+      const removed = await deleteComment(date, id, session.role === "admin" ? null : session.sub);
+      if (!removed) return res.status(404).json({ error: "Message not found" });
+      return res.status(200).json({ ok: true });
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (error) {
+    console.error("Comment thread error:", error);
+    return res
+      .status(500)
+      .json({ error: req.method === "GET" ? "Failed to load replies" : "Failed to update replies" });
+  }
+}
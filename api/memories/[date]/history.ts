@@ -0,0 +1,62 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../../_lib/auth.js";
+import { listRevisions } from "../../_lib/history.js";
+import { getMemoryItem, isEntryId, isTrashed, memoryFormat, memoryVersion } from "../../_lib/memories.js";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function queryParam(req: VercelRequest, name: string): string {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || "";
+}
+
+/**
+ * GET /api/memories/:date/history?id= → { date, id, current, revisions, nextCursor }
+ *   current:   the saved entry (null if none or in the trash)
+ *   revisions: earlier versions, newest first; ?cursor= pages further back
+ *
+ * To revert, PUT /api/memories with a revision's content.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!(await requireAdmin(req, res, "memories:write"))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  const date = queryParam(req, "date");
+  if (!DATE_PATTERN.test(date)) {
+    return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+  }
+  const id = queryParam(req, "id");
+  if (!isEntryId(id)) {
+    return res.status(400).json({ error: "Missing required parameter: id" });
+  }
+
+  try {
+    const [stored, page] = await Promise.all([
+      getMemoryItem(date, id),
+      listRevisions(date, id, { cursor: queryParam(req, "cursor") || undefined }),
+    ]);
+    const item = stored && !isTrashed(stored) ? stored : null;
+
+    return res.status(200).json({
+      date,
+      id,
+      current: item && {
+        version: memoryVersion(item),
+        type: item.type,
+        text: item.text ?? "",
+        format: memoryFormat(item),
+        media: item.media ?? [],
+        savedAt: item.updated_at ?? null,
+        savedBy: item.updated_by ?? null,
+      },
+      ...page,
+    });
+  } catch (error) {
+    console.error("Memory history error:", error);
+    return res.status(500).json({ error: "Failed to load history" });
+  }
+}
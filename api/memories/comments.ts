@@ -0,0 +1,24 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import { listUnreadThreads } from "../_lib/comments.js";
+
+/**
+ * GET /api/memories/comments → { unread: [{ date, count, latestAt }] }
+ *   Days whose reply thread has viewer messages the author hasn't opened,
+ *   newest first. Admin-only; PATCH /api/memories/:date/comments clears a day.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!(await requireAdmin(req, res))) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  try {
+    return res.status(200).json({ unread: await listUnreadThreads() });
+  } catch (error) {
+    console.error("Unread replies error:", error);
+    return res.status(500).json({ error: "Failed to fetch unread replies" });
+  }
+}
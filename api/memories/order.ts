@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import { auditActor, recordAudit } from "../_lib/audit.js";
+import { isEntryId, MAX_ENTRIES_PER_DAY, reorderMemories } from "../_lib/memories.js";
+import { isValidDate } from "../../src/validation.js";
+
+/**
+ * PUT { date, ids } → show that day's entries in the order of `ids`, which
+ * must list every live entry of the day once. 409 if the day's entries
+ * changed since the list was read (reload and try again).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "PUT") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+  const session = await requireAdmin(req, res, "memories:write");
+  if (!session) return;
+
+  const { date, ids } = req.body || {};
+  if (!isValidDate(date)) {
+    return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+  }
+  if (!Array.isArray(ids) || ids.length > MAX_ENTRIES_PER_DAY || !ids.every(isEntryId)) {
+    return res.status(400).json({ error: "ids must be a list of entry ids" });
+  }
+
+  try {
+    if (!(await reorderMemories(date, ids))) {
+      return res.status(409).json({
+        error: "This day's memories changed somewhere else",
+        code: "conflict",
+      });
+    }
+    await recordAudit(auditActor(req, session), "memory.reorder", date, { after: ids });
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    console.error("Memory reorder error:", error);
+    return res.status(500).json({ error: "Failed to reorder memories" });
+  }
+}
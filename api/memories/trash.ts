@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "../_lib/auth.js";
+import { auditActor, recordAudit } from "../_lib/audit.js";
+import {
+  entryPath,
+  isEntryId,
+  isTrashed,
+  listDay,
+  listMemories,
+  MAX_ENTRIES_PER_DAY,
+  purgeMemory,
+  restoreMemory,
+  TRASH_KIND,
+  trashRetentionDays,
+} from "../_lib/memories.js";
+import { updateSearchIndex } from "../_lib/search.js";
+
+function queryParam(req: VercelRequest, name: string): string {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || "";
+}
+
+/**
+ * GET    → trashed memories in date order: { memories, nextCursor, retentionDays }
+ * POST   { date, id } → restore that entry
+ * DELETE { date, id } → delete it for good
+ *
+ * DynamoDB's TTL purges trashed items on its own once purge_at passes.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const session = await requireAdmin(req, res, "memories:write");
+  if (!session) return;
+  res.setHeader("Cache-Control", "no-store");
+
+  // --- GET: one page of the trash ---
+  if (req.method === "GET") {
+    try {
+      const page = await listMemories({
+        kind: TRASH_KIND,
+        cursor: queryParam(req, "cursor") || undefined,
+      });
+      const now = Math.floor(Date.now() / 1000);
+      const memories = page.items
+        // TTL deletes can lag by a day or two
+        .filter((item) => (item.purge_at as number) > now)
+        .map((item) => ({
+          date: item.date_id,
+          id: item.entry_id,
+          type: item.type,
+          text: item.text,
+          media: item.media || undefined,
+          deletedAt: item.deleted_at,
+          purgeAt: item.purge_at,
+        }));
+      return res.status(200).json({
+        memories,
+        nextCursor: page.nextCursor,
+        retentionDays: trashRetentionDays(),
+      });
+    } catch (error) {
+      console.error("Trash list error:", error);
+      return res.status(500).json({ error: "Failed to load trash" });
+    }
+  }
+
+  if (req.method !== "POST" && req.method !== "DELETE") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { date, id } = req.body || {};
+  if (typeof date !== "string" || !date) {
+    return res.status(400).json({ error: "Missing required field: date" });
+  }
+  if (!isEntryId(id)) {
+    return res.status(400).json({ error: "Missing required field: id" });
+  }
+
+  // --- POST: restore ---
+  if (req.method === "POST") {
+    try {
+      const live = (await listDay(date)).filter((item) => !isTrashed(item));
+      if (live.length >= MAX_ENTRIES_PER_DAY) {
+        return res.status(400).json({ error: `A day can hold at most ${MAX_ENTRIES_PER_DAY} memories` });
+      }
+      const after = await restoreMemory(date, id);
+      await recordAudit(auditActor(req, session), "memory.restore", entryPath(date, id), { after });
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return res.status(404).json({ error: "Memory not in trash" });
+      }
+      console.error("Trash restore error:", error);
+      return res.status(500).json({ error: "Failed to restore memory" });
+    }
+  }
+
+  // --- DELETE: purge ---
+  try {
+    const before = await purgeMemory(date, id);
+    await updateSearchIndex(before, undefined);
+    await recordAudit(auditActor(req, session), "memory.purge", entryPath(date, id), { before });
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    if ((error as Error).name === "ConditionalCheckFailedException") {
+      return res.status(404).json({ error: "Memory not in trash" });
+    }
+    console.error("Trash purge error:", error);
+    return res.status(500).json({ error: "Failed to delete memory" });
+  }
+}
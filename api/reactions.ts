@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireViewer } from "./_lib/auth.js";
+import { getMemoryItem, isEntryId, isPublished, isTrashed } from "./_lib/memories.js";
+import { addReaction, listReactions, removeReaction, summarizeReactions } from "./_lib/reactions.js";
+import { getUnlockedThrough } from "./_lib/unlock.js";
+import { isReaction } from "../src/reactions.js";
+import { isValidDate } from "../src/validation.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const session = await requireViewer(req, res);
+  if (!session) return;
+
+  // Reactions change with every tap, so nothing is cached
+  res.setHeader("Cache-Control", "private, no-store");
+
+  // --- GET: the signed-in viewer's reactions as { reactions: [{ date, id, emoji }] }.
+  // ?summary=1 (admin-only) returns everyone's instead, per memory, as
+  // { summary: [{ date, id, counts, reactors }] } ---
+  if (req.method === "GET") {
+    try {
+      if (req.query.summary) {
+        if (session.role !== "admin") return res.status(403).json({ error: "Forbidden" });
+        return res.status(200).json({ summary: await summarizeReactions() });
+      }
+      return res.status(200).json({ reactions: await listReactions(session.sub) });
+    } catch (error) {
+      console.error("Reaction list error:", error);
+      return res.status(500).json({ error: "Failed to fetch reactions" });
+    }
+  }
+
+  // --- POST: react to a memory with { date, id, emoji }; DELETE with the same body
+  // takes the reaction back. Viewers can only react to memories they can see ---
+  if (req.method === "POST" || req.method === "DELETE") {
+    const { date, id, emoji } = req.body || {};
+    if (!isValidDate(date) || !isEntryId(id)) {
+      return res.status(400).json({ error: "Invalid date or id" });
+    }
+    if (!isReaction(emoji)) {
+      return res.status(400).json({ error: "Unknown reaction" });
+    }
+
+    try {
+      if (req.method === "DELETE") {
+        await removeReaction(session.sub, date, id, emoji);
+        return res.status(200).json({ ok: true });
+      }
+
+      const item = await getMemoryItem(date, id);
+      const visible =
+        item &&
+        !isTrashed(item) &&
+        (session.role === "admin" || (isPublished(item) && date <= getUnlockedThrough()));
+      // A locked memory gets the same answer as a missing one
+      if (!visible) return res.status(404).json({ error: "Memory not found" });
+
+      await addReaction(session.sub, date, id, emoji);
+      return res.status(200).json({ ok: true });
+    } catch (error) {
+      console.error("Reaction save error:", error);
+      return res.status(500).json({ error: "Failed to save reaction" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
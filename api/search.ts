@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireViewer } from "./_lib/auth.js";
+import { isPublished, isTrashed, memoryTags } from "./_lib/memories.js";
+import { findEntries, loadEntries, searchableText } from "./_lib/search.js";
+import { getUnlockedThrough } from "./_lib/unlock.js";
+import { matchesQuery, queryTerms } from "../src/search.js";
+
+const MAX_RESULTS = 50;
+// Entries read to fill the results; matches past this many are left out
+const MAX_CANDIDATES = 200;
+const SNIPPET_LENGTH = 160;
+
+/** About SNIPPET_LENGTH characters of `text` around its first match, "…" where it's cut. */
+function snippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  let start = 0;
+  for (const match of flat.matchAll(/[\p{L}\p{N}'’]+/gu)) {
+    if (matchesQuery(match[0], terms)) {
+      start = Math.max(0, match.index - SNIPPET_LENGTH / 3);
+      break;
+    }
+  }
+  // Start and end on word boundaries
+  if (start > 0) start = flat.indexOf(" ", start) + 1;
+  let end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  if (end < flat.length) end = flat.lastIndexOf(" ", end);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // --- GET: ?q= searches memory text and tags for viewers and admins (a share
+  // link's session gets 401). Every word must match, as a prefix of a word in the memory
+  // after stemming. Answers { results: [{ date, id, type, snippet, tags? }], terms },
+  // newest first; viewers only get unlocked, published memories, with no hint of
+  // locked ones ---
+  if (req.method === "GET") {
+    const session = await requireViewer(req, res);
+    if (!session) return;
+
+    const q = req.query.q;
+    const query = (Array.isArray(q) ? q[0] : q) || "";
+    const terms = queryTerms(query);
+    if (terms.length === 0) {
+      return res.status(400).json({ error: "q needs a word of at least 2 letters" });
+    }
+
+    const unlockedThrough = session.role === "admin" ? null : getUnlockedThrough();
+    const visible = (item: Record<string, unknown>) =>
+      !isTrashed(item) &&
+      (unlockedThrough === null ||
+        (isPublished(item) && (item.date_id as string) <= unlockedThrough));
+
+    res.setHeader("Vary", "Cookie");
+    res.setHeader(
+      "Cache-Control",
+      session.role === "admin" ? "private, no-store" : "private, max-age=60"
+    );
+    try {
+      const paths = await findEntries(terms);
+      // Locked days are skipped before they're read, so they can't crowd out the rest
+      const candidates = paths
+        .filter((path) => unlockedThrough === null || path.slice(0, 10) <= unlockedThrough)
+        .slice(0, MAX_CANDIDATES);
+      const items = (await loadEntries(candidates)).filter(visible).slice(0, MAX_RESULTS);
+      const results = items.map((item) => {
+        const tags = memoryTags(item);
+        return {
+          date: item.date_id as string,
+          id: item.entry_id as string,
+          type: item.type,
+          snippet: snippet(searchableText(item), terms),
+          tags: tags.length > 0 ? tags : undefined,
+        };
+      });
+      return res.status(200).json({ results, terms });
+    } catch (error) {
+      console.error("Search error:", error);
+      return res.status(500).json({ error: "Failed to search memories" });
+    }
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
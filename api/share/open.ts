@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getShareSessionFromRequest, startSession, verifyCsrf } from "../_lib/auth.js";
+import { openShareLink, shareLinkId, shareSubject } from "../_lib/shareLinks.js";
+
+/**
+ * Opens a share link ({ token }) and starts a read-only session for its day.
+ * Reloading with a session for the same link doesn't use up another view.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!verifyCsrf(req, res)) return;
+
+  res.setHeader("Cache-Control", "no-store");
+
+  const token = typeof req.body?.token === "string" ? req.body.token : "";
+  if (!token) {
+    return res.status(400).json({ error: "Missing required field: token" });
+  }
+
+  try {
+    const existing = await getShareSessionFromRequest(req);
+    const linkId = shareLinkId(token);
+    const alreadyOpen = linkId !== null && (existing?.sub.startsWith(`share:${linkId}:`) ?? false);
+
+    const link = await openShareLink(token, !alreadyOpen);
+    if (link === "invalid") {
+      return res.status(404).json({ error: "Share link not found" });
+    }
+    if (link === "unavailable") {
+      return res.status(410).json({ error: "This share link has expired" });
+    }
+
+    if (!alreadyOpen) {
+      const maxAge = link.expiresAt - Math.floor(Date.now() / 1000);
+      await startSession(req, res, "share", shareSubject(link.id, link.date), maxAge);
+    }
+    return res.status(200).json({ date: link.date, expiresAt: link.expiresAt });
+  } catch (error) {
+    console.error("Share link open error:", error);
+    return res.status(500).json({ error: "Failed to open share link" });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Minimal client for the app's admin API, used by the scripts in this folder
+ * when they run with an API token instead of AWS credentials.
+ *
+ * Env:
+ *   VALENTINE_API_URL    – deployed site, e.g. https://our-site.vercel.app
+ *   VALENTINE_API_TOKEN  – token created in the admin dashboard (vst_...)
+ *
+ * Each script needs a token with the right scope:
+ *   delete-live-photo-mp4 → media:delete
+ *   build/prune index     → index:rebuild
+ *
+ * Requests name the running script in X-Audit-Source, so its changes show up
+ * under that name in the admin activity log.
+ */
+
+import { basename } from "path";
+
+const API_URL = (process.env.VALENTINE_API_URL || "").replace(/\/+$/, "");
+const API_TOKEN = process.env.VALENTINE_API_TOKEN || "";
+const SCRIPT_NAME = basename(process.argv[1] || "script").replace(/\.[cm]?[jt]s$/, "");
+
+export function apiEnabled(): boolean {
+  return Boolean(API_URL && API_TOKEN);
+}
+
+export function apiUrl(): string {
+  return API_URL;
+}
+
+async function apiRequest<T>(
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const res = await fetch(`${API_URL}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${API_TOKEN}`,
+      "X-Audit-Source": SCRIPT_NAME,
+      ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(`${init.method || "GET"} ${path} failed (${res.status}): ${data.error || "unknown error"}`);
+  }
+  return data as T;
+}
+
+/** All media keys for a source, without EXIF reads. */
+export async function listMediaKeys(source: "processed" | "originals" | "all"): Promise<string[]> {
+  const params = new URLSearchParams({ source, keysOnly: "1" });
+  const data = await apiRequest<{ keys: string[] }>(`/api/admin/photos?${params.toString()}`);
+  return data.keys;
+}
+
+export async function deleteMediaKeys(
+  keys: string[],
+  reason?: string
+): Promise<{
+  deleted: string[];
+  errors?: { key?: string; code?: string; message?: string }[];
+}> {
+  return apiRequest("/api/admin/photos/delete", { method: "POST", body: { keys, reason } });
+}
+
+export async function getMediaIndex(): Promise<Record<string, string[]>> {
+  return apiRequest("/api/admin/media-index");
+}
+
+export async function putMediaIndex(index: Record<string, string[]>): Promise<void> {
+  await apiRequest("/api/admin/media-index", { method: "PUT", body: index });
+}
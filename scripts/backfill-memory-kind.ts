@@ -0,0 +1,85 @@
+/**
+ * Backfill kind = "memory" on memories saved before the date index existed.
+ *
+ * GET /api/memories reads through the by_date GSI (partition key: kind, sort
+ * key: date_id), and DynamoDB leaves items without `kind` out of the index.
+ * This scans the memories table once and sets the attribute where it's missing.
+ * Safe to run more than once.
+ *
+ * Env: AWS_ACCESS_KEY_ID_DYNAMO, AWS_SECRET_ACCESS_KEY_DYNAMO, AWS_REGION,
+ * DYNAMODB_TABLE_NAME. Loads .env via dotenv.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-memory-kind.ts
+ *   npx tsx scripts/backfill-memory-kind.ts --dry-run
+ */
+
+import "dotenv/config";
+import { ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { docClient, MEMORIES_TABLE } from "../api/_lib/dynamo.js";
+import { MEMORY_KIND } from "../api/_lib/memories.js";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log("Backfill memory kind");
+  console.log("  Table:           ", MEMORIES_TABLE);
+  console.log("  Dry run:         ", dryRun);
+  console.log("");
+
+  let scanned = 0;
+  let updated = 0;
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: MEMORIES_TABLE,
+        ProjectionExpression: "date_id, entry_id, #k",
+        ExpressionAttributeNames: { "#k": "kind" },
+        ExclusiveStartKey: startKey,
+      })
+    );
+
+    for (const item of result.Items || []) {
+      scanned++;
+      // Already "memory", or "trash" for deleted ones
+      if (item.kind) continue;
+
+      updated++;
+      if (dryRun) {
+        console.log(`  Would update: ${item.date_id}/${item.entry_id}`);
+        continue;
+      }
+
+      try {
+        await docClient.send(
+          new UpdateCommand({
+            TableName: MEMORIES_TABLE,
+            Key: { date_id: item.date_id, entry_id: item.entry_id },
+            UpdateExpression: "SET #k = :kind",
+            ConditionExpression: "attribute_exists(date_id) AND attribute_not_exists(#k)",
+            ExpressionAttributeNames: { "#k": "kind" },
+            ExpressionAttributeValues: { ":kind": MEMORY_KIND },
+          })
+        );
+        console.log(`  Updated: ${item.date_id}/${item.entry_id}`);
+      } catch (err) {
+        // Deleted or saved between the scan and the update
+        if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+        updated--;
+      }
+    }
+
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  console.log("");
+  console.log(`Scanned ${scanned} memories.`);
+  console.log(dryRun ? `Would update ${updated}.` : `Updated ${updated}.`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
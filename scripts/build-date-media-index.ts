@@ -10,6 +10,9 @@
  *
  * Env: AWS_ACCESS_KEY_ID_DYNAMO, AWS_SECRET_ACCESS_KEY_DYNAMO, AWS_REGION, S3_BUCKET_NAME
  * Optional: S3_PROCESSED_PREFIX (default: "processed/")
+ * Or, instead of the AWS keys: VALENTINE_API_URL + VALENTINE_API_TOKEN (scope
+ * index:rebuild). Media is then read through its public URL and the index is
+ * uploaded through the admin API.
  *
  * Usage:
  *   npx tsx scripts/build-date-media-index.ts
@@ -30,6 +33,8 @@ import { mkdtempSync, rmSync, createWriteStream } from "fs";
 import { Readable } from "stream";
 import { pipeline } from "stream/promises";
 import { spawn } from "child_process";
+import { recordAudit, scriptActor, summarizeMediaIndex } from "../api/_lib/audit.js";
+import { apiEnabled, apiUrl, listMediaKeys, putMediaIndex } from "./api-client";
 
 const BUCKET = process.env.S3_BUCKET_NAME || "";
 const REGION = process.env.AWS_REGION || "us-west-1";
@@ -64,6 +69,42 @@ function isWebMedia(key: string): boolean {
   return WEB_IMAGE_EXTS.has(ext) || WEB_VIDEO_EXTS.has(ext);
 }
 
+function objectUrl(key: string): string {
+  const encodedPath = key
+    .split("/")
+    .map((part) => encodeURIComponent(part))
+    .join("/");
+  return `https://${BUCKET}.s3.${REGION}.amazonaws.com/${encodedPath}`;
+}
+
+/**
+ * First 64KB of an object – enough for EXIF. Uses the public object URL in
+ * API mode (no AWS credentials), S3 otherwise.
+ */
+async function readObjectHead(key: string): Promise<Buffer | null> {
+  if (apiEnabled()) {
+    const res = await fetch(objectUrl(key), { headers: { Range: "bytes=0-65535" } });
+    if (!res.ok) return null;
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  const res = await s3.send(
+    new GetObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+      Range: "bytes=0-65535", // first 64KB is enough for EXIF
+    })
+  );
+
+  if (!res.Body) return null;
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of res.Body as AsyncIterable<Uint8Array>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
 function formatDate(d: Date): string {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
     d.getDate()
@@ -95,21 +136,8 @@ async function getImageExifDate(
   preferredTags: string[]
 ): Promise<string | null> {
   try {
-    const res = await s3.send(
-      new GetObjectCommand({
-        Bucket: BUCKET,
-        Key: key,
-        Range: "bytes=0-65535", // first 64KB is enough for EXIF
-      })
-    );
-
-    if (!res.Body) return null;
-
-    const chunks: Uint8Array[] = [];
-    for await (const chunk of res.Body as AsyncIterable<Uint8Array>) {
-      chunks.push(chunk);
-    }
-    const buffer = Buffer.concat(chunks);
+    const buffer = await readObjectHead(key);
+    if (!buffer) return null;
 
     const exif = await exifr.parse(buffer, {
       pick: preferredTags,
@@ -134,11 +162,50 @@ async function getImageExifDate(
   }
 }
 
+/**
+ * Run ffprobe on a local path or URL and parse the video stream's creation_time.
+ */
+async function parseFfprobeCreationDate(key: string, input: string): Promise<string | null> {
+  const { stdout, stderr, code } = await runFfprobe([
+    "-v",
+    "quiet",
+    "-select_streams",
+    "v:0",
+    "-show_entries",
+    "stream_tags=creation_time",
+    "-of",
+    "default=noprint_wrappers=1:nokey=1",
+    input,
+  ]);
+
+  if (code !== 0) {
+    if (stderr.trim()) {
+      console.warn("ffprobe failed for", key, ":", stderr.trim());
+    }
+    return null;
+  }
+
+  const line = stdout.trim().split(/\r?\n/)[0]?.trim();
+  if (!line) return null;
+
+  const dt = new Date(line);
+  if (!isNaN(dt.getTime())) {
+    return formatDate(dt);
+  }
+
+  return null;
+}
+
 /**
  * Use ffprobe to extract the container-level creation_time for a video.
  * Falls back to null if ffprobe is unavailable or the tag is missing.
  */
 async function getVideoCreationDateViaFfprobe(key: string): Promise<string | null> {
+  // ffprobe can read the public URL directly, no download needed
+  if (apiEnabled()) {
+    return parseFfprobeCreationDate(key, objectUrl(key));
+  }
+
   // Download the object to a temporary file
   const res = await s3.send(
     new GetObjectCommand({
@@ -155,35 +222,7 @@ async function getVideoCreationDateViaFfprobe(key: string): Promise<string | nul
 
   try {
     await streamToFile(res.Body as any, tmpPath);
-
-    const { stdout, stderr, code } = await runFfprobe([
-      "-v",
-      "quiet",
-      "-select_streams",
-      "v:0",
-      "-show_entries",
-      "stream_tags=creation_time",
-      "-of",
-      "default=noprint_wrappers=1:nokey=1",
-      tmpPath,
-    ]);
-
-    if (code !== 0) {
-      if (stderr.trim()) {
-        console.warn("ffprobe failed for", key, ":", stderr.trim());
-      }
-      return null;
-    }
-
-    const line = stdout.trim().split(/\r?\n/)[0]?.trim();
-    if (!line) return null;
-
-    const dt = new Date(line);
-    if (!isNaN(dt.getTime())) {
-      return formatDate(dt);
-    }
-
-    return null;
+    return await parseFfprobeCreationDate(key, tmpPath);
   } catch (err) {
     console.warn("ffprobe error for", key, ":", (err as Error).message);
     return null;
@@ -199,33 +238,43 @@ async function getVideoCreationDateViaFfprobe(key: string): Promise<string | nul
 async function main() {
   const dryRun = process.argv.includes("--dry-run");
 
+  const useApi = apiEnabled();
+
   console.log("Building date → media index");
   console.log("  Bucket:          ", BUCKET);
+  if (useApi) console.log("  API:             ", apiUrl());
   console.log("  Processed prefix:", PROCESSED_PREFIX);
   console.log("  Dry run:         ", dryRun);
   console.log("");
 
   // 1. List all web-displayable media under the processed/ prefix
   const objects: { key: string; lastModified: Date | undefined }[] = [];
-  let token: string | undefined;
-
-  do {
-    const result = await s3.send(
-      new ListObjectsV2Command({
-        Bucket: BUCKET,
-        Prefix: PROCESSED_PREFIX,
-        ContinuationToken: token,
-      })
-    );
-
-    for (const obj of result.Contents || []) {
-      if (!obj.Key) continue;
-      if (!isWebMedia(obj.Key)) continue;
-      objects.push({ key: obj.Key, lastModified: obj.LastModified });
+  if (useApi) {
+    // The API listing has no LastModified, so undated videos are skipped
+    for (const key of await listMediaKeys("processed")) {
+      if (isWebMedia(key)) objects.push({ key, lastModified: undefined });
     }
+  } else {
+    let token: string | undefined;
+
+    do {
+      const result = await s3.send(
+        new ListObjectsV2Command({
+          Bucket: BUCKET,
+          Prefix: PROCESSED_PREFIX,
+          ContinuationToken: token,
+        })
+      );
+
+      for (const obj of result.Contents || []) {
+        if (!obj.Key) continue;
+        if (!isWebMedia(obj.Key)) continue;
+        objects.push({ key: obj.Key, lastModified: obj.LastModified });
+      }
 
-    token = result.NextContinuationToken;
-  } while (token);
+      token = result.NextContinuationToken;
+    } while (token);
+  }
 
   console.log(`Found ${objects.length} web media object(s) to index.`);
   if (objects.length === 0) {
@@ -276,15 +325,8 @@ async function main() {
     for (const { key, date } of results) {
       if (!date) continue; // skip undated media
 
-      const encodedPath = key
-        .split("/")
-        .map((part) => encodeURIComponent(part))
-        .join("/");
-
-      const url = `https://${BUCKET}.s3.${REGION}.amazonaws.com/${encodedPath}`;
-
       if (!index[date]) index[date] = [];
-      index[date].push(url);
+      index[date].push(objectUrl(key));
     }
   }
 
@@ -303,6 +345,12 @@ async function main() {
     return;
   }
 
+  if (useApi) {
+    await putMediaIndex(index);
+    console.log("Uploaded date-media index.");
+    return;
+  }
+
   await s3.send(
     new PutObjectCommand({
       Bucket: BUCKET,
@@ -311,6 +359,9 @@ async function main() {
       ContentType: "application/json",
     })
   );
+  await recordAudit(scriptActor("build-date-media-index"), "media_index.update", indexKey, {
+    after: summarizeMediaIndex(index),
+  });
 
   console.log("Uploaded date-media index.");
 }
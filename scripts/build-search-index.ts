@@ -0,0 +1,76 @@
+/**
+ * Build (or repair) the full-text search index from the memories table.
+ *
+ * Saves keep the index up to date as they happen (see api/_lib/search.ts).
+ * This is for memories saved before search existed, for saves whose index
+ * update failed, and for entries the trash TTL purged. It scans both tables,
+ * writes the index items that are missing and deletes the ones no memory
+ * accounts for. Safe to run more than once.
+ *
+ * Env: AWS_ACCESS_KEY_ID_DYNAMO, AWS_SECRET_ACCESS_KEY_DYNAMO, AWS_REGION,
+ * DYNAMODB_TABLE_NAME, DYNAMODB_SEARCH_INDEX_TABLE. Loads .env via dotenv.
+ *
+ * Usage:
+ *   npx tsx scripts/build-search-index.ts
+ *   npx tsx scripts/build-search-index.ts --dry-run
+ */
+
+import "dotenv/config";
+import { ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { docClient, MEMORIES_TABLE, SEARCH_INDEX_TABLE } from "../api/_lib/dynamo.js";
+import { type IndexItem, indexItems, writeIndexChanges } from "../api/_lib/search.js";
+
+async function scanAll(table: string, projection?: string): Promise<Record<string, unknown>[]> {
+  const items: Record<string, unknown>[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: table, ProjectionExpression: projection, ExclusiveStartKey: startKey })
+    );
+    items.push(...(result.Items || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log("Build search index");
+  console.log("  Memories table:  ", MEMORIES_TABLE);
+  console.log("  Index table:     ", SEARCH_INDEX_TABLE);
+  console.log("  Dry run:         ", dryRun);
+  console.log("");
+
+  // Trashed memories stay indexed so a restore finds them again; search skips them
+  const memories = await scanAll(MEMORIES_TABLE);
+  const wanted = new Map<string, IndexItem>();
+  for (const item of memories) {
+    for (const entry of indexItems(item)) wanted.set(entry.term_key, entry);
+  }
+
+  const existing = await scanAll(SEARCH_INDEX_TABLE, "term_prefix, term_key");
+  const present = new Set(existing.map((item) => item.term_key as string));
+  const puts = [...wanted.values()].filter((item) => !present.has(item.term_key));
+  const deletes = (existing as unknown as IndexItem[]).filter((item) => !wanted.has(item.term_key));
+
+  if (dryRun) {
+    for (const item of puts) console.log(`  Would add:    ${item.term_key}`);
+    for (const item of deletes) console.log(`  Would remove: ${item.term_key}`);
+  } else {
+    await writeIndexChanges(puts, deletes);
+  }
+
+  console.log("");
+  console.log(`Scanned ${memories.length} memories and ${existing.length} index items.`);
+  console.log(
+    dryRun
+      ? `Would add ${puts.length} and remove ${deletes.length}.`
+      : `Added ${puts.length}, removed ${deletes.length}.`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
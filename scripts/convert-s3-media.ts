@@ -3,9 +3,10 @@
  *
  * Downloads photos/videos from S3, converts to smaller size while preserving
  * metadata (EXIF date, location), and uploads copies to a separate prefix.
+ * Voice notes become AAC .m4a, which every browser can play.
  * Originals are left intact so you can delete them after confirming.
  *
- * Requires: Node 18+, ffmpeg in PATH (for video). Optional: sharp, heic-jpg-exif for images.
+ * Requires: Node 18+, ffmpeg in PATH (for video and audio). Optional: sharp, heic-jpg-exif for images.
  *
  * Env: AWS_ACCESS_KEY_ID_DYNAMO, AWS_SECRET_ACCESS_KEY_DYNAMO, AWS_REGION, S3_BUCKET_NAME
  * Optional: S3_SOURCE_PREFIX (default: ""), S3_PROCESSED_PREFIX (default: "processed/")
@@ -21,6 +22,8 @@ import { join } from "path";
 import { Readable } from "stream";
 import { spawn } from "child_process";
 import { pipeline } from "stream/promises";
+import { recordAudit, scriptActor } from "../api/_lib/audit.js";
+import { AUDIO_EXTENSIONS, AUDIO_PREFIX } from "../src/validation.js";
 
 const BUCKET = process.env.S3_BUCKET_NAME || "";
 const REGION = process.env.AWS_REGION || "us-west-1";
@@ -43,6 +46,7 @@ const MAX_IMAGE_PX = 1920;
 const JPEG_QUALITY = 85;
 const VIDEO_CRF = 28;
 const VIDEO_AUDIO_BITRATE = "128k";
+const VOICE_BITRATE = "96k";
 
 function isImage(key: string): boolean {
   const lower = key.toLowerCase();
@@ -54,8 +58,14 @@ function isVideo(key: string): boolean {
   return [...VIDEO_EXT].some((ext) => lower.endsWith(ext));
 }
 
+// Recordings under audio/ may be .webm, which elsewhere would be video
+function isAudio(key: string): boolean {
+  const lower = key.toLowerCase();
+  return lower.startsWith(AUDIO_PREFIX) || AUDIO_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
 function isSupported(key: string): boolean {
-  return isImage(key) || isVideo(key);
+  return isImage(key) || isVideo(key) || isAudio(key);
 }
 
 function getExt(key: string): string {
@@ -149,8 +159,30 @@ async function convertVideo(inputPath: string, outputPath: string): Promise<void
   }
 }
 
+async function convertAudio(inputPath: string, outputPath: string): Promise<void> {
+  const { stdout, stderr, code } = await runFfmpeg([
+    "-y",
+    "-i",
+    inputPath,
+    "-map_metadata",
+    "0",
+    "-vn",
+    "-c:a",
+    "aac",
+    "-b:a",
+    VOICE_BITRATE,
+    "-movflags",
+    "+faststart",
+    outputPath,
+  ]);
+  if (code !== 0) {
+    throw new Error(`ffmpeg failed (${code}): ${stderr || stdout}`);
+  }
+}
+
 function outputKey(sourceKey: string, ext: string): string {
   const base = sourceKey.slice(0, sourceKey.length - ext.length);
+  if (isAudio(sourceKey)) return `${base}.m4a`;
   if (ext === ".heic") return `${base}.jpg`;
   if (ext === ".mov") return `${base}.mp4`;
   return sourceKey;
@@ -195,6 +227,7 @@ async function main() {
   }
 
   const tmpDir = mkdtempSync(join(tmpdir(), "s3-convert-"));
+  const uploaded: string[] = [];
   try {
     for (let i = 0; i < list.length; i++) {
       const key = list[i];
@@ -214,11 +247,13 @@ async function main() {
       }
 
       const inputPath = join(tmpDir, `in${ext}`);
-      const outputPath = join(tmpDir, `out${ext === ".heic" ? ".jpg" : ext === ".mov" ? ".mp4" : ext}`);
+      const outputPath = join(tmpDir, `out${getExt(outputKey(key, ext))}`);
       await streamToFile(body as Readable, inputPath);
 
       try {
-        if (isImage(key)) {
+        if (isAudio(key)) {
+          await convertAudio(inputPath, outputPath);
+        } else if (isImage(key)) {
           await convertImage(inputPath, outputPath, ext);
         } else {
           await convertVideo(inputPath, outputPath);
@@ -229,8 +264,9 @@ async function main() {
       }
 
       const outBuf = readFileSync(outputPath);
-      const contentType =
-        ext === ".heic"
+      const contentType = isAudio(key)
+        ? "audio/mp4"
+        : ext === ".heic"
           ? "image/jpeg"
           : ext === ".mov"
             ? "video/mp4"
@@ -252,12 +288,21 @@ async function main() {
           ContentType: contentType,
         })
       );
+      uploaded.push(outKey);
       const inSize = statSync(inputPath).size;
       const outSize = statSync(outputPath).size;
       console.log(`  Uploaded ${(outSize / 1024).toFixed(1)} KB (was ${(inSize / 1024).toFixed(1)} KB)`);
     }
   } finally {
     rmSync(tmpDir, { recursive: true, force: true });
+    // Logged even if a later file failed, so the uploads that did happen are
+    // recorded. Batches of 1000 keys keep each entry well under DynamoDB's item limit.
+    for (let i = 0; i < uploaded.length; i += 1000) {
+      const batch = uploaded.slice(i, i + 1000);
+      await recordAudit(scriptActor("convert-s3-media"), "media.upload", `${batch.length} file(s)`, {
+        after: { keys: batch },
+      });
+    }
   }
 
   console.log("");
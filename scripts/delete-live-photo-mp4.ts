@@ -5,6 +5,8 @@
  * This script finds every .mp4 and .mov that has a matching .jpg/.jpeg and deletes the video.
  *
  * Env: Same as convert-s3-media (S3_BUCKET_NAME, AWS_*, etc.). Loads .env via dotenv.
+ * Or set VALENTINE_API_URL + VALENTINE_API_TOKEN (scope media:delete) to go
+ * through the admin API instead of using AWS credentials.
  *
  * Usage:
  *   npx tsx scripts/delete-live-photo-mp4.ts [--dry-run] [--prefix path/]
@@ -12,8 +14,11 @@
 
 import "dotenv/config";
 import { S3Client, ListObjectsV2Command, DeleteObjectsCommand } from "@aws-sdk/client-s3";
+import { recordAudit, scriptActor } from "../api/_lib/audit.js";
+import { apiEnabled, apiUrl, deleteMediaKeys, listMediaKeys } from "./api-client";
 
 const BUCKET = process.env.S3_BUCKET_NAME || "";
+const AUDIT_REASON = "Live-photo video companions";
 const REGION = process.env.AWS_REGION || "us-east-1";
 
 const s3 = new S3Client({
@@ -46,32 +51,38 @@ async function main() {
   const prefixArg = process.argv.find((a) => a.startsWith("--prefix="));
   const prefix = prefixArg ? prefixArg.slice("--prefix=".length) : process.env.S3_SOURCE_PREFIX ?? "";
 
-  if (!BUCKET) {
+  const useApi = apiEnabled();
+
+  if (!BUCKET && !useApi) {
     console.error("Set S3_BUCKET_NAME in the environment (e.g. from .env).");
     process.exit(1);
   }
 
   console.log("Delete Live Photo .mp4 companions");
-  console.log("  Bucket:", BUCKET);
+  console.log("  Bucket:", useApi ? `(via ${apiUrl()})` : BUCKET);
   console.log("  Prefix:", prefix || "(root)");
   console.log("  Dry run:", dryRun);
   console.log("");
 
   const allKeys: string[] = [];
-  let token: string | undefined;
-  do {
-    const result = await s3.send(
-      new ListObjectsV2Command({
-        Bucket: BUCKET,
-        Prefix: prefix || undefined,
-        ContinuationToken: token,
-      })
-    );
-    for (const obj of result.Contents || []) {
-      if (obj.Key) allKeys.push(obj.Key);
-    }
-    token = result.NextContinuationToken;
-  } while (token);
+  if (useApi) {
+    allKeys.push(...(await listMediaKeys("all")).filter((k) => k.startsWith(prefix)));
+  } else {
+    let token: string | undefined;
+    do {
+      const result = await s3.send(
+        new ListObjectsV2Command({
+          Bucket: BUCKET,
+          Prefix: prefix || undefined,
+          ContinuationToken: token,
+        })
+      );
+      for (const obj of result.Contents || []) {
+        if (obj.Key) allKeys.push(obj.Key);
+      }
+      token = result.NextContinuationToken;
+    } while (token);
+  }
 
   const jpgBases = new Set<string>();
   for (const key of allKeys) {
@@ -106,22 +117,38 @@ async function main() {
   let deleted = 0;
   for (let i = 0; i < toDelete.length; i += batchSize) {
     const batch = toDelete.slice(i, i + batchSize);
-    const result = await s3.send(
-      new DeleteObjectsCommand({
-        Bucket: BUCKET,
-        Delete: {
-          Objects: batch.map((Key) => ({ Key })),
-          Quiet: false,
-        },
-      })
-    );
-    const count = (result.Deleted || []).length;
-    deleted += count;
-    if (result.Errors?.length) {
-      for (const e of result.Errors) {
-        console.error("  Error:", e.Key, e.Code, e.Message);
+    let count: number;
+    if (useApi) {
+      const result = await deleteMediaKeys(batch, AUDIT_REASON);
+      count = result.deleted.length;
+      for (const e of result.errors || []) {
+        console.error("  Error:", e.key, e.code, e.message);
+      }
+    } else {
+      const result = await s3.send(
+        new DeleteObjectsCommand({
+          Bucket: BUCKET,
+          Delete: {
+            Objects: batch.map((Key) => ({ Key })),
+            Quiet: false,
+          },
+        })
+      );
+      const deletedKeys = (result.Deleted || []).map((o) => o.Key).filter(Boolean) as string[];
+      count = deletedKeys.length;
+      if (count > 0) {
+        await recordAudit(scriptActor("delete-live-photo-mp4"), "media.delete", `${count} file(s)`, {
+          before: { keys: deletedKeys },
+          reason: AUDIT_REASON,
+        });
+      }
+      if (result.Errors?.length) {
+        for (const e of result.Errors) {
+          console.error("  Error:", e.Key, e.Code, e.Message);
+        }
       }
     }
+    deleted += count;
     console.log(`Deleted batch: ${count} (total ${deleted}/${toDelete.length})`);
   }
 
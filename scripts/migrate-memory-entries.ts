@@ -0,0 +1,162 @@
+/**
+ * Copy memories from the one-memory-per-day table into the entries table.
+ *
+ * The old table's only key is date_id, so each day could hold one memory.
+ * The entries table (DYNAMODB_TABLE_NAME) adds the sort key entry_id; each
+ * old memory becomes its day's first entry, with entry_id "0" and
+ * position 0. Trashed memories keep their kind, deleted_at and purge_at.
+ * Earlier versions move the same way, from the history table keyed by
+ * date_id to the one keyed by entry_key ("<date>/0").
+ *
+ * It's safe to run more than once (e.g. again right before switching the app
+ * over): a memory already copied is replaced only if the old table has a newer
+ * version of it (every save, trash and restore bumps `version`). Revisions are
+ * never edited, so those already copied are left alone. Memories purged from
+ * the old table between runs stay in the new one; purge them again there.
+ *
+ * Env: AWS_ACCESS_KEY_ID_DYNAMO, AWS_SECRET_ACCESS_KEY_DYNAMO, AWS_REGION,
+ * DYNAMODB_TABLE_NAME, DYNAMODB_MEMORY_HISTORY_TABLE. Loads .env via dotenv.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-memory-entries.ts --dry-run
+ *   npx tsx scripts/migrate-memory-entries.ts
+ *   npx tsx scripts/migrate-memory-entries.ts --from=valentine_memories --from-history=valentine_memory_history
+ */
+
+import "dotenv/config";
+import { PutCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { docClient, MEMORIES_TABLE, MEMORY_HISTORY_TABLE } from "../api/_lib/dynamo.js";
+import { entryPath, MEMORY_KIND } from "../api/_lib/memories.js";
+
+const MIGRATED_ENTRY_ID = "0";
+
+function flag(name: string, fallback: string): string {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : fallback;
+}
+
+/**
+ * Scans `source` and puts each item, as `convert` shapes it, into `target`
+ * unless an item with that key is already there. With `versioned`, an item
+ * that's there is replaced when the source's `version` is higher. Returns
+ * [copied, skipped].
+ */
+async function copyTable(
+  source: string,
+  target: string,
+  keyAttribute: string,
+  convert: (item: Record<string, unknown>) => Record<string, unknown>,
+  dryRun: boolean,
+  versioned = false
+): Promise<[number, number]> {
+  let copied = 0;
+  let skipped = 0;
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: source, ExclusiveStartKey: startKey })
+    );
+
+    for (const item of result.Items || []) {
+      const converted = convert(item);
+      const label = `${converted[keyAttribute]}${"version" in item ? ` v${item.version}` : ""}`;
+      if (dryRun) {
+        console.log(`  Would copy: ${label}`);
+        copied++;
+        continue;
+      }
+
+      const newer = versioned && typeof item.version === "number";
+      try {
+        const result = await docClient.send(
+          new PutCommand({
+            TableName: target,
+            Item: converted,
+            ConditionExpression: newer
+              ? `attribute_not_exists(${keyAttribute}) OR attribute_not_exists(#v) OR #v < :v`
+              : `attribute_not_exists(${keyAttribute})`,
+            ExpressionAttributeNames: newer ? { "#v": "version" } : undefined,
+            ExpressionAttributeValues: newer ? { ":v": item.version } : undefined,
+            ReturnValues: "ALL_OLD",
+          })
+        );
+        console.log(`  ${result.Attributes ? "Updated" : "Copied"}: ${label}`);
+        copied++;
+      } catch (err) {
+        if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+        skipped++;
+      }
+    }
+
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return [copied, skipped];
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const fromTable = flag("from", "valentine_memories");
+  const fromHistory = flag("from-history", "valentine_memory_history");
+
+  if (fromTable === MEMORIES_TABLE || fromHistory === MEMORY_HISTORY_TABLE) {
+    console.error("Source and target tables must differ: set DYNAMODB_TABLE_NAME and");
+    console.error("DYNAMODB_MEMORY_HISTORY_TABLE to the new tables (or pass --from / --from-history).");
+    process.exit(1);
+  }
+
+  console.log("Migrate memories to entries");
+  console.log("  Memories:        ", fromTable, "→", MEMORIES_TABLE);
+  console.log("  History:         ", fromHistory, "→", MEMORY_HISTORY_TABLE);
+  console.log("  Dry run:         ", dryRun);
+  console.log("");
+
+  const [memories, memoriesSkipped] = await copyTable(
+    fromTable,
+    MEMORIES_TABLE,
+    "date_id",
+    (item) => ({
+      ...item,
+      entry_id: MIGRATED_ENTRY_ID,
+      position: 0,
+      // Items saved before the date index existed have no kind yet
+      kind: item.kind ?? MEMORY_KIND,
+    }),
+    dryRun,
+    true
+  );
+
+  let revisions = 0;
+  let revisionsSkipped = 0;
+  try {
+    [revisions, revisionsSkipped] = await copyTable(
+      fromHistory,
+      MEMORY_HISTORY_TABLE,
+      "entry_key",
+      (item) => ({
+        ...item,
+        entry_key: entryPath(item.date_id as string, MIGRATED_ENTRY_ID),
+        entry_id: MIGRATED_ENTRY_ID,
+      }),
+      dryRun
+    );
+  } catch (err) {
+    // Revision history is optional; without its table there's nothing to move
+    if ((err as Error).name !== "ResourceNotFoundException") throw err;
+    console.log(`  No table ${fromHistory}; skipping history.`);
+  }
+
+  console.log("");
+  console.log(
+    dryRun
+      ? `Would copy ${memories} memories and ${revisions} revisions.`
+      : `Copied ${memories} memories and ${revisions} revisions ` +
+          `(${memoriesSkipped + revisionsSkipped} already up to date).`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
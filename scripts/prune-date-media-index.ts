@@ -6,6 +6,8 @@
  * the entire index from scratch.
  *
  * Env: Same as build-date-media-index (S3_BUCKET_NAME, AWS_*, etc.). Loads .env via dotenv.
+ * Or set VALENTINE_API_URL + VALENTINE_API_TOKEN (scope index:rebuild) to go
+ * through the admin API instead of using AWS credentials.
  *
  * Usage:
  *   npx tsx scripts/prune-date-media-index.ts
@@ -19,12 +21,14 @@ import {
   PutObjectCommand,
   HeadObjectCommand,
 } from "@aws-sdk/client-s3";
+import { recordAudit, scriptActor, summarizeMediaIndex } from "../api/_lib/audit.js";
+import { apiEnabled, apiUrl, getMediaIndex, listMediaKeys, putMediaIndex } from "./api-client";
 
 const BUCKET = process.env.S3_BUCKET_NAME || "";
 const REGION = process.env.AWS_REGION || "us-east-1";
 const PROCESSED_PREFIX = process.env.S3_PROCESSED_PREFIX ?? "processed/";
 
-if (!BUCKET) {
+if (!BUCKET && !apiEnabled()) {
   console.error("Set S3_BUCKET_NAME in the environment (e.g. from .env).");
   process.exit(1);
 }
@@ -77,17 +81,10 @@ async function objectExists(key: string): Promise<boolean> {
   }
 }
 
-async function main() {
-  const dryRun = process.argv.includes("--dry-run");
-
-  console.log("Prune date-media index");
-  console.log("  Bucket:          ", BUCKET);
-  console.log("  Index key:       ", INDEX_KEY);
-  console.log("  Dry run:         ", dryRun);
-  console.log("");
-
-  // 1. Load existing index
-  let index: Record<string, string[]>;
+/**
+ * Load the current index straight from S3.
+ */
+async function loadIndexFromS3(): Promise<Record<string, string[]>> {
   try {
     const res = await s3.send(
       new GetObjectCommand({
@@ -108,11 +105,12 @@ async function main() {
     const buffer = Buffer.concat(chunks);
     const text = buffer.toString("utf-8");
 
-    index = JSON.parse(text);
+    const index = JSON.parse(text);
     if (!index || typeof index !== "object") {
       console.error("Invalid index JSON.");
       process.exit(1);
     }
+    return index;
   } catch (err: any) {
     if (err.name === "NoSuchKey" || err.$metadata?.httpStatusCode === 404) {
       console.error("Index file not found. Run build-index first.");
@@ -120,12 +118,37 @@ async function main() {
     }
     throw err;
   }
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const useApi = apiEnabled();
+
+  console.log("Prune date-media index");
+  console.log("  Bucket:          ", useApi ? `(via ${apiUrl()})` : BUCKET);
+  console.log("  Index key:       ", INDEX_KEY);
+  console.log("  Dry run:         ", dryRun);
+  console.log("");
+
+  // 1. Load existing index
+  let index: Record<string, string[]>;
+  if (useApi) {
+    index = await getMediaIndex();
+    if (Object.keys(index).length === 0) {
+      console.error("Index file not found. Run build-index first.");
+      process.exit(1);
+    }
+  } else {
+    index = await loadIndexFromS3();
+  }
 
   const originalTotal = Object.values(index).reduce((sum, urls) => sum + urls.length, 0);
   console.log(`Loaded index: ${Object.keys(index).length} dates, ${originalTotal} URLs total.`);
   console.log("");
 
-  // 2. Check each URL and remove missing files
+  // 2. Check each URL and remove missing files. Through the API we list the
+  // processed keys once instead of a HEAD per object.
+  const existingKeys = useApi ? new Set(await listMediaKeys("processed")) : null;
   const cleaned: Record<string, string[]> = {};
   let checked = 0;
   let removed = 0;
@@ -142,7 +165,7 @@ async function main() {
         continue;
       }
 
-      const exists = await objectExists(key);
+      const exists = existingKeys ? existingKeys.has(key) : await objectExists(key);
       if (exists) {
         validUrls.push(url);
       } else {
@@ -185,6 +208,12 @@ async function main() {
     return;
   }
 
+  if (useApi) {
+    await putMediaIndex(cleaned);
+    console.log("Uploaded pruned index.");
+    return;
+  }
+
   await s3.send(
     new PutObjectCommand({
       Bucket: BUCKET,
@@ -193,6 +222,10 @@ async function main() {
       ContentType: "application/json",
     })
   );
+  await recordAudit(scriptActor("prune-date-media-index"), "media_index.update", INDEX_KEY, {
+    before: summarizeMediaIndex(index),
+    after: summarizeMediaIndex(cleaned),
+  });
 
   console.log("Uploaded pruned index.");
 }
@@ -1,12 +1,38 @@
 import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
 import { motion } from "framer-motion";
-import { Heart, CalendarHeart, Loader2, Images, X, Maximize2 } from "lucide-react";
+import {
+  Heart,
+  CalendarHeart,
+  Loader2,
+  Images,
+  X,
+  Maximize2,
+  ArrowLeft,
+  Bookmark,
+  Search,
+  MessageCircle,
+} from "lucide-react";
 import CountdownTimer from "./components/CountdownTimer";
 import MemoryCard, { formatMemoryDate } from "./components/MemoryCard";
 import CardBack from "./components/CardBack";
 import Gallery from "./components/Gallery";
-import { fetchMemories, getToday } from "./data";
-import type { MemoryEntry } from "./types";
+import EntryPager from "./components/EntryPager";
+import SearchOverlay from "./components/SearchOverlay";
+import ReactionBar, { FavoriteButton } from "./components/ReactionBar";
+import CommentThread from "./components/CommentThread";
+import {
+  fetchCollections,
+  fetchMemories,
+  fetchReactions,
+  getToday,
+  groupByDate,
+  setReaction,
+} from "./data";
+import { apiFetch } from "./api";
+import { FAVORITE_REACTION } from "./reactions";
+import { isAudioUrl } from "./validation";
+import type { Collection, MemoryEntry, Reaction, SearchResult } from "./types";
 
 // Normalize any S3 URLs so that each path segment is encoded but "/" is preserved.
 // This fixes older records where the whole key was encodeURIComponent'ed
@@ -34,9 +60,14 @@ function normalizeMediaList(urls: string[] | undefined | null): string[] {
 }
 
 function App() {
-  const [memories, setMemories] = useState<MemoryEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Set on /collections/:tag, which lists that collection instead of today's card
+  const { tag } = useParams<{ tag?: string }>();
+  const [loaded, setLoaded] = useState<{
+    tag: string | undefined;
+    memories: MemoryEntry[];
+    error: string | null;
+  } | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
   const [mediaModal, setMediaModal] = useState<{
     open: boolean;
     date: string | null;
@@ -50,7 +81,13 @@ function App() {
     loading: false,
     error: null,
   });
-  const [expandedMemory, setExpandedMemory] = useState<MemoryEntry | null>(null);
+  // A day's entries in the detail modal, and which one it opened on
+  const [expandedDay, setExpandedDay] = useState<{ entries: MemoryEntry[]; index: number } | null>(
+    null
+  );
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
   const today = getToday();
   // "Story" timeline date: exactly one year ago from today.
   // This controls which day's memory is considered "today's" in the app.
@@ -64,7 +101,8 @@ function App() {
   })();
 
   useEffect(() => {
-    fetchMemories()
+    let cancelled = false;
+    fetchMemories({ tag })
       .then((data) => {
         // Normalize any legacy S3 URLs stored in Dynamo so they always have
         // proper path encoding.
@@ -72,21 +110,73 @@ function App() {
           ...m,
           media: normalizeMediaList(m.media),
         }));
-        setMemories(normalized);
-        setLoading(false);
+        if (!cancelled) setLoaded({ tag, memories: normalized, error: null });
       })
       .catch((err) => {
         console.error(err);
-        setError("Could not load memories. Please try again later.");
-        setLoading(false);
+        if (!cancelled) {
+          setLoaded({ tag, memories: [], error: "Could not load memories. Please try again later." });
+        }
       });
+    return () => {
+      cancelled = true;
+    };
+  }, [tag]);
+
+  // Collections are extras: without them the page still works
+  useEffect(() => {
+    fetchCollections()
+      .then(setCollections)
+      .catch((err) => console.error(err));
+  }, []);
+
+  // Reactions are extras too: the buttons just start out empty
+  useEffect(() => {
+    fetchReactions()
+      .then(setReactions)
+      .catch((err) => console.error(err));
   }, []);
 
+  const reactionsFor = (memory: MemoryEntry) =>
+    reactions.filter((r) => r.date === memory.date && r.id === memory.id).map((r) => r.emoji);
+  const isFavorite = (memory: MemoryEntry) => reactionsFor(memory).includes(FAVORITE_REACTION);
+
+  // Shows the change right away, and takes it back if the save fails
+  const toggleReaction = (memory: MemoryEntry, emoji: string) => {
+    if (!memory.id) return;
+    const reaction: Reaction = { date: memory.date, id: memory.id, emoji };
+    const same = (r: Reaction) => r.date === reaction.date && r.id === reaction.id && r.emoji === emoji;
+    const on = !reactions.some(same);
+    setReactions((prev) => (on ? [...prev, reaction] : prev.filter((r) => !same(r))));
+    setReaction(reaction, on).catch((err) => {
+      console.error(err);
+      setReactions((prev) => (on ? prev.filter((r) => !same(r)) : [...prev, reaction]));
+    });
+  };
+
+  const current = loaded?.tag === tag ? loaded : null;
+  const loading = current === null;
+  const error = current?.error ?? null;
+  const memories = current?.memories ?? [];
+  const collection = tag ? collections.find((c) => c.tag === tag) : undefined;
+
+  // Stable sort: each day's entries keep the order the API gave them
   const allMemories = [...memories].sort((a, b) =>
     a.date.localeCompare(b.date)
   );
-  const todayMemory = allMemories.find((m) => m.date === timelineToday);
-  const pastMemories = allMemories.filter((m) => m.date < timelineToday);
+  const todayMemories = allMemories.filter((m) => m.date === timelineToday);
+  const pastDays = groupByDate(allMemories.filter((m) => m.date < timelineToday && !m.locked));
+  // Favorites: only the hearted memories, today's included
+  const favoriteDays = groupByDate(
+    allMemories.filter((m) => m.date <= timelineToday && !m.locked && isFavorite(m))
+  );
+  const shownDays = favoritesOnly ? favoriteDays : pastDays;
+  // A collection also shows today's memory if it has the tag; later ones stay hidden (admins get them all)
+  const collectionDays = groupByDate(allMemories.filter((m) => m.date <= timelineToday && !m.locked));
+  // Voice notes play on their card; the media viewer only takes photos and videos
+  const dayMedia = (entries: MemoryEntry[]) => [
+    ...new Set(entries.flatMap((m) => m.media || []).filter((url) => !isAudioUrl(url))),
+  ];
 
   const openMediaModalForDate = async (date: string, initialUrls: string[] = []) => {
     const normalizedInitial = normalizeMediaList(initialUrls);
@@ -100,7 +190,7 @@ function App() {
     });
 
     try {
-      const res = await fetch(`/api/date-media?date=${encodeURIComponent(date)}`);
+      const res = await apiFetch(`/api/date-media?date=${encodeURIComponent(date)}`);
       if (!res.ok) throw new Error("Failed to load media");
       const data: { date: string; urls: string[] } = await res.json();
       const normalizedFromApi = normalizeMediaList(data.urls);
@@ -123,6 +213,25 @@ function App() {
     }
   };
 
+  // Opens a search result among the rest of its day. A collection page only
+  // has the day's tagged entries, and the home page may be missing it, so
+  // then the day is fetched
+  const openSearchResult = async (result: SearchResult) => {
+    setSearchOpen(false);
+    let entries = allMemories.filter((m) => m.date === result.date && !m.locked);
+    if (tag || !entries.some((m) => m.id === result.id)) {
+      try {
+        const day = await fetchMemories({ from: result.date, to: result.date });
+        entries = day.map((m) => ({ ...m, media: normalizeMediaList(m.media) }));
+      } catch (err) {
+        console.error(err);
+        return;
+      }
+    }
+    const index = entries.findIndex((m) => m.id === result.id);
+    if (index >= 0) setExpandedDay({ entries, index });
+  };
+
   const closeMediaModal = () =>
     setMediaModal({
       open: false,
@@ -140,100 +249,171 @@ function App() {
       <FloatingHearts />
 
       <main className="relative z-10 flex flex-col items-center px-4 pt-20 pb-16">
-        {/* Today's Card Section */}
-        <section className="w-full max-w-sm mx-auto mt-6 mb-10">
-          <motion.div
-            className="flex flex-col items-center justify-center gap-1 mb-5"
-            initial={{ opacity: 0, y: -10 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5 }}
-          >
-            <div className="flex items-center justify-center gap-2">
-              <CalendarHeart className="w-5 h-5 text-rose-400" />
-              <h2 className="font-display text-xl text-rose-600 font-semibold">
-                Today's Memory
-              </h2>
-            </div>
-            <p className="text-xs text-rose-400">
-              {new Date(timelineToday + "T00:00:00").toLocaleDateString("en-US", {
-                weekday: "short",
-                month: "short",
-                day: "numeric",
-                year: "numeric",
-              })}
-            </p>
-          </motion.div>
-
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ duration: 0.5, delay: 0.2 }}
-            className="flex justify-center"
-          >
-            {loading ? (
-              <LoadingCard />
-            ) : error ? (
-              <ErrorCard message={error} />
-            ) : todayMemory ? (
-              <div className="flex flex-col items-center gap-3">
-                <TodayMemoryCard
-                  memory={todayMemory}
-                  onExpand={() => setExpandedMemory(todayMemory)}
-                  onViewAll={() =>
-                    openMediaModalForDate(
-                      todayMemory.date,
-                      todayMemory.media || []
-                    )
-                  }
-                />
-              </div>
-            ) : (
-              <NoMemoryToday />
+        <button
+          type="button"
+          onClick={() => setSearchOpen(true)}
+          className="inline-flex items-center gap-1.5 rounded-full border border-rose-200 text-rose-400 bg-white/70 backdrop-blur px-3 py-1.5 text-xs hover:text-rose-600 hover:bg-white transition-colors"
+        >
+          <Search className="w-3.5 h-3.5" />
+          Search memories
+        </button>
+
+        {tag ? (
+          <CollectionView
+            tag={tag}
+            collection={collection}
+            days={collectionDays}
+            loading={loading}
+            error={error}
+            onOpen={(entries) => setExpandedDay({ entries, index: 0 })}
+            onViewAll={(date, entries) => openMediaModalForDate(date, dayMedia(entries))}
+            isFavorite={isFavorite}
+            onToggleFavorite={(memory) => toggleReaction(memory, FAVORITE_REACTION)}
+          />
+        ) : (
+          <>
+            {/* Today's Card Section */}
+            <section className="w-full max-w-sm mx-auto mt-6 mb-10">
+              <motion.div
+                className="flex flex-col items-center justify-center gap-1 mb-5"
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5 }}
+              >
+                <div className="flex items-center justify-center gap-2">
+                  <CalendarHeart className="w-5 h-5 text-rose-400" />
+                  <h2 className="font-display text-xl text-rose-600 font-semibold">
+                    Today's Memory
+                  </h2>
+                </div>
+                <p className="text-xs text-rose-400">
+                  {new Date(timelineToday + "T00:00:00").toLocaleDateString("en-US", {
+                    weekday: "short",
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                  })}
+                </p>
+              </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.5, delay: 0.2 }}
+                className="flex justify-center"
+              >
+                {loading ? (
+                  <LoadingCard />
+                ) : error ? (
+                  <ErrorCard message={error} />
+                ) : todayMemories.length > 0 ? (
+                  <div className="flex flex-col items-center gap-3">
+                    <TodayMemoryCard
+                      memories={todayMemories}
+                      onExpand={(index) => setExpandedDay({ entries: todayMemories, index })}
+                      onViewAll={() =>
+                        openMediaModalForDate(timelineToday, dayMedia(todayMemories))
+                      }
+                    />
+                  </div>
+                ) : (
+                  <NoMemoryToday />
+                )}
+              </motion.div>
+            </section>
+
+            {/* Collections Section */}
+            {collections.length > 0 && (
+              <section className="w-full max-w-lg mx-auto mb-10">
+                <div className="flex items-center justify-center gap-2 mb-4">
+                  <Bookmark className="w-4 h-4 text-rose-300 fill-rose-300" />
+                  <h3 className="font-display text-lg text-rose-500 font-medium">Collections</h3>
+                  <Bookmark className="w-4 h-4 text-rose-300 fill-rose-300" />
+                </div>
+                <div className="flex gap-3 overflow-x-auto pb-2 snap-x">
+                  {collections.map((c) => (
+                    <CollectionCard key={c.tag} collection={c} />
+                  ))}
+                </div>
+              </section>
             )}
-          </motion.div>
-        </section>
-
-        {/* Past Memories Section */}
-        {!loading && pastMemories.length > 0 && (
-          <section className="w-full max-w-lg mx-auto">
-            <div className="flex items-center justify-center gap-2 mb-4">
-              <Heart className="w-4 h-4 text-rose-300 fill-rose-300" />
-              <h3 className="font-display text-lg text-rose-500 font-medium">
-                Past Memories
-              </h3>
-              <Heart className="w-4 h-4 text-rose-300 fill-rose-300" />
-            </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              {pastMemories.map((memory) => (
-                <PastMemoryCard
-                  key={memory.date}
-                  memory={memory}
-                  onOpen={() => setExpandedMemory(memory)}
-                  onViewAll={() =>
-                    openMediaModalForDate(memory.date, memory.media || [])
-                  }
-                />
-              ))}
-            </div>
-          </section>
+            {/* Past Memories Section */}
+            {!loading && (pastDays.length > 0 || favoriteDays.length > 0) && (
+              <section className="w-full max-w-lg mx-auto">
+                <div className="flex items-center justify-center gap-2 mb-3">
+                  <Heart className="w-4 h-4 text-rose-300 fill-rose-300" />
+                  <h3 className="font-display text-lg text-rose-500 font-medium">
+                    {favoritesOnly ? "Favorites" : "Past Memories"}
+                  </h3>
+                  <Heart className="w-4 h-4 text-rose-300 fill-rose-300" />
+                </div>
+                <div className="flex justify-center gap-1.5 mb-4" role="group" aria-label="Show">
+                  {([
+                    { value: false, label: "All" },
+                    { value: true, label: "Favorites" },
+                  ]).map(({ value, label }) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => setFavoritesOnly(value)}
+                      aria-pressed={favoritesOnly === value}
+                      className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                        favoritesOnly === value
+                          ? "bg-rose-500 text-white border-rose-500"
+                          : "bg-white/70 text-rose-400 border-rose-200 hover:border-rose-300"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {shownDays.length === 0 ? (
+                  <p className="text-sm text-rose-400 text-center">
+                    No favorites yet. Tap the heart on a memory to keep it here.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    {shownDays.map(({ date, entries }) => (
+                      <PastMemoryCard
+                        key={date}
+                        memory={entries[0]}
+                        count={entries.length}
+                        favorite={isFavorite(entries[0])}
+                        onToggleFavorite={() => toggleReaction(entries[0], FAVORITE_REACTION)}
+                        onOpen={() => setExpandedDay({ entries, index: 0 })}
+                        onViewAll={() => openMediaModalForDate(date, dayMedia(entries))}
+                      />
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
+          </>
         )}
-
       </main>
 
-      {expandedMemory && (
+      {expandedDay && (
         <MemoryDetailModal
-          memory={expandedMemory}
-          onClose={() => setExpandedMemory(null)}
+          memories={expandedDay.entries}
+          initialIndex={expandedDay.index}
+          reactionsFor={reactionsFor}
+          onToggleReaction={toggleReaction}
+          onClose={() => setExpandedDay(null)}
           onViewAll={() =>
             openMediaModalForDate(
-              expandedMemory.date,
-              expandedMemory.media || []
+              expandedDay.entries[0].date,
+              dayMedia(expandedDay.entries)
             )
           }
         />
       )}
 
+      {searchOpen && (
+        <SearchOverlay onSelect={openSearchResult} onClose={() => setSearchOpen(false)} />
+      )}
+
       {mediaModal.open && mediaModal.date && (
         <MediaModal
           date={mediaModal.date}
@@ -295,38 +475,54 @@ function NoMemoryToday() {
 }
 
 function TodayMemoryCard({
-  memory,
+  memories,
   onExpand,
   onViewAll,
 }: {
-  memory: MemoryEntry;
-  onExpand: () => void;
+  memories: MemoryEntry[];
+  onExpand: (index: number) => void;
   onViewAll: () => void;
 }) {
+  const [index, setIndex] = useState(0);
+  const memory = memories[Math.min(index, memories.length - 1)];
+
   return (
     <div className="flex flex-col items-center gap-3">
+      {/* Same card for every entry: once flipped, it stays flipped while paging */}
       <MemoryCard entry={memory} />
-      <div className="flex flex-wrap items-center justify-center gap-2">
-        <button
-          type="button"
-          onClick={onExpand}
-          className="inline-flex items-center gap-1.5 rounded-full border border-rose-200 text-rose-500 bg-white/70 backdrop-blur px-3 py-1.5 text-xs shadow-sm hover:bg-rose-50 transition-colors"
-        >
-          <Maximize2 className="w-4 h-4" />
-          <span>Expand</span>
-        </button>
-        <ViewAllMediaButton onClick={onViewAll} />
-      </div>
+      {!memory.locked && <EntryPager index={index} count={memories.length} onChange={setIndex} />}
+      {/* Only around midnight, when this browser's clock is ahead of the server's */}
+      {!memory.locked && (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button
+            type="button"
+            onClick={() => onExpand(index)}
+            className="inline-flex items-center gap-1.5 rounded-full border border-rose-200 text-rose-500 bg-white/70 backdrop-blur px-3 py-1.5 text-xs shadow-sm hover:bg-rose-50 transition-colors"
+          >
+            <Maximize2 className="w-4 h-4" />
+            <span>Expand</span>
+          </button>
+          <ViewAllMediaButton onClick={onViewAll} />
+        </div>
+      )}
     </div>
   );
 }
 
 function PastMemoryCard({
   memory,
+  count,
+  favorite,
+  onToggleFavorite,
   onOpen,
   onViewAll,
 }: {
   memory: MemoryEntry;
+  /** Memories on this day; the card shows the first */
+  count: number;
+  /** Whether the memory shown is hearted; the heart is for that one */
+  favorite: boolean;
+  onToggleFavorite: () => void;
   onOpen: () => void;
   onViewAll: () => void;
 }) {
@@ -340,31 +536,171 @@ function PastMemoryCard({
         <span className="text-[11px] font-medium text-rose-400 uppercase tracking-wider">
           {formatMemoryDate(memory.date)}
         </span>
+        {count > 1 && (
+          <span className="ml-1.5 text-[10px] text-rose-300">· {count} memories</span>
+        )}
       </div>
       <div className="flex flex-col items-center gap-2">
-        <button
-          type="button"
-          onClick={onOpen}
-          className="w-full max-w-[200px] aspect-[3/4] rounded-2xl overflow-hidden focus:outline-none focus:ring-2 focus:ring-rose-300 focus:ring-offset-2"
-          aria-label={`Open memory from ${formatMemoryDate(memory.date)}`}
-        >
-          <CardBack entry={memory} compact />
-        </button>
+        <div className="relative w-full max-w-[200px]">
+          <button
+            type="button"
+            onClick={onOpen}
+            className="w-full aspect-[3/4] rounded-2xl overflow-hidden focus:outline-none focus:ring-2 focus:ring-rose-300 focus:ring-offset-2"
+            aria-label={`Open memory from ${formatMemoryDate(memory.date)}`}
+          >
+            <CardBack entry={memory} compact />
+          </button>
+          <div className="absolute top-2 right-2">
+            <FavoriteButton selected={favorite} onToggle={onToggleFavorite} />
+          </div>
+        </div>
         <ViewAllMediaButton onClick={onViewAll} small />
       </div>
     </motion.div>
   );
 }
 
+function CollectionCard({ collection }: { collection: Collection }) {
+  return (
+    <Link
+      to={`/collections/${collection.tag}`}
+      className="snap-start shrink-0 w-32 flex flex-col items-center gap-1.5 rounded-2xl focus:outline-none focus:ring-2 focus:ring-rose-300 focus:ring-offset-2"
+    >
+      <div className="w-32 h-32 rounded-2xl overflow-hidden bg-gradient-to-br from-rose-100 to-pink-100 shadow-md shadow-rose-100/60 flex items-center justify-center">
+        {collection.cover ? (
+          <img
+            src={collection.cover}
+            alt=""
+            className="w-full h-full object-cover"
+            draggable={false}
+            loading="lazy"
+          />
+        ) : (
+          <Heart className="w-8 h-8 text-rose-300 fill-rose-200" />
+        )}
+      </div>
+      <span className="text-xs font-medium text-rose-500 text-center line-clamp-2">
+        {collection.title}
+      </span>
+    </Link>
+  );
+}
+
+function CollectionView({
+  tag,
+  collection,
+  days,
+  loading,
+  error,
+  onOpen,
+  onViewAll,
+  isFavorite,
+  onToggleFavorite,
+}: {
+  tag: string;
+  /** Undefined until the collections load, or if none is defined for this tag */
+  collection: Collection | undefined;
+  days: { date: string; entries: MemoryEntry[] }[];
+  loading: boolean;
+  error: string | null;
+  onOpen: (entries: MemoryEntry[]) => void;
+  onViewAll: (date: string, entries: MemoryEntry[]) => void;
+  isFavorite: (memory: MemoryEntry) => boolean;
+  onToggleFavorite: (memory: MemoryEntry) => void;
+}) {
+  return (
+    <section className="w-full max-w-lg mx-auto mt-6">
+      <Link
+        to="/"
+        className="inline-flex items-center gap-1 text-xs text-rose-400 hover:text-rose-500 mb-4"
+      >
+        <ArrowLeft className="w-3.5 h-3.5" /> All memories
+      </Link>
+
+      <motion.div
+        className="flex flex-col items-center gap-1 mb-6 text-center"
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="flex items-center justify-center gap-2">
+          <Bookmark className="w-5 h-5 text-rose-400" />
+          <h2 className="font-display text-xl text-rose-600 font-semibold">
+            {collection?.title ?? `#${tag}`}
+          </h2>
+        </div>
+        {collection?.description && (
+          <p className="text-sm text-rose-400 max-w-sm">{collection.description}</p>
+        )}
+        {!loading && !error && (
+          <p className="text-xs text-rose-300">
+            {days.length} {days.length === 1 ? "day" : "days"}
+          </p>
+        )}
+      </motion.div>
+
+      {loading ? (
+        <div className="flex justify-center">
+          <LoadingCard />
+        </div>
+      ) : error ? (
+        <div className="flex justify-center">
+          <ErrorCard message={error} />
+        </div>
+      ) : days.length === 0 ? (
+        <p className="text-sm text-rose-400 text-center">
+          Nothing here yet. More memories will find their way in.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {days.map(({ date, entries }) => (
+            <PastMemoryCard
+              key={date}
+              memory={entries[0]}
+              count={entries.length}
+              favorite={isFavorite(entries[0])}
+              onToggleFavorite={() => onToggleFavorite(entries[0])}
+              onOpen={() => onOpen(entries)}
+              onViewAll={() => onViewAll(date, entries)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
 function MemoryDetailModal({
-  memory,
+  memories,
+  initialIndex,
+  reactionsFor,
+  onToggleReaction,
   onClose,
   onViewAll,
 }: {
-  memory: MemoryEntry;
+  memories: MemoryEntry[];
+  initialIndex: number;
+  reactionsFor: (memory: MemoryEntry) => string[];
+  onToggleReaction: (memory: MemoryEntry, emoji: string) => void;
   onClose: () => void;
   onViewAll: () => void;
 }) {
+  const [index, setIndex] = useState(initialIndex);
+  const [showReplies, setShowReplies] = useState(false);
+  const memory = memories[index];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Arrow keys move the cursor while writing a reply
+      if (e.target instanceof HTMLTextAreaElement && e.key !== "Escape") return;
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") setIndex((i) => Math.max(i - 1, 0));
+      else if (e.key === "ArrowRight") setIndex((i) => Math.min(i + 1, memories.length - 1));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [memories.length, onClose]);
+
   const formattedDate = new Date(memory.date + "T00:00:00").toLocaleDateString(
     "en-US",
     { weekday: "long", month: "long", day: "numeric", year: "numeric" }
@@ -392,10 +728,36 @@ function MemoryDetailModal({
         </p>
 
         <div className="w-full max-w-sm flex-1 min-h-0 flex flex-col overflow-hidden">
-          <CardBack entry={memory} compact={false} />
+          <CardBack key={memory.id ?? index} entry={memory} compact={false} />
         </div>
 
-        <ViewAllMediaButton onClick={onViewAll} />
+        {/* One thread per day, whichever of its memories is showing */}
+        {showReplies && (
+          <div className="w-full shrink-0">
+            <CommentThread date={memory.date} />
+          </div>
+        )}
+
+        <EntryPager index={index} count={memories.length} onChange={setIndex} tone="dark" />
+        {memory.id && (
+          <ReactionBar
+            selected={reactionsFor(memory)}
+            onToggle={(emoji) => onToggleReaction(memory, emoji)}
+            tone="dark"
+          />
+        )}
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowReplies((open) => !open)}
+            aria-expanded={showReplies}
+            className="inline-flex items-center gap-1.5 rounded-full border border-rose-200 text-rose-500 bg-white/70 backdrop-blur px-3 py-1.5 text-xs shadow-sm hover:bg-rose-50 transition-colors"
+          >
+            <MessageCircle className="w-4 h-4" />
+            <span>{showReplies ? "Hide replies" : "Reply"}</span>
+          </button>
+          <ViewAllMediaButton onClick={onViewAll} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,53 @@
+/**
+ * fetch() for our own /api endpoints. Non-GET requests carry the CSRF token
+ * the server expects in X-CSRF-Token (it must match the csrf_token cookie).
+ * The token comes from /api/auth/me, fetched on first use and cached.
+ */
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+let csrfToken: string | null = null;
+let csrfRequest: Promise<string | null> | null = null;
+
+function loadCsrfToken(): Promise<string | null> {
+  csrfRequest ??= fetch("/api/auth/me", { credentials: "include" })
+    .then((res) => res.json())
+    .then((data) => {
+      csrfToken = typeof data?.csrfToken === "string" ? data.csrfToken : null;
+      return csrfToken;
+    })
+    .catch(() => null)
+    .finally(() => {
+      csrfRequest = null;
+    });
+  return csrfRequest;
+}
+
+async function isCsrfFailure(res: Response): Promise<boolean> {
+  if (res.status !== 403) return false;
+  const data = await res
+    .clone()
+    .json()
+    .catch(() => null);
+  return data?.code === "csrf";
+}
+
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  if (SAFE_METHODS.has(method)) return fetch(input, init);
+
+  const send = async () => {
+    const headers = new Headers(init.headers);
+    const token = csrfToken ?? (await loadCsrfToken());
+    if (token) headers.set("X-CSRF-Token", token);
+    return fetch(input, { ...init, headers });
+  };
+
+  const res = await send();
+  // The cookie can change under us (cleared, or set by another tab): refetch once
+  if (await isCsrfFailure(res)) {
+    csrfToken = null;
+    return send();
+  }
+  return res;
+}
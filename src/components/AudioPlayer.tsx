@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Mic, Pause, Play } from "lucide-react";
+
+interface AudioPlayerProps {
+  url: string;
+  transcript?: string;
+  compact?: boolean;
+}
+
+const BARS = 48;
+// Matches the default S3_PROCESSED_PREFIX of scripts/convert-s3-media.ts
+const PROCESSED_PREFIX = "processed/";
+
+/** Where the media pipeline puts the .m4a copy of a voice note uploaded under audio/. */
+function transcodedUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.pathname.startsWith("/audio/")) return null;
+    parsed.pathname = `/${PROCESSED_PREFIX}${parsed.pathname.slice(1).replace(/\.[^./]+$/, "")}.m4a`;
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Stand-in waveform (stable per URL) until the real one is decoded, or if it can't be
+function placeholderPeaks(url: string): number[] {
+  let seed = 0;
+  for (const ch of url) seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+  return Array.from({ length: BARS }, (_, i) => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return 0.25 + 0.5 * Math.abs(Math.sin(i / 3)) * ((seed % 1000) / 1000) + 0.15;
+  });
+}
+
+/** Loudest sample in each of BARS slices, scaled so the peak bar is full height. */
+async function decodePeaks(data: ArrayBuffer): Promise<{ peaks: number[]; duration: number } | null> {
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(data);
+    const samples = audio.getChannelData(0);
+    const step = Math.max(1, Math.floor(samples.length / BARS));
+    const peaks = Array.from({ length: BARS }, (_, i) => {
+      let max = 0;
+      for (let j = i * step; j < Math.min((i + 1) * step, samples.length); j++) {
+        max = Math.max(max, Math.abs(samples[j]));
+      }
+      return max;
+    });
+    const loudest = Math.max(...peaks) || 1;
+    return { peaks: peaks.map((p) => Math.max(0.08, p / loudest)), duration: audio.duration };
+  } catch {
+    // e.g. Safari can't decode a webm recording that hasn't been converted yet
+    return null;
+  } finally {
+    void context.close();
+  }
+}
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "0:00";
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+function Waveform({ peaks, progress }: { peaks: number[]; progress: number }) {
+  return (
+    <div className="flex items-center gap-[2px] h-full w-full">
+      {peaks.map((peak, i) => (
+        <span
+          key={i}
+          className={`flex-1 rounded-full transition-colors ${
+            (i + 0.5) / peaks.length <= progress ? "bg-rose-500" : "bg-rose-200"
+          }`}
+          style={{ height: `${Math.round(peak * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Voice note player: play/pause, a waveform that fills as it plays and can be
+ * clicked to seek, and the transcript behind a toggle. Plays the pipeline's
+ * .m4a copy when there is one and the original upload otherwise.
+ */
+export default function AudioPlayer({ url, transcript, compact = false }: AudioPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const placeholder = useMemo(() => placeholderPeaks(url), [url]);
+  const [loaded, setLoaded] = useState<{
+    url: string;
+    src: string;
+    peaks: number[] | null;
+    duration: number | null;
+  } | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [current, setCurrent] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState(0);
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  // Fetch the file once: its bytes feed both the <audio> element and the waveform.
+  // Without CORS on the bucket the fetch fails, and the element loads the URL itself.
+  useEffect(() => {
+    if (compact) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    (async () => {
+      for (const candidate of [transcodedUrl(url), url]) {
+        if (!candidate) continue;
+        try {
+          const res = await fetch(candidate);
+          if (!res.ok) continue;
+          const data = await res.arrayBuffer();
+          if (cancelled) return;
+          objectUrl = URL.createObjectURL(
+            new Blob([data], { type: res.headers.get("Content-Type") || "" })
+          );
+          const decoded = await decodePeaks(data);
+          if (cancelled) return;
+          setLoaded({
+            url,
+            src: objectUrl,
+            peaks: decoded?.peaks ?? null,
+            duration: decoded?.duration ?? null,
+          });
+          return;
+        } catch {
+          // Network or CORS: try the next candidate
+        }
+      }
+      if (!cancelled) setLoaded({ url, src: url, peaks: null, duration: null });
+    })();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url, compact]);
+
+  const ready = loaded?.url === url ? loaded : null;
+  const peaks = ready?.peaks ?? placeholder;
+  // MediaRecorder's webm files report an infinite duration until played through
+  const duration = Number.isFinite(mediaDuration) && mediaDuration > 0 ? mediaDuration : (ready?.duration ?? 0);
+  const progress = duration > 0 ? Math.min(current / duration, 1) : 0;
+
+  if (compact) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 w-full h-full px-2 py-3">
+        <div className="w-9 h-9 rounded-full bg-rose-100 flex items-center justify-center shrink-0">
+          <Mic className="w-4 h-4 text-rose-500" />
+        </div>
+        <div className="h-6 w-full max-w-[140px]">
+          <Waveform peaks={placeholder} progress={0} />
+        </div>
+        <p className="text-rose-500/80 text-center font-medium italic px-1 text-[10px] line-clamp-2">
+          {transcript || "Voice note"}
+        </p>
+      </div>
+    );
+  }
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) void audio.play();
+    else audio.pause();
+  };
+
+  const seekTo = (fraction: number) => {
+    const audio = audioRef.current;
+    if (!audio || duration <= 0) return;
+    audio.currentTime = Math.min(Math.max(fraction, 0), 1) * duration;
+    setCurrent(audio.currentTime);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full px-2 py-4">
+      <div className="w-full rounded-2xl bg-gradient-to-br from-rose-50 to-pink-50 border border-rose-100 p-4 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={togglePlay}
+          disabled={!ready}
+          className="w-11 h-11 shrink-0 rounded-full bg-rose-500 text-white flex items-center justify-center shadow-md shadow-rose-200 hover:bg-rose-600 transition-colors disabled:opacity-50"
+          aria-label={playing ? "Pause voice note" : "Play voice note"}
+        >
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5 ml-0.5" />}
+        </button>
+        <div className="flex-1 min-w-0 flex flex-col gap-1">
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Seek"
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(current)}
+            aria-valuetext={formatTime(current)}
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              seekTo((e.clientX - rect.left) / rect.width);
+            }}
+            onKeyDown={(e) => {
+              if (duration <= 0) return;
+              if (e.key === "ArrowRight") seekTo((current + 5) / duration);
+              if (e.key === "ArrowLeft") seekTo((current - 5) / duration);
+            }}
+            className="h-10 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-300 rounded"
+          >
+            <Waveform peaks={peaks} progress={progress} />
+          </div>
+          <div className="flex justify-between text-[10px] font-mono text-rose-400">
+            <span>{formatTime(current)}</span>
+            <span>{duration > 0 ? formatTime(duration) : "--:--"}</span>
+          </div>
+        </div>
+        {ready && (
+          <audio
+            ref={audioRef}
+            src={ready.src}
+            preload="metadata"
+            onPlay={() => setPlaying(true)}
+            onPause={() => setPlaying(false)}
+            onEnded={() => setPlaying(false)}
+            onTimeUpdate={(e) => setCurrent(e.currentTarget.currentTime)}
+            onLoadedMetadata={(e) => setMediaDuration(e.currentTarget.duration)}
+            onDurationChange={(e) => setMediaDuration(e.currentTarget.duration)}
+          />
+        )}
+      </div>
+
+      {transcript && (
+        <div className="flex flex-col items-center gap-1 w-full">
+          <button
+            type="button"
+            onClick={() => setShowTranscript((v) => !v)}
+            className="text-[11px] text-rose-400 hover:text-rose-500 font-medium underline-offset-2 hover:underline"
+          >
+            {showTranscript ? "Hide transcript" : "Show transcript"}
+          </button>
+          {showTranscript && (
+            <p className="text-rose-500/80 text-center font-medium italic text-sm whitespace-pre-line px-2">
+              {transcript}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
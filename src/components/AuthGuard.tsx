@@ -1,13 +1,46 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { Loader2 } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Heart, Loader2 } from "lucide-react";
+import { apiFetch } from "../api";
+import type { SharedDay } from "../types";
 
-export default function AuthGuard({ children }: { children: React.ReactNode }) {
-  const [status, setStatus] = useState<"loading" | "ok" | "redirect">("loading");
+type AuthGuardProps =
+  | { share?: false; children: React.ReactNode }
+  | { share: true; children: (shared: SharedDay) => React.ReactNode };
+
+/**
+ * Renders children once the visitor has a viewer/admin session.
+ * With `share`, opens the /s/:token link instead and passes the shared day on.
+ */
+export default function AuthGuard(props: AuthGuardProps) {
+  const [status, setStatus] = useState<"loading" | "ok" | "redirect" | "expired">("loading");
+  const [shared, setShared] = useState<SharedDay | null>(null);
   const navigate = useNavigate();
+  const { token } = useParams<{ token: string }>();
+  const isShare = props.share === true;
 
   useEffect(() => {
-    fetch("/api/auth/me", { credentials: "include" })
+    if (isShare) {
+      apiFetch("/api/share/open", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      })
+        .then(async (res) => {
+          if (!res.ok) {
+            setStatus("expired");
+            return;
+          }
+          setShared(await res.json());
+          setStatus("ok");
+        })
+        .catch(() => {
+          setStatus("expired");
+        });
+      return;
+    }
+
+    apiFetch("/api/auth/me", { credentials: "include" })
       .then(async (res) => {
         if (!res.ok) {
           setStatus("redirect");
@@ -32,7 +65,7 @@ export default function AuthGuard({ children }: { children: React.ReactNode }) {
       .catch(() => {
         setStatus("redirect");
       });
-  }, []);
+  }, [isShare, token]);
 
   useEffect(() => {
     if (status === "redirect") {
@@ -48,8 +81,25 @@ export default function AuthGuard({ children }: { children: React.ReactNode }) {
     );
   }
 
+  if (status === "expired") {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-rose-50 via-pink-50/30 to-cream flex items-center justify-center px-4">
+        <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg shadow-rose-100/50 p-8 w-full max-w-xs text-center">
+          <Heart className="w-10 h-10 text-rose-300 mx-auto mb-4" />
+          <p className="font-display text-lg text-rose-500 font-semibold mb-2">
+            Link unavailable
+          </p>
+          <p className="text-sm text-rose-400">
+            This share link has expired or is no longer available.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (status === "ok") {
-    return <>{children}</>;
+    if (props.share) return shared ? <>{props.children(shared)}</> : null;
+    return <>{props.children}</>;
   }
 
   return null;
@@ -1,6 +1,9 @@
-import { memo, useEffect, useRef, useState } from "react";
+import { memo, useEffect, useMemo, useRef, useState } from "react";
 import type { MemoryEntry } from "../types";
+import { parseMarkdown, referencedMedia } from "../markdown";
+import AudioPlayer from "./AudioPlayer";
 import Gallery from "./Gallery";
+import MarkdownText from "./MarkdownText";
 import { Quote } from "lucide-react";
 
 interface CardBackProps {
@@ -15,27 +18,37 @@ function isVideoUrl(url: string): boolean {
 }
 
 function CardBack({ entry, compact = false }: CardBackProps) {
-  const isText = entry.type === "text";
+  // Voice notes keep their plain transcript; other Markdown memories read as a letter
+  const isLetter = entry.format === "markdown" && entry.type !== "audio";
+  const isText = entry.type === "text" && !isLetter;
 
   return (
     <div
       className="w-full h-full bg-white rounded-2xl p-4 flex flex-col items-center justify-start overflow-y-auto overflow-x-hidden min-h-0 shadow-lg shadow-rose-200/40 border border-rose-100/50"
     >
       {isText && <TextContent text={entry.text} compact={compact} />}
-      {entry.type === "photo" && (
+      {isLetter && <MarkdownLetter entry={entry} compact={compact} />}
+      {entry.type === "photo" && !isLetter && (
         <PhotoContent
           mediaUrl={entry.media?.[0] || ""}
           caption={entry.text}
           compact={compact}
         />
       )}
-      {entry.type === "gallery" && (
+      {entry.type === "gallery" && !isLetter && (
         <Gallery
           images={entry.media || []}
           caption={entry.text}
           compact={compact}
         />
       )}
+      {entry.type === "audio" && (
+        <AudioPlayer
+          url={entry.media?.[0] || ""}
+          transcript={entry.text}
+          compact={compact}
+        />
+      )}
     </div>
   );
 }
@@ -63,6 +76,44 @@ function TextContent({ text, compact }: { text: string; compact: boolean }) {
   );
 }
 
+function MarkdownLetter({ entry, compact }: { entry: MemoryEntry; compact: boolean }) {
+  const media = entry.media || [];
+  const inline = useMemo(() => referencedMedia(parseMarkdown(entry.text)), [entry.text]);
+  // Photos the letter doesn't place itself follow it
+  const rest = media.filter((_, i) => !inline.has(i));
+
+  return (
+    <div className={`flex flex-col gap-3 w-full ${compact ? "px-1 py-2" : "px-3 py-4"}`}>
+      <MarkdownText text={entry.text} media={media} compact={compact} />
+      {!compact && rest.length > 0 && (
+        <div className="grid grid-cols-3 gap-1.5">
+          {rest.map((url) =>
+            isVideoUrl(url) ? (
+              <video
+                key={url}
+                src={url}
+                className="w-full aspect-square object-cover rounded-md"
+                controls
+                playsInline
+                preload="metadata"
+              />
+            ) : (
+              <img
+                key={url}
+                src={url}
+                alt="Memory"
+                className="w-full aspect-square object-cover rounded-md"
+                draggable={false}
+                loading="lazy"
+              />
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function PhotoContent({
   mediaUrl,
   caption,
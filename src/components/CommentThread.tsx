@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Loader2, MessageCircle, Send, X } from "lucide-react";
+import { deleteComment, fetchComments, markCommentsRead, postComment } from "../data";
+import type { MemoryComment } from "../types";
+
+const MAX_LENGTH = 1000;
+
+function formatSentAt(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * A day's reply thread: viewers write to the author and the author answers.
+ * Opening a thread with unread messages (only admins are told which) marks
+ * them read and calls `onRead`, which should be a stable callback.
+ */
+export default function CommentThread({ date, onRead }: { date: string; onRead?: () => void }) {
+  const [loaded, setLoaded] = useState<{
+    date: string;
+    comments: MemoryComment[];
+    error: string | null;
+  } | null>(null);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchComments(date)
+      .then((comments) => {
+        if (cancelled) return;
+        setLoaded({ date, comments, error: null });
+        if (comments.some((c) => c.unread)) {
+          markCommentsRead(date)
+            .then(() => onRead?.())
+            .catch((err) => console.error(err));
+        }
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setLoaded({ date, comments: [], error: "Could not load replies." });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, onRead]);
+
+  const current = loaded?.date === date ? loaded : null;
+  const comments = current?.comments ?? [];
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || sending) return;
+    setSending(true);
+    setSendError(null);
+    try {
+      const comment = await postComment(date, text);
+      setLoaded((prev) => (prev?.date === date ? { ...prev, comments: [...prev.comments, comment] } : prev));
+      setDraft("");
+    } catch (err) {
+      setSendError((err as Error).message || "Could not send your reply.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const remove = async (comment: MemoryComment) => {
+    if (!confirm("Delete this message?")) return;
+    try {
+      await deleteComment(date, comment.id);
+      setLoaded((prev) =>
+        prev?.date === date ? { ...prev, comments: prev.comments.filter((c) => c.id !== comment.id) } : prev
+      );
+    } catch (err) {
+      console.error(err);
+      setSendError("Could not delete that message.");
+    }
+  };
+
+  return (
+    <div className="w-full bg-white/95 rounded-2xl border border-rose-100 p-3 space-y-2.5">
+      <p className="flex items-center gap-1.5 text-xs font-medium text-rose-500">
+        <MessageCircle className="w-3.5 h-3.5" />
+        Replies
+        {comments.length > 0 && <span className="font-normal text-rose-300">· {comments.length}</span>}
+      </p>
+
+      {current === null ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 text-rose-300 animate-spin" />
+        </div>
+      ) : current.error ? (
+        <p className="text-xs text-red-400">{current.error}</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-rose-300">No replies yet. Say what this day meant to you.</p>
+      ) : (
+        <ul className="space-y-2 max-h-48 overflow-y-auto pr-1">
+          {comments.map((c) => (
+            <li key={c.id} className={`flex flex-col ${c.mine ? "items-end" : "items-start"}`}>
+              <div
+                className={`group relative max-w-[85%] rounded-2xl px-3 py-1.5 text-sm whitespace-pre-wrap break-words ${
+                  c.mine ? "bg-rose-500 text-white rounded-br-sm" : "bg-rose-50 text-rose-700 rounded-bl-sm"
+                }`}
+              >
+                {c.text}
+                {c.mine && (
+                  <button
+                    type="button"
+                    onClick={() => remove(c)}
+                    className="absolute -top-1.5 -left-1.5 w-4 h-4 rounded-full bg-white border border-rose-200 text-rose-400 hover:text-red-500 items-center justify-center hidden group-hover:flex focus:flex"
+                    aria-label="Delete message"
+                  >
+                    <X className="w-2.5 h-2.5" />
+                  </button>
+                )}
+              </div>
+              <span className="text-[10px] text-rose-300 mt-0.5">
+                {c.mine ? "You" : c.name} · {formatSentAt(c.createdAt)}
+                {c.unread && <span className="ml-1 text-rose-500 font-medium">New</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          maxLength={MAX_LENGTH}
+          rows={2}
+          placeholder="Write a reply…"
+          aria-label="Write a reply"
+          className="flex-1 px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 placeholder:text-rose-300 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300 resize-none"
+        />
+        <button
+          type="button"
+          onClick={send}
+          disabled={sending || !draft.trim()}
+          className="w-9 h-9 rounded-full bg-rose-500 text-white flex items-center justify-center hover:bg-rose-600 transition-colors disabled:opacity-50 shrink-0"
+          aria-label="Send reply"
+        >
+          {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </div>
+      {sendError && <p className="text-xs text-red-400">{sendError}</p>}
+    </div>
+  );
+}
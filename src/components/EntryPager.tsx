@@ -0,0 +1,48 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface EntryPagerProps {
+  index: number;
+  count: number;
+  onChange: (index: number) => void;
+  /** "dark" for use over the modal backdrop */
+  tone?: "light" | "dark";
+}
+
+/**
+ * Previous / next controls for a day with several memories. Renders nothing
+ * for a day with just one.
+ */
+export default function EntryPager({ index, count, onChange, tone = "light" }: EntryPagerProps) {
+  if (count < 2) return null;
+
+  const button =
+    tone === "dark"
+      ? "bg-white/20 backdrop-blur-sm text-white hover:bg-white/30"
+      : "border border-rose-200 bg-white/70 backdrop-blur text-rose-500 shadow-sm hover:bg-rose-50";
+
+  return (
+    <div className="flex items-center justify-center gap-3">
+      <button
+        type="button"
+        onClick={() => onChange(index - 1)}
+        disabled={index === 0}
+        className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${button}`}
+        aria-label="Previous memory from this day"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span className={`text-xs font-mono ${tone === "dark" ? "text-white/70" : "text-rose-400"}`}>
+        {index + 1} / {count}
+      </span>
+      <button
+        type="button"
+        onClick={() => onChange(index + 1)}
+        disabled={index === count - 1}
+        className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${button}`}
+        aria-label="Next memory from this day"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
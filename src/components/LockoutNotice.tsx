@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+
+interface LockoutNoticeProps {
+  until: number; // ms timestamp
+  onExpire: () => void;
+}
+
+function formatRemaining(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return minutes > 0 ? `${minutes}:${String(seconds).padStart(2, "0")}` : `${seconds}s`;
+}
+
+/**
+ * Countdown shown after too many failed login attempts.
+ * The server sends Retry-After; callers turn that into `until`.
+ */
+export default function LockoutNotice({ until, onExpire }: LockoutNoticeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= until) onExpire();
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until, onExpire]);
+
+  return (
+    <p className="text-amber-600 text-xs mb-3 flex items-center justify-center gap-1">
+      <Clock className="w-3 h-3" /> Too many attempts. Try again in{" "}
+      {formatRemaining(Math.max(0, until - now))}
+    </p>
+  );
+}
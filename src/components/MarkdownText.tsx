@@ -0,0 +1,136 @@
+import { useMemo } from "react";
+import type { ReactNode } from "react";
+import { parseMarkdown } from "../markdown";
+import type { Block, Inline } from "../markdown";
+
+interface MarkdownTextProps {
+  text: string;
+  /** The memory's media, for ![caption](media:N) */
+  media: string[];
+  compact?: boolean;
+}
+
+// Very small helper – we infer videos by file extension
+function isVideoUrl(url: string): boolean {
+  const lower = url.toLowerCase();
+  return lower.endsWith(".mp4") || lower.endsWith(".webm");
+}
+
+function renderInline(nodes: Inline[], media: string[], compact: boolean): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.kind) {
+      case "text":
+        return node.text;
+      case "break":
+        return <br key={i} />;
+      case "strong":
+        return (
+          <strong key={i} className="font-semibold text-rose-800">
+            {renderInline(node.children, media, compact)}
+          </strong>
+        );
+      case "em":
+        return <em key={i}>{renderInline(node.children, media, compact)}</em>;
+      case "image": {
+        const url = media[node.index];
+        // Compact cards have no room for pictures; a missing item shows its caption
+        if (compact || !url) {
+          return node.alt ? (
+            <span key={i} className="italic text-rose-400">
+              [{node.alt}]
+            </span>
+          ) : null;
+        }
+        return (
+          <span key={i} className="block my-3">
+            <span className="block bg-white rounded-lg shadow-md shadow-rose-100/60 p-2 pb-3 rotate-[-0.5deg] max-w-[260px] mx-auto">
+              {isVideoUrl(url) ? (
+                <video
+                  src={url}
+                  className="max-h-[240px] w-full h-auto object-contain rounded-sm"
+                  controls
+                  playsInline
+                  preload="metadata"
+                />
+              ) : (
+                <img
+                  src={url}
+                  alt={node.alt}
+                  className="max-h-[240px] w-full h-auto object-contain rounded-sm"
+                  draggable={false}
+                  loading="lazy"
+                />
+              )}
+              {node.alt && (
+                <span className="block text-center text-[11px] text-rose-400 italic mt-1.5">{node.alt}</span>
+              )}
+            </span>
+          </span>
+        );
+      }
+    }
+  });
+}
+
+const HEADING_CLASSES = {
+  1: "font-display text-xl font-semibold text-rose-600",
+  2: "font-display text-lg font-semibold text-rose-600",
+  3: "font-display text-base font-semibold text-rose-500",
+};
+
+function renderBlocks(blocks: Block[], media: string[], compact: boolean): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.kind) {
+      case "heading": {
+        const Tag = `h${block.level}` as const;
+        return (
+          <Tag key={i} className={compact ? "font-semibold text-rose-600" : HEADING_CLASSES[block.level]}>
+            {renderInline(block.children, media, compact)}
+          </Tag>
+        );
+      }
+      case "paragraph":
+        return <p key={i}>{renderInline(block.children, media, compact)}</p>;
+      case "quote":
+        return (
+          <blockquote key={i} className="border-l-2 border-rose-200 pl-3 italic text-rose-500 space-y-2">
+            {renderBlocks(block.children, media, compact)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, j) => (
+          <li key={j}>{renderInline(item, media, compact)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={i} start={block.start} className="list-decimal pl-5 space-y-1 marker:text-rose-300">
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc pl-5 space-y-1 marker:text-rose-300">
+            {items}
+          </ul>
+        );
+      }
+      case "rule":
+        return <hr key={i} className="border-rose-100" />;
+    }
+  });
+}
+
+/**
+ * A memory's text written in Markdown (see src/markdown.ts). Renders React
+ * elements only, so HTML in the text shows as typed instead of running.
+ */
+export default function MarkdownText({ text, media, compact = false }: MarkdownTextProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div
+      className={`text-rose-700 text-left break-words ${
+        compact ? "text-xs space-y-1.5 line-clamp-6" : "text-base leading-relaxed space-y-3"
+      }`}
+    >
+      {renderBlocks(blocks, media, compact)}
+    </div>
+  );
+}
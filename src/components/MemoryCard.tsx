@@ -1,7 +1,7 @@
 import { memo, useState } from "react";
 import { motion } from "framer-motion";
 import type { MemoryEntry } from "../types";
-import { getToday } from "../data";
+import { getToday, getUnlockDate } from "../data";
 import CardFront from "./CardFront";
 import CardBack from "./CardBack";
 import LockedDay from "./LockedDay";
@@ -16,15 +16,15 @@ function MemoryCard({ entry, compact = false }: MemoryCardProps) {
   const today = getToday();
   const isFuture = entry.date > today;
 
-  // If the date is in the future, show locked state (non-interactive)
-  if (isFuture) {
+  // If the date is in the future or not unlocked yet, show locked state (non-interactive)
+  if (isFuture || entry.locked) {
     return (
       <div
         className={`${
           compact ? "w-full max-w-[200px]" : "w-full max-w-sm"
         } aspect-[3/4] cursor-not-allowed`}
       >
-        <LockedDay date={entry.date} />
+        <LockedDay date={entry.locked ? getUnlockDate(entry.date) : entry.date} />
       </div>
     );
   }
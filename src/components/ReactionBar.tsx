@@ -0,0 +1,70 @@
+import { Heart } from "lucide-react";
+import { FAVORITE_REACTION, REACTIONS } from "../reactions";
+
+interface ReactionBarProps {
+  /** The viewer's reactions to this memory */
+  selected: string[];
+  onToggle: (emoji: string) => void;
+  /** "dark" for use over the modal backdrop */
+  tone?: "light" | "dark";
+}
+
+/** The heart (favorite) on its own, for the corner of a card. */
+export function FavoriteButton({
+  selected,
+  onToggle,
+}: {
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards open on click; the heart shouldn't
+        e.stopPropagation();
+        onToggle();
+      }}
+      aria-pressed={selected}
+      aria-label={selected ? "Remove from favorites" : "Add to favorites"}
+      className="w-8 h-8 rounded-full bg-white/80 backdrop-blur shadow-sm flex items-center justify-center text-rose-400 hover:text-rose-500 hover:bg-white transition-colors"
+    >
+      <Heart className={`w-4 h-4 ${selected ? "fill-rose-500 text-rose-500" : ""}`} />
+    </button>
+  );
+}
+
+/** A row of reactions the viewer can toggle; the heart also makes the memory a favorite. */
+export default function ReactionBar({ selected, onToggle, tone = "light" }: ReactionBarProps) {
+  const idle =
+    tone === "dark"
+      ? "bg-white/15 text-white hover:bg-white/30"
+      : "border border-rose-200 bg-white/70 backdrop-blur text-rose-400 hover:bg-rose-50";
+  const active = tone === "dark" ? "bg-white text-rose-500" : "border border-rose-300 bg-rose-100 text-rose-500";
+
+  return (
+    <div className="flex items-center justify-center gap-1.5" role="group" aria-label="React to this memory">
+      {REACTIONS.map((emoji) => {
+        const on = selected.includes(emoji);
+        return (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => onToggle(emoji)}
+            aria-pressed={on}
+            aria-label={emoji === FAVORITE_REACTION ? "Favorite" : `React with ${emoji}`}
+            className={`w-8 h-8 rounded-full flex items-center justify-center text-base transition-transform active:scale-90 ${
+              on ? active : idle
+            }`}
+          >
+            {emoji === FAVORITE_REACTION ? (
+              <Heart className={`w-4 h-4 ${on ? "fill-rose-500" : ""}`} />
+            ) : (
+              emoji
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
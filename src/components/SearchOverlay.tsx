@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Loader2, Search, X } from "lucide-react";
+import { searchMemories } from "../data";
+import { matchesQuery, queryTerms } from "../search";
+import type { SearchResult } from "../types";
+
+// Wait for a pause in typing before asking the server
+const DEBOUNCE_MS = 250;
+
+/** `text` with the words matching the query marked. */
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  // Splitting on a captured group leaves the words at the odd indexes
+  const parts = text.split(/([\p{L}\p{N}'’]+)/u);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 && matchesQuery(part, terms) ? (
+          <mark key={i} className="bg-rose-100 text-rose-700 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Full-text search over memories as a dialog: results come in as you type,
+ * newest first, and the arrow keys and Enter pick one. Viewers only ever get
+ * unlocked memories back (see api/search.ts).
+ */
+export default function SearchOverlay({
+  onSelect,
+  onClose,
+}: {
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}) {
+  const [input, setInput] = useState("");
+  const [found, setFound] = useState<{
+    query: string;
+    results: SearchResult[];
+    terms: string[];
+    error: string | null;
+  } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = input.trim();
+  const searchable = queryTerms(query).length > 0;
+
+  useEffect(() => {
+    if (!searchable) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      searchMemories(query, controller.signal)
+        .then(({ results, terms }) => setFound({ query, results, terms, error: null }))
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setFound({ query, results: [], terms: [], error: "Search failed. Please try again." });
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, searchable]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  // Earlier results stay up, dimmed, until the new ones arrive
+  const shown = searchable ? found : null;
+  const searching = searchable && found?.query !== query;
+  const results = shown?.results ?? [];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && results[highlighted]) {
+      e.preventDefault();
+      onSelect(results[highlighted]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 backdrop-blur-sm p-4 pt-[10vh]"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Search memories"
+        className="w-full max-w-lg bg-white rounded-2xl shadow-xl shadow-rose-200/50 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-rose-100">
+          {searching ? (
+            <Loader2 className="w-4 h-4 text-rose-300 animate-spin shrink-0" />
+          ) : (
+            <Search className="w-4 h-4 text-rose-300 shrink-0" />
+          )}
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            autoFocus
+            placeholder="Search memories…"
+            aria-label="Search memories"
+            className="flex-1 text-sm text-rose-700 placeholder:text-rose-300 bg-transparent focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded-full text-rose-300 hover:text-rose-500 transition-colors"
+            aria-label="Close search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className={`max-h-[60vh] overflow-y-auto ${searching ? "opacity-60" : ""}`}>
+          {!searchable ? (
+            <p className="text-xs text-rose-300 text-center py-6">
+              {query ? "Keep typing…" : "Words, places, names or tags"}
+            </p>
+          ) : shown?.error ? (
+            <p className="text-xs text-red-400 text-center py-6">{shown.error}</p>
+          ) : shown && results.length === 0 && !searching ? (
+            <p className="text-xs text-rose-300 text-center py-6">No memories match "{query}"</p>
+          ) : (
+            <ul className="divide-y divide-rose-50">
+              {results.map((result, i) => (
+                <li key={`${result.date}/${result.id}`}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(result)}
+                    onMouseEnter={() => setHighlighted(i)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${
+                      i === highlighted ? "bg-rose-50" : ""
+                    }`}
+                  >
+                    <p className="text-[11px] text-rose-400 mb-0.5">
+                      {new Date(result.date + "T00:00:00").toLocaleDateString("en-US", {
+                        month: "long",
+                        day: "numeric",
+                        year: "numeric",
+                      })}
+                    </p>
+                    <p className="text-sm text-rose-700 leading-snug">
+                      {result.snippet ? (
+                        <Highlighted text={result.snippet} terms={shown?.terms ?? []} />
+                      ) : (
+                        <span className="text-rose-300 italic">No text</span>
+                      )}
+                    </p>
+                    {result.tags && (
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {result.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="text-[10px] px-1.5 py-0.5 rounded-full bg-rose-50 text-rose-400"
+                          >
+                            <Highlighted text={tag} terms={shown?.terms ?? []} />
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
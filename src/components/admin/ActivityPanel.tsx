@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  FileMinus,
+  FilePen,
+  FilePlus,
+  FileX,
+  FolderMinus,
+  FolderPen,
+  ImageMinus,
+  ImagePlus,
+  ListOrdered,
+  ListTree,
+  Loader2,
+  RotateCcw,
+} from "lucide-react";
+import { apiFetch } from "../../api";
+
+interface AuditEntry {
+  id: string;
+  at: string;
+  actor: string;
+  sessionId: string | null;
+  source: string;
+  action: string;
+  target: string;
+  before: unknown;
+  after: unknown;
+  reason: string | null;
+}
+
+const ACTION_LABELS: Record<string, { label: string; icon: typeof FilePen }> = {
+  "memory.create": { label: "Memory created", icon: FilePlus },
+  "memory.update": { label: "Memory overwritten", icon: FilePen },
+  "memory.delete": { label: "Memory moved to trash", icon: FileMinus },
+  "memory.restore": { label: "Memory restored", icon: RotateCcw },
+  "memory.purge": { label: "Memory deleted permanently", icon: FileX },
+  "memory.reorder": { label: "Day's memories reordered", icon: ListOrdered },
+  "collection.update": { label: "Collection saved", icon: FolderPen },
+  "collection.delete": { label: "Collection removed", icon: FolderMinus },
+  "media.upload": { label: "Media uploaded", icon: ImagePlus },
+  "media.delete": { label: "Media deleted", icon: ImageMinus },
+  "media_index.update": { label: "Media index replaced", icon: ListTree },
+};
+
+const ACTION_FILTERS = [
+  { value: "", label: "All activity" },
+  { value: "memory", label: "All memory changes" },
+  { value: "memory.create", label: "Memories created" },
+  { value: "memory.update", label: "Memories overwritten" },
+  { value: "memory.delete", label: "Memories moved to trash" },
+  { value: "memory.restore", label: "Memories restored" },
+  { value: "memory.purge", label: "Memories deleted permanently" },
+  { value: "memory.reorder", label: "Days reordered" },
+  { value: "collection", label: "Collection changes" },
+  { value: "media", label: "All media changes" },
+  { value: "media.upload", label: "Media uploaded" },
+  { value: "media.delete", label: "Media deleted" },
+  { value: "media_index", label: "Media index updates" },
+];
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeSource(entry: AuditEntry): string {
+  if (entry.source === "web") return entry.actor === "admin" ? "Admin" : entry.actor;
+  if (entry.source === "api") return `API ${entry.actor}`;
+  return entry.source.replace(/^script:/, "Script ");
+}
+
+function Snapshot({ label, value }: { label: string; value: unknown }) {
+  if (value === null || value === undefined) return null;
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wide text-rose-300 mb-0.5">{label}</p>
+      <pre className="text-[11px] text-rose-600 bg-rose-50/60 rounded-lg p-2 overflow-x-auto max-h-48 whitespace-pre-wrap break-all">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+export default function ActivityPanel({
+  showToast,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [action, setAction] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams();
+      if (action) params.set("action", action);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      if (cursor) params.set("cursor", cursor);
+      const res = await apiFetch(`/api/admin/audit?${params.toString()}`);
+      if (!res.ok) throw new Error("Failed to load activity");
+      return (await res.json()) as { entries: AuditEntry[]; nextCursor: string | null };
+    },
+    [action, from, to]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchPage(null)
+      .then((page) => {
+        if (cancelled) return;
+        setEntries(page.entries);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) showToast("Failed to load activity", "error");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage, showToast]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setEntries((prev) => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load activity", "error");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const inputClass =
+    "px-3 py-2 rounded-xl border border-rose-200 text-xs text-rose-600 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300";
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          className={inputClass}
+          aria-label="Filter by action"
+        >
+          {ACTION_FILTERS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => setFrom(e.target.value)}
+          className={inputClass}
+          aria-label="From date"
+        />
+        <span className="text-xs text-rose-300">to</span>
+        <input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => setTo(e.target.value)}
+          className={inputClass}
+          aria-label="To date"
+        />
+        {(action || from || to) && (
+          <button
+            type="button"
+            onClick={() => {
+              setAction("");
+              setFrom("");
+              setTo("");
+            }}
+            className="text-xs text-rose-400 hover:text-rose-600 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Entries */}
+      {loading ? (
+        <p className="text-xs text-rose-300">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">No activity for these filters</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {entries.map((entry) => {
+            const meta = ACTION_LABELS[entry.action] ?? { label: entry.action, icon: FilePen };
+            const Icon = meta.icon;
+            const hasSnapshot = entry.before !== null || entry.after !== null;
+            return (
+              <li key={entry.id} className="py-2.5">
+                <div className="flex items-start gap-3">
+                  <Icon className="w-4 h-4 text-rose-300 shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-rose-600 font-medium truncate">
+                      {meta.label}
+                      <span className="font-normal text-rose-400"> · {entry.target}</span>
+                    </p>
+                    <p className="text-[11px] text-rose-300">
+                      {formatTimestamp(entry.at)} · {describeSource(entry)}
+                      {entry.reason && ` · ${entry.reason}`}
+                    </p>
+                    {hasSnapshot && (
+                      <details className="mt-1.5">
+                        <summary className="text-[11px] text-rose-400 cursor-pointer select-none">
+                          Details
+                        </summary>
+                        <div className="mt-1.5 space-y-2">
+                          <Snapshot label="Before" value={entry.before} />
+                          <Snapshot label="After" value={entry.after} />
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-rose-200 text-rose-500 text-xs hover:bg-rose-50 transition-colors disabled:opacity-50"
+          >
+            {loadingMore && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, KeyRound, Loader2, Plus, X } from "lucide-react";
+import { apiFetch } from "../../api";
+
+const SCOPES = [
+  { scope: "memories:write", label: "Edit memories" },
+  { scope: "media:delete", label: "Delete media" },
+  { scope: "index:rebuild", label: "Rebuild media index" },
+] as const;
+
+type Scope = (typeof SCOPES)[number]["scope"];
+
+interface ApiToken {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  createdAt: string;
+  expiresAt: number | null;
+  lastUsedAt: string | null;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: null, label: "Never" },
+];
+
+function formatShortDate(value: string | number): string {
+  const d = typeof value === "number" ? new Date(value * 1000) : new Date(value);
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function ApiTokensPanel({
+  showToast,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Set<Scope>>(new Set());
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/admin/tokens");
+      if (!res.ok) throw new Error("Failed to load tokens");
+      setTokens(await res.json());
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load API tokens", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: Scope) => {
+    setScopes((prev) => {
+      const next = new Set(prev);
+      if (next.has(scope)) next.delete(scope);
+      else next.add(scope);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await apiFetch("/api/admin/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          scopes: [...scopes],
+          expiresInDays: expiryDays,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Create failed");
+      const { token, ...record } = data as ApiToken & { token: string };
+      setNewToken(token);
+      setCopied(false);
+      setTokens((prev) => [record, ...prev]);
+      setName("");
+      setScopes(new Set());
+    } catch {
+      showToast("Failed to create token. Please retry.", "error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    setRevoking(token.id);
+    try {
+      const res = await apiFetch("/api/admin/tokens", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: token.id }),
+      });
+      if (!res.ok) throw new Error("Revoke failed");
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+      showToast("Token revoked", "success");
+    } catch {
+      showToast("Failed to revoke token. Please retry.", "error");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken).catch(() => {});
+    setCopied(true);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-4">
+      {/* Create form */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name (e.g. laptop scripts)"
+          maxLength={64}
+          className="w-full px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 placeholder:text-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent"
+        />
+        <div className="flex flex-wrap gap-1.5">
+          {SCOPES.map(({ scope, label }) => (
+            <button
+              key={scope}
+              type="button"
+              onClick={() => toggleScope(scope)}
+              className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${
+                scopes.has(scope)
+                  ? "bg-rose-500 text-white border-rose-500"
+                  : "bg-white text-rose-400 border-rose-200 hover:border-rose-300"
+              }`}
+              title={scope}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={expiryDays === null ? "never" : String(expiryDays)}
+            onChange={(e) =>
+              setExpiryDays(e.target.value === "never" ? null : Number(e.target.value))
+            }
+            className="px-3 py-2 rounded-xl border border-rose-200 text-xs text-rose-600 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300"
+            aria-label="Expires after"
+          >
+            {EXPIRY_OPTIONS.map(({ days, label }) => (
+              <option key={label} value={days === null ? "never" : String(days)}>
+                Expires: {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={creating || !name.trim() || scopes.size === 0}
+            className="ml-auto flex items-center gap-1.5 text-xs px-3 py-2 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {creating ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <Plus className="w-3.5 h-3.5" />
+            )}
+            Create token
+          </button>
+        </div>
+      </div>
+
+      {/* Newly created token (only shown once) */}
+      {newToken && (
+        <div className="p-3 rounded-xl bg-amber-50 border border-amber-200">
+          <p className="text-xs text-amber-700 mb-2">
+            Copy this token now. It won't be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 text-[11px] bg-white/80 rounded-lg px-2 py-1.5 text-amber-800 font-mono break-all">
+              {newToken}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="shrink-0 w-8 h-8 rounded-lg border border-amber-200 bg-white flex items-center justify-center text-amber-600 hover:bg-amber-100 transition-colors"
+              aria-label="Copy token"
+            >
+              {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => setNewToken(null)}
+              className="shrink-0 w-8 h-8 rounded-lg border border-amber-200 bg-white flex items-center justify-center text-amber-600 hover:bg-amber-100 transition-colors"
+              aria-label="Dismiss"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Token list */}
+      {loading ? (
+        <p className="text-xs text-rose-300">Loading...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">No API tokens yet</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center gap-3 py-2.5">
+              <KeyRound className="w-4 h-4 text-rose-300 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-rose-600 font-medium truncate">{token.name}</p>
+                <p className="text-[11px] text-rose-400 truncate">{token.scopes.join(", ")}</p>
+                <p className="text-[11px] text-rose-300">
+                  {token.expiresAt
+                    ? `Expires ${formatShortDate(token.expiresAt)}`
+                    : "Never expires"}
+                  {" · "}
+                  {token.lastUsedAt
+                    ? `Last used ${formatShortDate(token.lastUsedAt)}`
+                    : "Never used"}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(token)}
+                disabled={revoking !== null}
+                className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-red-50 hover:text-red-500 transition-colors disabled:opacity-50"
+                aria-label={`Revoke ${token.name}`}
+              >
+                {revoking === token.id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <X className="w-3.5 h-3.5" />
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import { useMemo, useState } from "react";
+import { Check, ImageOff, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiFetch } from "../../api";
+import { isAudioUrl, isValidTag, normalizeTag } from "../../validation";
+import type { Collection, MemoryEntry } from "../../types";
+
+const MAX_TITLE_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 280;
+
+// Covers are shown as <img>; videos and voice notes can't be one
+function isImageUrl(url: string): boolean {
+  return !isAudioUrl(url) && !/\.(mp4|webm|mov)$/i.test(new URL(url, location.href).pathname);
+}
+
+interface Draft {
+  tag: string;
+  title: string;
+  description: string;
+  cover: string | null;
+  /** The collection being edited; null while adding one */
+  editing: string | null;
+}
+
+const EMPTY_DRAFT: Draft = { tag: "", title: "", description: "", cover: null, editing: null };
+
+/**
+ * Collections: a title, description and cover for every memory carrying a
+ * tag. Viewers find them on the home page and at /collections/<tag>.
+ */
+export default function CollectionsPanel({
+  collections,
+  memories,
+  onChanged,
+  showToast,
+}: {
+  collections: Collection[];
+  /** Every memory, for tag counts and cover choices */
+  memories: MemoryEntry[];
+  onChanged: () => void;
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // tag being saved or removed
+
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const m of memories) {
+      for (const tag of m.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return counts;
+  }, [memories]);
+
+  // Tags in use without a collection yet
+  const uncollected = [...tagCounts.keys()]
+    .filter((tag) => !collections.some((c) => c.tag === tag))
+    .sort();
+
+  const draftTag = draft ? normalizeTag(draft.tag) : "";
+  const coverChoices = useMemo(
+    () => [
+      ...new Set(
+        memories
+          .filter((m) => draftTag && m.tags?.includes(draftTag))
+          .flatMap((m) => m.media ?? [])
+          .filter(isImageUrl)
+      ),
+    ],
+    [memories, draftTag]
+  );
+
+  const save = async () => {
+    if (!draft) return;
+    const tag = normalizeTag(draft.tag);
+    if (!isValidTag(tag)) {
+      showToast("Pick a tag: a-z, 0-9 and dashes", "error");
+      return;
+    }
+    if (!draft.title.trim()) {
+      showToast("Give the collection a title", "error");
+      return;
+    }
+    if (!draft.editing && collections.some((c) => c.tag === tag)) {
+      showToast(`There's already a collection for "${tag}"`, "error");
+      return;
+    }
+
+    setBusy(tag);
+    try {
+      const res = await apiFetch("/api/collections", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tag,
+          title: draft.title.trim(),
+          description: draft.description.trim() || null,
+          cover: draft.cover,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Save failed");
+      showToast("Collection saved", "success");
+      setDraft(null);
+      onChanged();
+    } catch (err) {
+      showToast((err as Error).message || "Save failed", "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async (collection: Collection) => {
+    if (!confirm(`Remove the "${collection.title}" collection? Its memories keep the ${collection.tag} tag.`)) {
+      return;
+    }
+    setBusy(collection.tag);
+    try {
+      const res = await apiFetch("/api/collections", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tag: collection.tag }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Delete failed");
+      showToast("Collection removed", "success");
+      if (draft?.editing === collection.tag) setDraft(null);
+      onChanged();
+    } catch (err) {
+      showToast((err as Error).message || "Delete failed", "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-3">
+      <p className="text-xs text-rose-400">
+        A collection gathers every memory with its tag. Viewers only see the unlocked, published ones.
+      </p>
+
+      {collections.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">No collections yet</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {collections.map((c) => (
+            <li key={c.tag} className="py-2.5 flex items-center gap-3">
+              <div className="w-12 h-12 rounded-lg overflow-hidden bg-rose-50 shrink-0 flex items-center justify-center">
+                {c.cover ? (
+                  <img src={c.cover} alt="" className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                  <ImageOff className="w-4 h-4 text-rose-200" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-rose-600 font-medium truncate">
+                  {c.title}
+                  <span className="font-normal text-rose-400">
+                    {" "}
+                    · {c.tag} · {tagCounts.get(c.tag) ?? 0} memor{tagCounts.get(c.tag) === 1 ? "y" : "ies"}
+                  </span>
+                </p>
+                {c.description && <p className="text-xs text-rose-500 truncate">{c.description}</p>}
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({
+                      tag: c.tag,
+                      title: c.title,
+                      description: c.description ?? "",
+                      cover: c.cover ?? null,
+                      editing: c.tag,
+                    })
+                  }
+                  disabled={busy !== null}
+                  className="p-1.5 rounded-lg text-rose-400 hover:text-rose-600 hover:bg-rose-50 transition-colors disabled:opacity-50"
+                  aria-label={`Edit ${c.title}`}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(c)}
+                  disabled={busy !== null}
+                  className="p-1.5 rounded-lg text-rose-300 hover:text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+                  aria-label={`Remove ${c.title}`}
+                >
+                  {busy === c.tag && !draft ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-3.5 h-3.5" />
+                  )}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="rounded-xl border border-rose-100 bg-rose-50/30 p-3 space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1 text-xs text-rose-400">
+              Tag
+              <input
+                type="text"
+                value={draft.tag}
+                onChange={(e) => setDraft({ ...draft, tag: e.target.value, cover: null })}
+                disabled={draft.editing !== null}
+                list="collection-tags"
+                placeholder="trips"
+                className="px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300 disabled:bg-rose-50"
+              />
+              <datalist id="collection-tags">
+                {uncollected.map((tag) => (
+                  <option key={tag} value={tag} />
+                ))}
+              </datalist>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-rose-400">
+              Title
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                maxLength={MAX_TITLE_LENGTH}
+                placeholder="Trips"
+                className="px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300"
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-xs text-rose-400">
+            Description (optional)
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              rows={2}
+              className="px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300 resize-none"
+            />
+          </label>
+
+          <div>
+            <p className="text-xs text-rose-400 mb-1.5">Cover</p>
+            {coverChoices.length === 0 ? (
+              <p className="text-[11px] text-rose-300">
+                {draftTag ? "No photos in memories with this tag yet." : "Pick a tag to choose a cover."}
+              </p>
+            ) : (
+              <div className="grid grid-cols-5 sm:grid-cols-8 gap-1.5 max-h-48 overflow-y-auto">
+                {coverChoices.map((url) => (
+                  <button
+                    key={url}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, cover: draft.cover === url ? null : url })}
+                    aria-pressed={draft.cover === url}
+                    className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-colors ${
+                      draft.cover === url ? "border-rose-500" : "border-transparent hover:border-rose-200"
+                    }`}
+                  >
+                    <img src={url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                    {draft.cover === url && (
+                      <span className="absolute top-0.5 right-0.5 w-4 h-4 rounded-full bg-rose-500 text-white flex items-center justify-center">
+                        <Check className="w-3 h-3" />
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={busy !== null}
+              className="text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-400 hover:bg-rose-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={busy !== null}
+              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-rose-500 text-white hover:bg-rose-600 transition-colors disabled:opacity-50"
+            >
+              {busy !== null && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Save collection
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> New collection
+        </button>
+      )}
+    </div>
+  );
+}
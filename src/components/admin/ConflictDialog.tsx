@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import type { MemoryEntry, MemoryFormat } from "../../types";
+
+export interface MemoryDraft {
+  text: string;
+  media: string[];
+  /** Left out: whatever the editor has selected */
+  format?: MemoryFormat;
+}
+
+/**
+ * Three-way merge of the local draft into the saved copy, relative to the
+ * version the draft was started from. Media: the saved list plus the draft's
+ * additions, minus the draft's removals. Text: whichever side changed, or
+ * both one after the other when both did.
+ */
+function mergeDrafts(base: MemoryEntry | null, server: MemoryEntry | null, local: MemoryDraft): MemoryDraft {
+  const baseText = base?.text ?? "";
+  const serverText = server?.text ?? "";
+  let text: string;
+  if (local.text === baseText || local.text === serverText) text = serverText;
+  else if (serverText === baseText) text = local.text;
+  else text = `${serverText}\n\n${local.text}`;
+
+  const baseMedia = new Set(base?.media || []);
+  const localMedia = new Set(local.media);
+  const removed = [...baseMedia].filter((url) => !localMedia.has(url));
+  const media = (server?.media || []).filter((url) => !removed.includes(url));
+  for (const url of local.media) {
+    if (!baseMedia.has(url) && !media.includes(url)) media.push(url);
+  }
+
+  return { text, media };
+}
+
+function CopySummary({ label, text, media, missing }: { label: string; text: string; media: string[]; missing?: boolean }) {
+  return (
+    <div className="flex-1 min-w-0 rounded-xl border border-rose-100 p-3">
+      <p className="text-[10px] uppercase tracking-wide text-rose-300 mb-1">{label}</p>
+      {missing ? (
+        <p className="text-xs text-rose-400 italic">Deleted</p>
+      ) : (
+        <>
+          <p className="text-xs text-rose-600 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+            {text || <span className="italic text-rose-300">No message</span>}
+          </p>
+          <p className="text-[11px] text-rose-400 mt-2">
+            {media.length} photo{media.length === 1 ? "" : "s"}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shown when a save hits a 409: someone saved this date since it was loaded.
+ * The user can save a merge, overwrite with their draft, or take the saved copy.
+ */
+export default function ConflictDialog({
+  date,
+  base,
+  server,
+  draft,
+  saving,
+  onSave,
+  onUseSaved,
+  onCancel,
+}: {
+  date: string;
+  base: MemoryEntry | null;
+  server: MemoryEntry | null;
+  draft: MemoryDraft;
+  saving: boolean;
+  onSave: (draft: MemoryDraft) => void;
+  onUseSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [merged, setMerged] = useState(() => mergeDrafts(base, server, draft));
+
+  const onlySaved = (server?.media || []).filter((url) => !draft.media.includes(url)).length;
+  const onlyDraft = draft.media.filter((url) => !(server?.media || []).includes(url)).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-lg max-w-lg w-full p-5 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+          <div>
+            <h3 className="text-sm font-semibold text-rose-700">This memory changed while you were editing</h3>
+            <p className="text-xs text-rose-400 mt-0.5">
+              {date} was saved somewhere else. Nothing has been overwritten yet.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <CopySummary
+            label="Saved copy"
+            text={server?.text ?? ""}
+            media={server?.media || []}
+            missing={!server}
+          />
+          <CopySummary label="Your draft" text={draft.text} media={draft.media} />
+        </div>
+        {(onlySaved > 0 || onlyDraft > 0) && (
+          <p className="text-[11px] text-rose-400">
+            {onlySaved} photo{onlySaved === 1 ? "" : "s"} only in the saved copy, {onlyDraft} only in
+            your draft.
+          </p>
+        )}
+
+        <div>
+          <p className="text-[10px] uppercase tracking-wide text-rose-300 mb-1">Merged</p>
+          <textarea
+            value={merged.text}
+            onChange={(e) => setMerged((prev) => ({ ...prev, text: e.target.value }))}
+            rows={4}
+            className="w-full px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 focus:outline-none focus:ring-2 focus:ring-rose-300 resize-y"
+          />
+          <p className="text-[11px] text-rose-400 mt-1">
+            {merged.media.length} photo{merged.media.length === 1 ? "" : "s"}: the saved ones plus the ones
+            you added, minus the ones you removed.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="px-3 py-2 rounded-xl text-xs text-rose-400 hover:text-rose-600 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onUseSaved}
+            disabled={saving}
+            className="px-3 py-2 rounded-xl border border-rose-200 text-xs text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+          >
+            Use saved copy
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(draft)}
+            disabled={saving}
+            className="px-3 py-2 rounded-xl border border-rose-200 text-xs text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+          >
+            Overwrite with mine
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave({ text: merged.text.trim(), media: merged.media })}
+            disabled={saving || (!merged.text.trim() && merged.media.length === 0)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-rose-500 text-white text-xs font-medium hover:bg-rose-600 transition-colors disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            Save merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RotateCcw, X } from "lucide-react";
+import { apiFetch } from "../../api";
+import type { MemoryFormat } from "../../types";
+
+export interface Revision {
+  version: number;
+  type: string;
+  text: string;
+  format?: MemoryFormat;
+  media: string[];
+  savedAt: string | null;
+  savedBy: string | null;
+  replacedAt?: string;
+  replacedBy?: string;
+}
+
+interface HistoryPage {
+  current: Revision | null;
+  revisions: Revision[];
+  nextCursor: string | null;
+}
+
+type DiffPart = { value: string; change: "same" | "added" | "removed" };
+
+/** Word-level diff (LCS over words and whitespace). Love notes are short, so O(n·m) is fine. */
+function diffWords(from: string, to: string): DiffPart[] {
+  const a = from.split(/(\s+)/).filter(Boolean);
+  const b = to.split(/(\s+)/).filter(Boolean);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (value: string, change: DiffPart["change"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.change === change) last.value += value;
+    else parts.push({ value, change });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+  return parts;
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeSave(revision: Revision): string {
+  if (!revision.savedAt) return "Saved before history was kept";
+  return `${formatTimestamp(revision.savedAt)}${revision.savedBy ? ` · ${revision.savedBy}` : ""}`;
+}
+
+function fileName(url: string): string {
+  return decodeURIComponent(url.split("/").pop() || url);
+}
+
+/** What reverting to `revision` would change, relative to the saved copy. */
+function RevisionDiff({ revision, current }: { revision: Revision; current: Revision | null }) {
+  const text = diffWords(current?.text ?? "", revision.text);
+  const currentMedia = current?.media ?? [];
+  const added = revision.media.filter((url) => !currentMedia.includes(url));
+  const removed = currentMedia.filter((url) => !revision.media.includes(url));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-rose-600 whitespace-pre-wrap break-words bg-rose-50/60 rounded-lg p-2">
+        {text.map((part, i) =>
+          part.change === "added" ? (
+            <ins key={i} className="bg-green-100 text-green-700 no-underline">
+              {part.value}
+            </ins>
+          ) : part.change === "removed" ? (
+            <del key={i} className="bg-red-100 text-red-500">
+              {part.value}
+            </del>
+          ) : (
+            <span key={i}>{part.value}</span>
+          )
+        )}
+        {text.length === 0 && <span className="italic text-rose-300">No message</span>}
+      </p>
+      {(revision.format ?? "plain") !== (current?.format ?? "plain") && (
+        <p className="text-[11px] text-rose-400">
+          Written as {revision.format === "markdown" ? "Markdown" : "plain text"}
+        </p>
+      )}
+      {added.length === 0 && removed.length === 0 ? (
+        <p className="text-[11px] text-rose-300">Same photos as the saved copy</p>
+      ) : (
+        <ul className="text-[11px] space-y-0.5">
+          {added.map((url) => (
+            <li key={`+${url}`} className="text-green-700 truncate">
+              + {fileName(url)}
+            </li>
+          ))}
+          {removed.map((url) => (
+            <li key={`-${url}`} className="text-red-500 truncate line-through">
+              − {fileName(url)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Slide-over listing a memory's earlier versions. Selecting one shows how it
+ * differs from the saved copy; reverting saves its content as a new version.
+ */
+export default function HistoryPanel({
+  date,
+  id,
+  onClose,
+  onRevert,
+  showToast,
+}: {
+  date: string;
+  /** Entry id within the day */
+  id: string;
+  onClose: () => void;
+  /** Saves the revision's content; resolves true once saved. */
+  onRevert: (revision: Revision) => Promise<boolean>;
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [current, setCurrent] = useState<Revision | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [reverting, setReverting] = useState(false);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams({ id });
+      if (cursor) params.set("cursor", cursor);
+      const res = await apiFetch(`/api/memories/${date}/history?${params.toString()}`);
+      if (!res.ok) throw new Error("Failed to load history");
+      return (await res.json()) as HistoryPage;
+    },
+    [date, id]
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const page = await fetchPage(null);
+      setCurrent(page.current);
+      setRevisions(page.revisions);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load history", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage, showToast]);
+
+  useEffect(() => {
+    setSelected(null);
+    load();
+  }, [load]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setRevisions((prev) => [...prev, ...page.revisions]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load history", "error");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRevert = async (revision: Revision) => {
+    if (!confirm(`Revert to version ${revision.version}? Unsaved changes in the editor will be replaced.`))
+      return;
+    setReverting(true);
+    try {
+      if (await onRevert(revision)) {
+        setSelected(null);
+        await load();
+      }
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-md bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-rose-100">
+          <h3 className="text-sm font-semibold text-rose-600">History · {date}</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-rose-400 hover:text-rose-600 hover:bg-rose-50 transition-colors"
+            aria-label="Close history"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {loading ? (
+            <p className="text-xs text-rose-300">Loading...</p>
+          ) : (
+            <>
+              {current && (
+                <div className="rounded-xl border border-rose-200 bg-rose-50/40 p-3">
+                  <p className="text-xs font-medium text-rose-600">
+                    Version {current.version} <span className="font-normal text-rose-400">· saved copy</span>
+                  </p>
+                  <p className="text-[11px] text-rose-300">{describeSave(current)}</p>
+                </div>
+              )}
+              {revisions.length === 0 ? (
+                <p className="text-xs text-rose-300 text-center py-2">No earlier versions</p>
+              ) : (
+                <ul className="space-y-2">
+                  {revisions.map((revision) => {
+                    const open = selected === revision.version;
+                    return (
+                      <li key={revision.version} className="rounded-xl border border-rose-100">
+                        <button
+                          type="button"
+                          onClick={() => setSelected(open ? null : revision.version)}
+                          className="w-full text-left px-3 py-2"
+                        >
+                          <p className="text-xs font-medium text-rose-600">
+                            Version {revision.version}
+                            <span className="font-normal text-rose-400">
+                              {" "}
+                              · {revision.media.length} photo{revision.media.length === 1 ? "" : "s"}
+                            </span>
+                          </p>
+                          <p className="text-[11px] text-rose-300">{describeSave(revision)}</p>
+                          {!open && revision.text && (
+                            <p className="text-[11px] text-rose-500 truncate mt-0.5">{revision.text}</p>
+                          )}
+                        </button>
+                        {open && (
+                          <div className="px-3 pb-3 space-y-2">
+                            <RevisionDiff revision={revision} current={current} />
+                            <button
+                              type="button"
+                              onClick={() => handleRevert(revision)}
+                              disabled={reverting}
+                              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50"
+                            >
+                              {reverting ? (
+                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                              ) : (
+                                <RotateCcw className="w-3.5 h-3.5" />
+                              )}
+                              Revert to this version
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {nextCursor && (
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    onClick={handleLoadMore}
+                    disabled={loadingMore}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-rose-200 text-rose-500 text-xs hover:bg-rose-50 transition-colors disabled:opacity-50"
+                  >
+                    {loadingMore && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    Load more
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
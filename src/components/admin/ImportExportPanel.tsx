@@ -0,0 +1,330 @@
+import { useRef, useState } from "react";
+import { Download, FileUp, Loader2, Upload } from "lucide-react";
+import { apiFetch } from "../../api";
+import type { MemoryEntry } from "../../types";
+
+type Format = "json" | "csv";
+type Mode = "merge" | "replace";
+
+interface ImportPlan {
+  mode: Mode;
+  creates: MemoryEntry[];
+  updates: { date: string; changes: string[]; before: MemoryEntry; after: MemoryEntry }[];
+  conflicts: { date: string; changes: string[]; current: MemoryEntry; incoming: MemoryEntry }[];
+  deletes: MemoryEntry[];
+  unchanged: number;
+  errors: { row: number; date?: string; fields: Record<string, string> }[];
+}
+
+interface ImportResult extends ImportPlan {
+  applied: { created: number; updated: number; deleted: number };
+  failed: { date: string; id?: string; error: string }[];
+}
+
+const MODE_OPTIONS: { value: Mode; label: string; hint: string }[] = [
+  {
+    value: "merge",
+    label: "Merge",
+    hint: "Add new memories and update changed ones. Memories edited since the file was exported are skipped.",
+  },
+  {
+    value: "replace",
+    label: "Replace",
+    hint: "Make the site match the file: every row is saved, and memories missing from the file go to the trash.",
+  },
+];
+
+function preview(entry: MemoryEntry): string {
+  const photos = entry.media?.length ?? 0;
+  const text = entry.text ? entry.text.slice(0, 80) : "No message";
+  return photos > 0 ? `${text} · ${photos} photo${photos === 1 ? "" : "s"}` : text;
+}
+
+function PlanList({
+  title,
+  tone,
+  items,
+}: {
+  title: string;
+  tone: string;
+  items: { key: string; label: string; detail?: string }[];
+}) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className={`text-xs font-medium ${tone}`}>
+        {title} ({items.length})
+      </p>
+      <ul className="mt-1 max-h-40 overflow-y-auto divide-y divide-rose-50 text-[11px]">
+        {items.map((item) => (
+          <li key={item.key} className="py-1">
+            <span className="text-rose-600 font-medium">{item.label}</span>
+            {item.detail && <span className="text-rose-400 break-words"> · {item.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Downloads every memory as JSON or CSV, and imports such a file: a dry run
+ * shows what would be created, updated, skipped or trashed before anything
+ * is saved.
+ */
+export default function ImportExportPanel({
+  showToast,
+  onImported,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+  /** Called after an import writes anything so the curate view reloads. */
+  onImported: () => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exporting, setExporting] = useState<Format | null>(null);
+  const [file, setFile] = useState<{ name: string; format: Format; content: string } | null>(null);
+  const [mode, setMode] = useState<Mode>("merge");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  // Rows the last import couldn't write
+  const [failed, setFailed] = useState<ImportResult["failed"]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: Format) => {
+    setExporting(format);
+    try {
+      const res = await apiFetch(`/api/admin/memories/export?format=${format}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const name = /filename="([^"]+)"/.exec(disposition)?.[1] || `memories.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      showToast((err as Error).message || "Export failed", "error");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    setPlan(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const format: Format | null = /\.csv$/i.test(selected.name)
+      ? "csv"
+      : /\.json$/i.test(selected.name)
+        ? "json"
+        : null;
+    if (!format) {
+      showToast("Choose a .json or .csv file", "error");
+      setFile(null);
+      return;
+    }
+    setFile({ name: selected.name, format, content: await selected.text() });
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setBusy(true);
+    setFailed([]);
+    try {
+      const res = await apiFetch("/api/admin/memories/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: file.format, content: file.content, mode, dryRun }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok && !data.errors) throw new Error(data.error || "Import failed");
+      if (dryRun || !res.ok) {
+        setPlan(data as ImportPlan);
+        if (!res.ok) showToast(data.error, "error");
+        return;
+      }
+
+      const result = data as ImportResult;
+      const { created, updated, deleted } = result.applied;
+      showToast(
+        `Imported: ${created} added, ${updated} updated${deleted ? `, ${deleted} moved to trash` : ""}` +
+          (result.failed.length ? ` · ${result.failed.length} skipped` : ""),
+        result.failed.length ? "error" : "success"
+      );
+      setFailed(result.failed);
+      setPlan(null);
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      if (created + updated + deleted > 0) onImported();
+    } catch (err) {
+      showToast((err as Error).message || "Import failed", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const writes = plan
+    ? plan.creates.length +
+      plan.updates.length +
+      (plan.mode === "replace" ? plan.conflicts.length + plan.deletes.length : 0)
+    : 0;
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-5">
+      <div className="space-y-2">
+        <p className="text-xs text-rose-400">
+          Download every memory (not the trash). CSV lists photo URLs and tags space-separated in one column each.
+        </p>
+        <div className="flex gap-2">
+          {(["json", "csv"] as const).map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+            >
+              {exporting === format ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : (
+                <Download className="w-3.5 h-3.5" />
+              )}
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3 border-t border-rose-50 pt-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
+          >
+            <FileUp className="w-3.5 h-3.5" /> Choose file
+          </button>
+          <span className="text-xs text-rose-400 truncate">{file ? file.name : "No file chosen"}</span>
+        </div>
+
+        <fieldset className="space-y-1.5">
+          {MODE_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-start gap-2 text-xs text-rose-500">
+              <input
+                type="radio"
+                name="import-mode"
+                value={option.value}
+                checked={mode === option.value}
+                onChange={() => {
+                  setMode(option.value);
+                  setPlan(null);
+                }}
+                className="mt-0.5 accent-rose-500"
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="text-rose-400"> — {option.hint}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <button
+          type="button"
+          onClick={() => runImport(true)}
+          disabled={!file || busy}
+          className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+        >
+          {busy && !plan ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : null}
+          Preview import
+        </button>
+
+        <PlanList
+          title="Not imported"
+          tone="text-red-500"
+          items={failed.map((f, i) => ({ key: `${i}`, label: f.date, detail: f.error }))}
+        />
+
+        {plan && (
+          <div className="space-y-3 rounded-xl border border-rose-100 bg-rose-50/40 p-3">
+            <p className="text-xs text-rose-500">
+              {plan.creates.length} to add · {plan.updates.length} to update ·{" "}
+              {plan.conflicts.length} edited since export · {plan.unchanged} unchanged
+              {plan.mode === "replace" && ` · ${plan.deletes.length} to trash`}
+            </p>
+
+            <PlanList
+              title="Invalid rows — fix these before importing"
+              tone="text-red-500"
+              items={plan.errors.map((e) => ({
+                key: `row-${e.row}`,
+                label: `Row ${e.row}${e.date ? ` (${e.date})` : ""}`,
+                detail: Object.values(e.fields).join("; "),
+              }))}
+            />
+            <PlanList
+              title="Add"
+              tone="text-green-700"
+              items={plan.creates.map((m, i) => ({ key: `${i}`, label: m.date, detail: preview(m) }))}
+            />
+            <PlanList
+              title="Update"
+              tone="text-rose-600"
+              items={plan.updates.map((u) => ({
+                key: `${u.date}/${u.after.id}`,
+                label: u.date,
+                detail: `${u.changes.join(", ")} → ${preview(u.after)}`,
+              }))}
+            />
+            <PlanList
+              title={plan.mode === "replace" ? "Edited since export — file wins" : "Edited since export — skipped"}
+              tone="text-amber-600"
+              items={plan.conflicts.map((c) => ({
+                key: `${c.date}/${c.current.id}`,
+                label: c.date,
+                detail: `saved v${c.current.version}, file v${c.incoming.version} · ${c.changes.join(", ")}`,
+              }))}
+            />
+            {plan.mode === "replace" && (
+              <PlanList
+                title="Move to trash"
+                tone="text-red-500"
+                items={plan.deletes.map((m) => ({ key: `${m.date}/${m.id}`, label: m.date, detail: preview(m) }))}
+              />
+            )}
+
+            <button
+              type="button"
+              onClick={() => {
+                if (
+                  plan.mode === "replace" &&
+                  plan.deletes.length > 0 &&
+                  !confirm(`Move ${plan.deletes.length} memories missing from the file to the trash?`)
+                )
+                  return;
+                runImport(false);
+              }}
+              disabled={busy || plan.errors.length > 0 || writes === 0}
+              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+              Import {writes} change{writes === 1 ? "" : "s"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
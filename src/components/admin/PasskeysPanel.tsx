@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from "react";
+import { Fingerprint, Loader2, Plus, X } from "lucide-react";
+import { startRegistration } from "@simplewebauthn/browser";
+import { apiFetch } from "../../api";
+
+interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  backedUp: boolean;
+}
+
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export default function PasskeysPanel({
+  showToast,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [registering, setRegistering] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/admin/passkeys");
+      if (!res.ok) throw new Error("Failed to load passkeys");
+      setPasskeys(await res.json());
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load passkeys", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  const handleRegister = async () => {
+    setRegistering(true);
+    try {
+      const optionsRes = await apiFetch("/api/admin/passkeys/register");
+      if (!optionsRes.ok) throw new Error("Failed to start registration");
+      const response = await startRegistration({ optionsJSON: await optionsRes.json() });
+      const res = await apiFetch("/api/admin/passkeys/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), response }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Registration failed");
+      setPasskeys((prev) => [...prev, data as Passkey]);
+      setName("");
+      showToast("Passkey added", "success");
+    } catch (err) {
+      // NotAllowedError: the user dismissed the browser prompt
+      if ((err as Error).name !== "NotAllowedError") {
+        showToast((err as Error).message || "Failed to add passkey", "error");
+      }
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    if (!confirm(`Remove "${passkey.name}"? It won't be able to sign in any more.`)) return;
+    setRemoving(passkey.id);
+    try {
+      const res = await apiFetch("/api/admin/passkeys", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: passkey.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Remove failed");
+      setPasskeys((prev) => prev.filter((p) => p.id !== passkey.id));
+      showToast("Passkey removed", "success");
+    } catch (err) {
+      showToast((err as Error).message || "Failed to remove passkey", "error");
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-4">
+      {/* Register form */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Passkey name (e.g. my iPhone)"
+          maxLength={64}
+          className="w-full px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 placeholder:text-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={handleRegister}
+          disabled={registering || !name.trim()}
+          className="shrink-0 flex items-center gap-1.5 text-xs px-3 py-2 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {registering ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Plus className="w-3.5 h-3.5" />
+          )}
+          Add passkey
+        </button>
+      </div>
+
+      {/* Passkey list */}
+      {loading ? (
+        <p className="text-xs text-rose-300">Loading...</p>
+      ) : passkeys.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">
+          No passkeys yet. Admin sign-in uses the PIN.
+        </p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center gap-3 py-2.5">
+              <Fingerprint className="w-4 h-4 text-rose-300 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-rose-600 font-medium truncate">{passkey.name}</p>
+                <p className="text-[11px] text-rose-300">
+                  Added {formatShortDate(passkey.createdAt)}
+                  {" · "}
+                  {passkey.lastUsedAt
+                    ? `Last used ${formatShortDate(passkey.lastUsedAt)}`
+                    : "Never used"}
+                  {passkey.backedUp && " · Synced"}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(passkey)}
+                disabled={removing !== null}
+                className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-red-50 hover:text-red-500 transition-colors disabled:opacity-50"
+                aria-label={`Remove ${passkey.name}`}
+              >
+                {removing === passkey.id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <X className="w-3.5 h-3.5" />
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, LogOut, MonitorSmartphone, RefreshCw, X } from "lucide-react";
+import { apiFetch } from "../../api";
+
+interface ActiveSession {
+  id: string;
+  role: "viewer" | "admin" | "share";
+  sub: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  expiresAt: number;
+  current: boolean;
+}
+
+function formatSince(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export default function SessionsPanel({
+  showToast,
+  onSignedOutEverywhere,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+  onSignedOutEverywhere: () => void;
+}) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch("/api/admin/sessions");
+      if (!res.ok) throw new Error("Failed to load sessions");
+      setSessions(await res.json());
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load sessions", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revoke = async (body: { id: string } | { all: true }) => {
+    setRevoking("id" in body ? body.id : "all");
+    try {
+      const res = await apiFetch("/api/admin/sessions", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error("Revoke failed");
+      return true;
+    } catch {
+      showToast("Failed to revoke. Please retry.", "error");
+      return false;
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (!(await revoke({ id: session.id }))) return;
+    if (session.current) {
+      onSignedOutEverywhere();
+      return;
+    }
+    showToast("Session revoked", "success");
+    setSessions((prev) => prev.filter((s) => s.id !== session.id));
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm("Log out every device, including this one?")) return;
+    if (await revoke({ all: true })) onSignedOutEverywhere();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-rose-300">
+          {loading ? "Loading..." : `${sessions.length} active session(s)`}
+        </span>
+        <div className="flex items-center gap-1.5">
+          <button
+            type="button"
+            onClick={loadSessions}
+            disabled={loading}
+            className="w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-rose-50 transition-colors disabled:opacity-50"
+            aria-label="Refresh sessions"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={handleRevokeAll}
+            disabled={revoking !== null}
+            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-red-200 text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            {revoking === "all" ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <LogOut className="w-3.5 h-3.5" />
+            )}
+            Log out everywhere
+          </button>
+        </div>
+      </div>
+
+      {!loading && sessions.length === 0 ? (
+        <p className="text-xs text-rose-300 py-4 text-center">No active sessions</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center gap-3 py-2.5">
+              <MonitorSmartphone className="w-4 h-4 text-rose-300 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-rose-600 font-medium truncate">
+                  {session.device}
+                  <span className="ml-2 text-[10px] bg-rose-100 text-rose-500 px-1.5 py-0.5 rounded-full font-medium">
+                    {session.role}
+                  </span>
+                  {session.current && (
+                    <span className="ml-1 text-[10px] bg-green-100 text-green-600 px-1.5 py-0.5 rounded-full font-medium">
+                      this device
+                    </span>
+                  )}
+                </p>
+                <p className="text-[11px] text-rose-300 truncate" title={session.userAgent}>
+                  Since {formatSince(session.createdAt)} · {session.ip}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(session)}
+                disabled={revoking !== null}
+                className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-red-50 hover:text-red-500 transition-colors disabled:opacity-50"
+                aria-label={`Revoke session on ${session.device}`}
+              >
+                {revoking === session.id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <X className="w-3.5 h-3.5" />
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Link2, Loader2, Plus, X } from "lucide-react";
+import { apiFetch } from "../../api";
+
+interface ShareLink {
+  id: string;
+  token: string;
+  date: string;
+  createdAt: string;
+  expiresAt: number;
+  maxViews: number | null;
+  views: number;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+];
+
+const VIEW_OPTIONS = [
+  { views: null, label: "Unlimited views" },
+  { views: 1, label: "1 view" },
+  { views: 5, label: "5 views" },
+  { views: 20, label: "20 views" },
+];
+
+function shareUrl(link: ShareLink): string {
+  return `${window.location.origin}/s/${link.token}`;
+}
+
+function formatShortDate(value: string | number): string {
+  const d = typeof value === "number" ? new Date(value * 1000) : new Date(value + "T00:00:00");
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function linkStatus(link: ShareLink): string | null {
+  if (link.expiresAt * 1000 <= Date.now()) return "Expired";
+  if (link.maxViews !== null && link.views >= link.maxViews) return "Used up";
+  return null;
+}
+
+export default function ShareLinksPanel({
+  selectedDate,
+  canShare,
+  showToast,
+}: {
+  selectedDate: string;
+  /** False until the selected day has a saved memory. */
+  canShare: boolean;
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [maxViews, setMaxViews] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/admin/share-links");
+      if (!res.ok) throw new Error("Failed to load share links");
+      setLinks(await res.json());
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load share links", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCopy = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link)).catch(() => {});
+    setCopiedId(link.id);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await apiFetch("/api/admin/share-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: selectedDate, expiresInDays: expiryDays, maxViews }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Create failed");
+      setLinks((prev) => [data as ShareLink, ...prev]);
+      await handleCopy(data as ShareLink);
+      showToast("Share link created and copied", "success");
+    } catch {
+      showToast("Failed to create share link. Please retry.", "error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm(`Revoke the share link for ${formatShortDate(link.date)}?`)) return;
+    setRevoking(link.id);
+    try {
+      const res = await apiFetch("/api/admin/share-links", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: link.id }),
+      });
+      if (!res.ok) throw new Error("Revoke failed");
+      setLinks((prev) => prev.filter((l) => l.id !== link.id));
+      showToast("Share link revoked", "success");
+    } catch {
+      showToast("Failed to revoke share link. Please retry.", "error");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const selectClass =
+    "px-3 py-2 rounded-xl border border-rose-200 text-xs text-rose-600 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300";
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-4">
+      {/* Create form */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={expiryDays}
+          onChange={(e) => setExpiryDays(Number(e.target.value))}
+          className={selectClass}
+          aria-label="Expires after"
+        >
+          {EXPIRY_OPTIONS.map(({ days, label }) => (
+            <option key={days} value={days}>
+              Expires: {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={maxViews === null ? "unlimited" : String(maxViews)}
+          onChange={(e) =>
+            setMaxViews(e.target.value === "unlimited" ? null : Number(e.target.value))
+          }
+          className={selectClass}
+          aria-label="View limit"
+        >
+          {VIEW_OPTIONS.map(({ views, label }) => (
+            <option key={label} value={views === null ? "unlimited" : String(views)}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={creating || !canShare}
+          className="ml-auto flex items-center gap-1.5 text-xs px-3 py-2 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={canShare ? undefined : "Save a memory for this day first"}
+        >
+          {creating ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : (
+            <Plus className="w-3.5 h-3.5" />
+          )}
+          Share {formatShortDate(selectedDate)}
+        </button>
+      </div>
+
+      {/* Link list */}
+      {loading ? (
+        <p className="text-xs text-rose-300">Loading...</p>
+      ) : links.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">No share links yet</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {links.map((link) => {
+            const status = linkStatus(link);
+            return (
+              <li
+                key={link.id}
+                className={`flex items-center gap-3 py-2.5 ${status ? "opacity-60" : ""}`}
+              >
+                <Link2 className="w-4 h-4 text-rose-300 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-rose-600 font-medium truncate">
+                    {formatShortDate(link.date)}
+                    {status && (
+                      <span className="ml-1.5 text-[10px] font-normal text-rose-400 bg-rose-50 rounded px-1.5 py-0.5 align-middle">
+                        {status}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-[11px] text-rose-300">
+                    {link.views}
+                    {link.maxViews !== null ? ` / ${link.maxViews}` : ""}
+                    {(link.maxViews ?? link.views) === 1 ? " view" : " views"}
+                    {" · "}
+                    Expires {formatShortDate(link.expiresAt)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleCopy(link)}
+                  className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-rose-50 transition-colors"
+                  aria-label="Copy link"
+                >
+                  {copiedId === link.id ? (
+                    <Check className="w-3.5 h-3.5" />
+                  ) : (
+                    <Copy className="w-3.5 h-3.5" />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(link)}
+                  disabled={revoking !== null}
+                  className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-red-50 hover:text-red-500 transition-colors disabled:opacity-50"
+                  aria-label="Revoke link"
+                >
+                  {revoking === link.id ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <X className="w-3.5 h-3.5" />
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useId, useState } from "react";
+import { Tag, X } from "lucide-react";
+import { isValidTag, MAX_TAGS, normalizeTag } from "../../validation";
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Tag chips with a text box that autocompletes from `suggestions` (tags in
+ * use, most used first). Enter, Tab or a comma adds the suggestion picked
+ * with the arrow keys, or else what's typed as a slug; Backspace in the
+ * empty box removes the last tag.
+ */
+export default function TagInput({
+  tags,
+  onChange,
+  suggestions,
+  invalid = false,
+}: {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+  invalid?: boolean;
+}) {
+  const listId = useId();
+  const [input, setInput] = useState("");
+  const [open, setOpen] = useState(false);
+  // Index into the suggestions picked with the arrow keys; -1 when none is
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const query = normalizeTag(input);
+  const matches = suggestions
+    .filter((tag) => !tags.includes(tag) && (!query || tag.includes(query)))
+    .sort((a, b) => Number(b.startsWith(query)) - Number(a.startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS);
+  const full = tags.length >= MAX_TAGS;
+
+  const add = (value: string) => {
+    const tag = normalizeTag(value);
+    setInput("");
+    setHighlighted(-1);
+    if (isValidTag(tag) && !tags.includes(tag) && !full) onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const listed = open && matches.length > 0;
+    if (e.key === "ArrowDown" && listed) {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % matches.length);
+    } else if (e.key === "ArrowUp" && listed) {
+      e.preventDefault();
+      setHighlighted((i) => (i <= 0 ? matches.length : i) - 1);
+    } else if (e.key === "Enter" || e.key === "," || e.key === "Tab") {
+      const picked = listed ? matches[highlighted] : undefined;
+      if (!picked && !input.trim()) return;
+      e.preventDefault();
+      add(picked ?? input);
+    } else if (e.key === "Backspace" && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex flex-wrap items-center gap-1.5 px-3 py-2 rounded-xl border bg-white focus-within:ring-2 focus-within:ring-rose-300 ${
+          invalid ? "border-red-300" : "border-rose-200"
+        }`}
+      >
+        <Tag className="w-3.5 h-3.5 text-rose-300 shrink-0" />
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 text-xs pl-2 pr-1 py-0.5 rounded-full bg-rose-100 text-rose-600"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="rounded-full p-0.5 text-rose-400 hover:text-rose-600 hover:bg-rose-200 transition-colors"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(-1);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            setOpen(false);
+            if (input.trim()) add(input);
+          }}
+          onKeyDown={handleKeyDown}
+          disabled={full}
+          placeholder={full ? `At most ${MAX_TAGS} tags` : tags.length === 0 ? "Add tags, e.g. trips" : ""}
+          role="combobox"
+          aria-label="Tags"
+          aria-expanded={open && matches.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={open && matches[highlighted] ? `${listId}-${highlighted}` : undefined}
+          className="flex-1 min-w-[8rem] text-xs text-rose-700 placeholder:text-rose-300 bg-transparent focus:outline-none disabled:cursor-not-allowed"
+        />
+      </div>
+      {open && matches.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-w-xs bg-white rounded-xl border border-rose-100 shadow-lg shadow-rose-100/50 py-1"
+        >
+          {matches.map((tag, i) => (
+            <li
+              key={tag}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === highlighted}
+              // mousedown, so the input's blur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add(tag);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-3 py-1.5 text-xs cursor-pointer ${
+                i === highlighted ? "bg-rose-50 text-rose-600" : "text-rose-500"
+              }`}
+            >
+              {tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
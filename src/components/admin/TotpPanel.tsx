@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import QRCode from "qrcode";
+import { apiFetch } from "../../api";
+
+interface TotpStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrDataUrl: string;
+}
+
+export default function TotpPanel({
+  showToast,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [status, setStatus] = useState<TotpStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/admin/totp");
+      if (!res.ok) throw new Error("Failed to load two-step status");
+      setStatus(await res.json());
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load two-step status", "error");
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      const res = await apiFetch("/api/admin/totp/enroll", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to start enrollment");
+      const qrDataUrl = await QRCode.toDataURL(data.otpauthUrl, { margin: 1, width: 192 });
+      setEnrollment({ ...data, qrDataUrl });
+      setRecoveryCodes(null);
+      setCode("");
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    try {
+      const res = await apiFetch("/api/admin/totp/enroll", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Confirmation failed");
+      setRecoveryCodes(data.recoveryCodes);
+      setCopied(false);
+      setEnrollment(null);
+      setCode("");
+      showToast("Two-step sign-in is on", "success");
+      loadStatus();
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    const value = prompt("Enter a current code (or a recovery code) to turn off two-step sign-in:");
+    if (!value?.trim()) return;
+    const isCode = /^\d{6}$/.test(value.trim());
+    setBusy(true);
+    try {
+      const res = await apiFetch("/api/admin/totp", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(isCode ? { code: value.trim() } : { recoveryCode: value.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to turn off");
+      setRecoveryCodes(null);
+      showToast("Two-step sign-in is off", "success");
+      loadStatus();
+    } catch (err) {
+      showToast((err as Error).message, "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n")).catch(() => {});
+    setCopied(true);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-4">
+      {/* Status */}
+      <div className="flex items-center gap-3">
+        {status?.enabled ? (
+          <ShieldCheck className="w-4 h-4 text-emerald-500 shrink-0" />
+        ) : (
+          <ShieldOff className="w-4 h-4 text-rose-300 shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-rose-600 font-medium">
+            {status === null ? "Loading..." : status.enabled ? "On" : "Off"}
+          </p>
+          <p className="text-[11px] text-rose-300">
+            {status?.enabled
+              ? `PIN sign-in asks for an authenticator code · ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? "" : "s"} left`
+              : "Add an authenticator app code after the PIN"}
+          </p>
+        </div>
+        {status && !enrollment && (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={busy}
+            className="shrink-0 text-xs px-3 py-2 rounded-xl border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+          >
+            {status.enabled ? "Set up again" : "Set up"}
+          </button>
+        )}
+        {status?.enabled && !enrollment && (
+          <button
+            type="button"
+            onClick={handleDisable}
+            disabled={busy}
+            className="shrink-0 text-xs px-3 py-2 rounded-xl border border-red-200 text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            Turn off
+          </button>
+        )}
+      </div>
+
+      {/* Enrollment: scan, then confirm with a code */}
+      {enrollment && (
+        <div className="p-3 rounded-xl bg-rose-50/60 border border-rose-100 space-y-3">
+          <p className="text-xs text-rose-500">
+            Scan this with your authenticator app, then enter the code it shows.
+            {status?.enabled && " This replaces your current app and recovery codes."}
+          </p>
+          <img
+            src={enrollment.qrDataUrl}
+            alt="Authenticator QR code"
+            className="w-48 h-48 mx-auto rounded-lg bg-white"
+          />
+          <p className="text-[11px] text-rose-400 text-center break-all">
+            Or enter this key: <code className="font-mono">{enrollment.secret}</code>
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              className="w-full px-3 py-2 rounded-xl border border-rose-200 text-sm text-center tracking-widest text-rose-700 placeholder:text-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={busy || code.trim().length !== 6}
+              className="shrink-0 flex items-center gap-1.5 text-xs px-3 py-2 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Confirm
+            </button>
+            <button
+              type="button"
+              onClick={() => setEnrollment(null)}
+              className="shrink-0 text-xs px-3 py-2 rounded-xl border border-rose-200 text-rose-400 hover:bg-rose-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recovery codes (only shown once) */}
+      {recoveryCodes && (
+        <div className="p-3 rounded-xl bg-amber-50 border border-amber-200">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs text-amber-700">
+              Save these recovery codes. Each works once and they won't be shown again.
+            </p>
+            <button
+              type="button"
+              onClick={handleCopyCodes}
+              className="shrink-0 ml-2 w-8 h-8 rounded-lg border border-amber-200 bg-white flex items-center justify-center text-amber-600 hover:bg-amber-100 transition-colors"
+              aria-label="Copy recovery codes"
+            >
+              {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            </button>
+          </div>
+          <ul className="grid grid-cols-2 gap-1">
+            {recoveryCodes.map((c) => (
+              <li
+                key={c}
+                className="text-xs font-mono text-amber-800 bg-white/80 rounded px-2 py-1 text-center"
+              >
+                {c}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
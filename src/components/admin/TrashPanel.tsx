@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { apiFetch } from "../../api";
+import type { MemoryEntry } from "../../types";
+
+interface TrashedMemory extends MemoryEntry {
+  deletedAt: string;
+  purgeAt: number; // unix seconds
+}
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export default function TrashPanel({
+  showToast,
+  onRestored,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+  /** Called after a restore so the curate view can reload its memories. */
+  onRestored: () => void;
+}) {
+  const [items, setItems] = useState<TrashedMemory[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null); // "<date>/<id>"
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const all: TrashedMemory[] = [];
+      let cursor: string | null = null;
+      do {
+        const res = await apiFetch(`/api/memories/trash${cursor ? `?cursor=${cursor}` : ""}`);
+        if (!res.ok) throw new Error("Failed to load trash");
+        const page: { memories: TrashedMemory[]; nextCursor: string | null; retentionDays: number } =
+          await res.json();
+        all.push(...page.memories);
+        setRetentionDays(page.retentionDays);
+        cursor = page.nextCursor;
+      } while (cursor);
+      setItems(all);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load trash", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const act = async (item: TrashedMemory, method: "POST" | "DELETE") => {
+    if (
+      method === "DELETE" &&
+      !confirm(`Delete the memory for ${item.date} permanently? This cannot be undone.`)
+    )
+      return;
+    setBusy(`${item.date}/${item.id}`);
+    try {
+      const res = await apiFetch("/api/memories/trash", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: item.date, id: item.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Request failed");
+      setItems((prev) => prev.filter((m) => m.id !== item.id || m.date !== item.date));
+      if (method === "POST") {
+        showToast("Memory restored", "success");
+        onRestored();
+      } else {
+        showToast("Memory deleted permanently", "success");
+      }
+    } catch (err) {
+      showToast((err as Error).message || "Request failed", "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-3">
+      {retentionDays !== null && (
+        <p className="text-xs text-rose-400">
+          Deleted memories stay here for {retentionDays} days, then they're removed for good.
+        </p>
+      )}
+      {loading ? (
+        <p className="text-xs text-rose-300">Loading...</p>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">Trash is empty</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {items.map((item) => (
+            <li key={`${item.date}/${item.id}`} className="py-2.5 flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-rose-600 font-medium">
+                  {item.date}
+                  <span className="font-normal text-rose-400">
+                    {" "}
+                    · {item.media?.length ?? 0} photo{item.media?.length === 1 ? "" : "s"}
+                  </span>
+                </p>
+                {item.text && <p className="text-xs text-rose-500 truncate">{item.text}</p>}
+                <p className="text-[11px] text-rose-300">
+                  Deleted {formatShortDate(new Date(item.deletedAt))} · removed for good{" "}
+                  {formatShortDate(new Date(item.purgeAt * 1000))}
+                </p>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => act(item, "POST")}
+                  disabled={busy !== null}
+                  className="flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+                >
+                  {busy === `${item.date}/${item.id}` ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  )}
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => act(item, "DELETE")}
+                  disabled={busy !== null}
+                  className="p-1.5 rounded-lg text-rose-300 hover:text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+                  aria-label={`Delete ${item.date} permanently`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
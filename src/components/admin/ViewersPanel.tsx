@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useState } from "react";
+import { Ban, KeyRound, Loader2, Plus, RotateCcw, UserRound } from "lucide-react";
+import { apiFetch } from "../../api";
+
+interface ViewerAccount {
+  username: string;
+  name: string;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClass =
+  "w-full px-3 py-2 rounded-xl border border-rose-200 text-sm text-rose-700 placeholder:text-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent";
+
+export default function ViewersPanel({
+  showToast,
+}: {
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const [viewers, setViewers] = useState<ViewerAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [username, setUsername] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  const loadViewers = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/admin/viewers");
+      if (!res.ok) throw new Error("Failed to load viewers");
+      setViewers(await res.json());
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load viewers", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadViewers();
+  }, [loadViewers]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await apiFetch("/api/admin/viewers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), name: name.trim(), password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Create failed");
+      setViewers((prev) =>
+        [...prev, data as ViewerAccount].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setUsername("");
+      setName("");
+      setPassword("");
+      showToast(`Added ${data.name}`, "success");
+    } catch (err) {
+      showToast((err as Error).message || "Failed to add viewer", "error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const update = async (
+    viewer: ViewerAccount,
+    changes: { disabled?: boolean; password?: string },
+    successMsg: string
+  ) => {
+    setUpdating(viewer.username);
+    try {
+      const res = await apiFetch("/api/admin/viewers", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: viewer.username, ...changes }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Update failed");
+      setViewers((prev) =>
+        prev.map((v) => (v.username === viewer.username ? (data as ViewerAccount) : v))
+      );
+      showToast(successMsg, "success");
+    } catch (err) {
+      showToast((err as Error).message || "Failed to update viewer", "error");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleToggleDisabled = (viewer: ViewerAccount) => {
+    if (!viewer.disabled && !confirm(`Disable ${viewer.name}? They'll be signed out everywhere.`)) {
+      return;
+    }
+    update(
+      viewer,
+      { disabled: !viewer.disabled },
+      viewer.disabled ? `${viewer.name} re-enabled` : `${viewer.name} disabled`
+    );
+  };
+
+  const handleResetPassword = (viewer: ViewerAccount) => {
+    const next = prompt(`New password for ${viewer.name} (at least ${MIN_PASSWORD_LENGTH} characters):`);
+    if (next === null) return;
+    if (next.length < MIN_PASSWORD_LENGTH) {
+      showToast(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, "error");
+      return;
+    }
+    update(viewer, { password: next }, `Password reset for ${viewer.name}`);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-rose-100 p-4 space-y-4">
+      {/* Add form */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (shown in the app)"
+            maxLength={64}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value.toLowerCase())}
+            placeholder="Login name"
+            maxLength={32}
+            autoCapitalize="none"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={
+              creating || !name.trim() || !username.trim() || password.length < MIN_PASSWORD_LENGTH
+            }
+            className="shrink-0 flex items-center gap-1.5 text-xs px-3 py-2 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {creating ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <Plus className="w-3.5 h-3.5" />
+            )}
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Account list */}
+      {loading ? (
+        <p className="text-xs text-rose-300">Loading...</p>
+      ) : viewers.length === 0 ? (
+        <p className="text-xs text-rose-300 text-center py-2">No viewer accounts yet</p>
+      ) : (
+        <ul className="divide-y divide-rose-50">
+          {viewers.map((viewer) => (
+            <li
+              key={viewer.username}
+              className={`flex items-center gap-3 py-2.5 ${viewer.disabled ? "opacity-60" : ""}`}
+            >
+              <UserRound className="w-4 h-4 text-rose-300 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-rose-600 font-medium truncate">
+                  {viewer.name}
+                  {viewer.disabled && (
+                    <span className="ml-1.5 text-[10px] font-normal text-rose-400 bg-rose-50 rounded px-1.5 py-0.5 align-middle">
+                      Disabled
+                    </span>
+                  )}
+                </p>
+                <p className="text-[11px] text-rose-300 truncate">{viewer.username}</p>
+              </div>
+              {updating === viewer.username ? (
+                <Loader2 className="w-4 h-4 text-rose-300 animate-spin" />
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleResetPassword(viewer)}
+                    disabled={updating !== null}
+                    className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-rose-50 transition-colors disabled:opacity-50"
+                    aria-label={`Reset password for ${viewer.name}`}
+                    title="Reset password"
+                  >
+                    <KeyRound className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleToggleDisabled(viewer)}
+                    disabled={updating !== null}
+                    className="shrink-0 w-8 h-8 rounded-lg border border-rose-200 flex items-center justify-center text-rose-400 hover:bg-red-50 hover:text-red-500 transition-colors disabled:opacity-50"
+                    aria-label={`${viewer.disabled ? "Enable" : "Disable"} ${viewer.name}`}
+                    title={viewer.disabled ? "Enable" : "Disable"}
+                  >
+                    {viewer.disabled ? (
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    ) : (
+                      <Ban className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Mic, Square, Upload } from "lucide-react";
+import { apiFetch } from "../../api";
+
+// The upload endpoint's limit; at 64 kbps this is several minutes
+const MAX_AUDIO_BYTES = 4 * 1024 * 1024;
+const MAX_RECORDING_SECONDS = 300;
+const RECORDING_BITRATE = 64_000;
+
+// Opus in webm where supported (Chrome, Firefox), AAC in mp4 otherwise (Safari)
+function recordingMimeType(): string | undefined {
+  return ["audio/webm;codecs=opus", "audio/webm", "audio/mp4"].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+}
+
+function formatElapsed(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Records a voice note with the microphone, or takes an audio file, and
+ * uploads it to the bucket. Hands the uploaded URL to `onUploaded`.
+ */
+export default function VoiceNoteRecorder({
+  date,
+  onUploaded,
+  showToast,
+}: {
+  date: string;
+  onUploaded: (url: string) => void;
+  showToast: (msg: string, type: "success" | "error") => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [uploading, setUploading] = useState(false);
+
+  // Leaving the page mid-recording releases the microphone without uploading
+  useEffect(
+    () => () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+      recorder.stream.getTracks().forEach((track) => track.stop());
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  useEffect(() => {
+    if (recording && elapsed >= MAX_RECORDING_SECONDS) recorderRef.current?.stop();
+  }, [recording, elapsed]);
+
+  const upload = async (audio: Blob) => {
+    if (audio.size > MAX_AUDIO_BYTES) {
+      showToast("Voice notes can be at most 4 MB", "error");
+      return;
+    }
+    setUploading(true);
+    try {
+      const params = new URLSearchParams({ date, type: audio.type });
+      const res = await apiFetch(`/api/admin/audio?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: audio,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Upload failed");
+      onUploaded(data.url);
+      showToast("Voice note uploaded", "success");
+    } catch (err) {
+      showToast((err as Error).message || "Upload failed", "error");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const startRecording = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      showToast("Microphone access was denied", "error");
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType: recordingMimeType(),
+      audioBitsPerSecond: RECORDING_BITRATE,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setRecording(false);
+      // "audio/webm;codecs=opus" → the server only needs "audio/webm"
+      const type = recorder.mimeType.split(";")[0] || "audio/webm";
+      if (chunks.length > 0) void upload(new Blob(chunks, { type }));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start(1000);
+    setElapsed(0);
+    setRecording(true);
+  };
+
+  const canRecord = typeof MediaRecorder !== "undefined" && Boolean(navigator.mediaDevices);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {recording ? (
+        <button
+          type="button"
+          onClick={() => recorderRef.current?.stop()}
+          className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-red-500 text-white hover:bg-red-600 transition-colors"
+        >
+          <Square className="w-3.5 h-3.5 fill-current" /> Stop · {formatElapsed(elapsed)}
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={startRecording}
+          disabled={!canRecord || uploading}
+          className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+        >
+          <Mic className="w-3.5 h-3.5" /> Record voice note
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void upload(file);
+        }}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={recording || uploading}
+        className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors disabled:opacity-50"
+      >
+        <Upload className="w-3.5 h-3.5" /> Upload audio
+      </button>
+      {uploading && (
+        <span className="flex items-center gap-1 text-xs text-rose-400">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Uploading...
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,13 @@
-import type { MemoryEntry } from "./types";
+import { apiFetch } from "./api";
+import type {
+  Collection,
+  MemoryComment,
+  MemoryEntry,
+  Reaction,
+  ReactionSummary,
+  SearchResult,
+  UnreadThread,
+} from "./types";
 
 /**
  * Get today's date string in YYYY-MM-DD format (local time)
@@ -12,12 +21,178 @@ export function getToday(): string {
 }
 
 /**
- * Fetch all memories from the API (backed by DynamoDB)
+ * The day a memory unlocks for viewers: its first anniversary
+ * (the server enforces the same rule, see api/_lib/unlock.ts)
  */
-export async function fetchMemories(): Promise<MemoryEntry[]> {
-  const res = await fetch("/api/memories");
+export function getUnlockDate(dateStr: string): string {
+  const d = new Date(dateStr + "T00:00:00");
+  d.setFullYear(d.getFullYear() + 1);
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+type MemoryPage = {
+  memories: (MemoryEntry | { date: string; locked: true })[];
+  nextCursor: string | null;
+};
+
+/**
+ * Fetch memories from the API (backed by DynamoDB), following the cursor
+ * until every page in the optional inclusive date range has been read.
+ * Days that aren't unlocked yet come back as { date, locked: true } stubs,
+ * except with `tag`, which only returns unlocked memories carrying it.
+ */
+export async function fetchMemories(
+  range: { from?: string; to?: string; tag?: string } = {}
+): Promise<MemoryEntry[]> {
+  const memories: MemoryEntry[] = [];
+  let cursor: string | null = null;
+  do {
+    const params = new URLSearchParams();
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+    if (range.tag) params.set("tag", range.tag);
+    if (cursor) params.set("cursor", cursor);
+    const res = await apiFetch(`/api/memories?${params.toString()}`);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch memories: ${res.status}`);
+    }
+    const page: MemoryPage = await res.json();
+    for (const m of page.memories) {
+      memories.push(
+        m.locked ? { date: m.date, type: "text", text: "", locked: true } : (m as MemoryEntry)
+      );
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+  return memories;
+}
+
+/** The admin-defined collections, by title. */
+export async function fetchCollections(): Promise<Collection[]> {
+  const res = await apiFetch("/api/collections");
+  if (!res.ok) {
+    throw new Error(`Failed to fetch collections: ${res.status}`);
+  }
+  return res.json();
+}
+
+/** The signed-in viewer's reactions, in date order. */
+export async function fetchReactions(): Promise<Reaction[]> {
+  const res = await apiFetch("/api/reactions");
+  if (!res.ok) {
+    throw new Error(`Failed to fetch reactions: ${res.status}`);
+  }
+  const data: { reactions: Reaction[] } = await res.json();
+  return data.reactions;
+}
+
+/** Adds (`on`) or takes back one of the signed-in viewer's reactions. */
+export async function setReaction(reaction: Reaction, on: boolean): Promise<void> {
+  const res = await apiFetch("/api/reactions", {
+    method: on ? "POST" : "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(reaction),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to save reaction: ${res.status}`);
+  }
+}
+
+/** Everyone's reactions per memory (admins only). */
+export async function fetchReactionSummary(): Promise<ReactionSummary[]> {
+  const res = await apiFetch("/api/reactions?summary=1");
+  if (!res.ok) {
+    throw new Error(`Failed to fetch reactions: ${res.status}`);
+  }
+  const data: { summary: ReactionSummary[] } = await res.json();
+  return data.summary;
+}
+
+/** A day's reply thread, oldest message first. */
+export async function fetchComments(date: string): Promise<MemoryComment[]> {
+  const res = await apiFetch(`/api/memories/${date}/comments`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch replies: ${res.status}`);
+  }
+  const data: { comments: MemoryComment[] } = await res.json();
+  return data.comments;
+}
+
+/** Adds a message to a day's thread as the signed-in viewer or admin. */
+export async function postComment(date: string, text: string): Promise<MemoryComment> {
+  const res = await apiFetch(`/api/memories/${date}/comments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `Failed to send reply: ${res.status}`);
+  }
+  return data.comment;
+}
+
+export async function deleteComment(date: string, id: string): Promise<void> {
+  const res = await apiFetch(`/api/memories/${date}/comments`, {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to delete reply: ${res.status}`);
+  }
+}
+
+/** Clears a day's unread replies (admins only). */
+export async function markCommentsRead(date: string): Promise<void> {
+  const res = await apiFetch(`/api/memories/${date}/comments`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ read: true }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to mark replies read: ${res.status}`);
+  }
+}
+
+/** Days with replies the author hasn't read, newest first (admins only). */
+export async function fetchUnreadComments(): Promise<UnreadThread[]> {
+  const res = await apiFetch("/api/memories/comments");
   if (!res.ok) {
-    throw new Error(`Failed to fetch memories: ${res.status}`);
+    throw new Error(`Failed to fetch unread replies: ${res.status}`);
+  }
+  const data: { unread: UnreadThread[] } = await res.json();
+  return data.unread;
+}
+
+/**
+ * Full-text search over memory text and tags, newest first. `terms` are the
+ * query's stems, for highlighting matches with matchesQuery (src/search.ts).
+ */
+export async function searchMemories(
+  query: string,
+  signal?: AbortSignal
+): Promise<{ results: SearchResult[]; terms: string[] }> {
+  const res = await apiFetch(`/api/search?${new URLSearchParams({ q: query }).toString()}`, { signal });
+  if (!res.ok) {
+    throw new Error(`Failed to search memories: ${res.status}`);
   }
   return res.json();
 }
+
+/**
+ * A day can hold several memories: group date-ordered memories by day,
+ * keeping each day's entries in the order the API returned them.
+ */
+export function groupByDate(memories: MemoryEntry[]): { date: string; entries: MemoryEntry[] }[] {
+  const days: { date: string; entries: MemoryEntry[] }[] = [];
+  for (const memory of memories) {
+    const last = days[days.length - 1];
+    if (last && last.date === memory.date) last.entries.push(memory);
+    else days.push({ date: memory.date, entries: [memory] });
+  }
+  return days;
+}
@@ -5,6 +5,7 @@ import "./index.css";
 import App from "./App";
 import AdminPage from "./pages/AdminPage";
 import LoginPage from "./pages/LoginPage";
+import SharedMemoryPage from "./pages/SharedMemoryPage";
 import AuthGuard from "./components/AuthGuard";
 
 createRoot(document.getElementById("root")!).render(
@@ -20,6 +21,22 @@ createRoot(document.getElementById("root")!).render(
             </AuthGuard>
           }
         />
+        <Route
+          path="/collections/:tag"
+          element={
+            <AuthGuard>
+              <App />
+            </AuthGuard>
+          }
+        />
+        <Route
+          path="/s/:token"
+          element={
+            <AuthGuard share>
+              {(shared) => <SharedMemoryPage shared={shared} />}
+            </AuthGuard>
+          }
+        />
         <Route path="/admin" element={<AdminPage />} />
       </Routes>
     </BrowserRouter>
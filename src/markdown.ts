@@ -0,0 +1,230 @@
+/**
+ * The small Markdown subset memories can be written in: headings (#, ##, ###),
+ * paragraphs, block quotes, bulleted and numbered lists (one level), horizontal
+ * rules, **bold**, *italic*, and ![caption](media:N) for the memory's Nth media
+ * item. Everything else, raw HTML included, stays literal text: the result is
+ * a tree the renderer turns into React elements, never an HTML string.
+ */
+
+export type Inline =
+  | { kind: "text"; text: string }
+  | { kind: "strong"; children: Inline[] }
+  | { kind: "em"; children: Inline[] }
+  /** `index` is 0-based into the memory's media */
+  | { kind: "image"; alt: string; index: number }
+  | { kind: "break" };
+
+export type Block =
+  | { kind: "heading"; level: 1 | 2 | 3; children: Inline[] }
+  | { kind: "paragraph"; children: Inline[] }
+  | { kind: "quote"; children: Block[] }
+  | { kind: "list"; ordered: boolean; start: number; items: Inline[][] }
+  | { kind: "rule" };
+
+const HEADING = /^(#{1,3})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const BULLET = /^\s{0,3}[-*+]\s+(.*)$/;
+const NUMBERED = /^\s{0,3}(\d{1,9})[.)]\s+(.*)$/;
+const IMAGE = /^!\[([^\]]*)\]\(media:(\d+)\)/;
+const ESCAPABLE = "\\`*_{}[]()#+-.!>~|";
+
+function startsBlock(line: string): boolean {
+  return HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || BULLET.test(line) || NUMBERED.test(line);
+}
+
+/** Lines joined by a line break, as a love letter or poem is written. */
+function inlineLines(lines: string[]): Inline[] {
+  return lines.flatMap((line, i) => [
+    ...(i > 0 ? [{ kind: "break" } as const] : []),
+    ...parseInline(line.trim()),
+  ]);
+}
+
+/** The closing delimiter for emphasis opened at `start`, or -1. */
+function findClose(text: string, start: number, delimiter: string): number {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] !== delimiter[0]) continue;
+    // A run of * or _ is one delimiter: a single * never closes on half of a **
+    let run = 1;
+    while (text[i + run] === delimiter[0]) run++;
+    if (text[i - 1] !== " ") {
+      if (run === delimiter.length) return i;
+      // In "***" the first * closes emphasis nested inside this one
+      if (delimiter.length === 2 && run === 3) return i + 1;
+    }
+    i += run - 1;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) out.push({ kind: "text", text: buffer });
+    buffer = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (ch === "\\" && ESCAPABLE.includes(text[i + 1] ?? "")) {
+      buffer += text[++i];
+      continue;
+    }
+
+    if (ch === "!") {
+      const image = IMAGE.exec(text.slice(i));
+      if (image) {
+        flush();
+        out.push({ kind: "image", alt: image[1], index: Number(image[2]) - 1 });
+        i += image[0].length - 1;
+        continue;
+      }
+    }
+
+    if (ch === "*" || ch === "_") {
+      // _ inside a word (snake_case) is just an underscore
+      const intraword = ch === "_" && /\w/.test(text[i - 1] ?? "");
+      const delimiter = text[i + 1] === ch ? ch + ch : ch;
+      const contentStart = i + delimiter.length;
+      if (!intraword && text[contentStart] && text[contentStart] !== " ") {
+        const close = findClose(text, contentStart, delimiter);
+        if (close > contentStart) {
+          flush();
+          out.push({
+            kind: delimiter.length === 2 ? "strong" : "em",
+            children: parseInline(text.slice(contentStart, close)),
+          });
+          i = close + delimiter.length - 1;
+          continue;
+        }
+      }
+    }
+
+    buffer += ch;
+  }
+  flush();
+  return out;
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        kind: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        inner.push(QUOTE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ kind: "quote", children: parseMarkdown(inner.join("\n")) });
+      continue;
+    }
+
+    const numbered = NUMBERED.exec(line);
+    if (numbered || BULLET.test(line)) {
+      const ordered = Boolean(numbered);
+      const itemPattern = ordered ? NUMBERED : BULLET;
+      const items: string[][] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const item = itemPattern.exec(lines[i]);
+        if (item) {
+          items.push([item[ordered ? 2 : 1]]);
+        } else if (startsBlock(lines[i])) {
+          break;
+        } else {
+          // A wrapped line continues the item above
+          items[items.length - 1].push(lines[i]);
+        }
+        i++;
+      }
+      blocks.push({
+        kind: "list",
+        ordered,
+        start: numbered ? Number(numbered[1]) : 1,
+        items: items.map(inlineLines),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ kind: "paragraph", children: inlineLines(paragraph) });
+  }
+
+  return blocks;
+}
+
+/** 0-based indexes of the media items the text shows inline. */
+export function referencedMedia(blocks: Block[]): Set<number> {
+  const found = new Set<number>();
+  const visitInline = (nodes: Inline[]) => {
+    for (const node of nodes) {
+      if (node.kind === "image") found.add(node.index);
+      else if (node.kind === "strong" || node.kind === "em") visitInline(node.children);
+    }
+  };
+  for (const block of blocks) {
+    if (block.kind === "quote") referencedMedia(block.children).forEach((n) => found.add(n));
+    else if (block.kind === "list") block.items.forEach(visitInline);
+    else if (block.kind !== "rule") visitInline(block.children);
+  }
+  return found;
+}
+
+/** The words of parsed Markdown without its markup, captions standing in for images. */
+export function plainText(blocks: Block[]): string {
+  const inlineText = (nodes: Inline[]): string =>
+    nodes
+      .map((node) => {
+        if (node.kind === "text") return node.text;
+        if (node.kind === "image") return node.alt;
+        if (node.kind === "break") return " ";
+        return inlineText(node.children);
+      })
+      .join("");
+  return blocks
+    .map((block) => {
+      if (block.kind === "quote") return plainText(block.children);
+      if (block.kind === "list") return block.items.map(inlineText).join(" ");
+      if (block.kind === "rule") return "";
+      return inlineText(block.children);
+    })
+    .filter(Boolean)
+    .join(" ");
+}
@@ -15,9 +15,56 @@ import {
   ChevronRight,
   ChevronUp,
   X,
+  MonitorSmartphone,
+  KeyRound,
+  Users,
+  Link2,
+  Fingerprint,
+  ShieldCheck,
+  History,
+  ArchiveRestore,
+  ArrowDownUp,
+  ChevronDown,
+  Plus,
+  Bookmark,
+  Search,
+  MessageCircle,
 } from "lucide-react";
-import type { MemoryEntry, MemoryType } from "../types";
+import { startAuthentication } from "@simplewebauthn/browser";
+import type {
+  Collection,
+  MemoryEntry,
+  MemoryFormat,
+  MemoryStatus,
+  ReactionSummary,
+  SearchResult,
+  UnreadThread,
+} from "../types";
+import type { FieldErrors } from "../validation";
 import CardBack from "../components/CardBack";
+import LockoutNotice from "../components/LockoutNotice";
+import SessionsPanel from "../components/admin/SessionsPanel";
+import ApiTokensPanel from "../components/admin/ApiTokensPanel";
+import ViewersPanel from "../components/admin/ViewersPanel";
+import ShareLinksPanel from "../components/admin/ShareLinksPanel";
+import PasskeysPanel from "../components/admin/PasskeysPanel";
+import TotpPanel from "../components/admin/TotpPanel";
+import ActivityPanel from "../components/admin/ActivityPanel";
+import ConflictDialog from "../components/admin/ConflictDialog";
+import TrashPanel from "../components/admin/TrashPanel";
+import HistoryPanel from "../components/admin/HistoryPanel";
+import ImportExportPanel from "../components/admin/ImportExportPanel";
+import CollectionsPanel from "../components/admin/CollectionsPanel";
+import TagInput from "../components/admin/TagInput";
+import VoiceNoteRecorder from "../components/admin/VoiceNoteRecorder";
+import AudioPlayer from "../components/AudioPlayer";
+import MarkdownText from "../components/MarkdownText";
+import SearchOverlay from "../components/SearchOverlay";
+import CommentThread from "../components/CommentThread";
+import type { MemoryDraft } from "../components/admin/ConflictDialog";
+import { apiFetch } from "../api";
+import { fetchCollections, fetchMemories, fetchReactionSummary, fetchUnreadComments } from "../data";
+import { deriveType, hasErrors, isAudioUrl, MAX_TEXT_LENGTH, validateMemory } from "../validation";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -43,12 +90,25 @@ function formatDateHeading(dateStr: string): string {
   });
 }
 
-function deriveType(mediaCount: number): MemoryType {
-  if (mediaCount === 0) return "text";
-  if (mediaCount === 1) return "photo";
-  return "gallery";
+/** ISO timestamp → value for a datetime-local input (local time, minutes). */
+function toLocalInput(iso: string | undefined): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
 }
 
+const STATUS_OPTIONS: { value: MemoryStatus; label: string }[] = [
+  { value: "draft", label: "Draft" },
+  { value: "ready", label: "Ready" },
+  { value: "published", label: "Published" },
+];
+
+const FORMAT_OPTIONS: { value: MemoryFormat; label: string }[] = [
+  { value: "plain", label: "Plain text" },
+  { value: "markdown", label: "Markdown" },
+];
+
 // ─── Main Component ─────────────────────────────────────────────────────────
 
 export default function AdminPage() {
@@ -57,17 +117,57 @@ export default function AdminPage() {
   const [checkingSession, setCheckingSession] = useState(true);
   const [authError, setAuthError] = useState("");
   const [authLoading, setAuthLoading] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [signInMethods, setSignInMethods] = useState({ pin: true, passkey: false });
+  const [passkeyLoading, setPasskeyLoading] = useState(false);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const clearLockout = useCallback(() => setLockedUntil(null), []);
 
   useEffect(() => {
-    fetch("/api/auth/me")
+    apiFetch("/api/auth/me")
       .then((res) => res.ok ? res.json() : null)
       .then((data) => {
         if (data?.role === "admin") setAuthed(true);
       })
       .catch(() => {})
       .finally(() => setCheckingSession(false));
+    apiFetch("/api/admin/auth")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data) setSignInMethods({ pin: data.pin === true, passkey: data.passkey === true });
+      })
+      .catch(() => {});
   }, []);
 
+  const handlePasskeySignIn = async () => {
+    setPasskeyLoading(true);
+    setAuthError("");
+    try {
+      const optionsRes = await apiFetch("/api/admin/passkeys/login");
+      if (!optionsRes.ok) throw new Error("Failed to start passkey sign-in");
+      const response = await startAuthentication({ optionsJSON: await optionsRes.json() });
+      const res = await apiFetch("/api/admin/passkeys/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response }),
+      });
+      const retryAfter = parseInt(res.headers.get("Retry-After") || "", 10);
+      if (retryAfter > 0) setLockedUntil(Date.now() + retryAfter * 1000);
+      if (res.ok) {
+        setAuthed(true);
+      } else if (res.status !== 429) {
+        setAuthError("Passkey not recognized. Try again.");
+      }
+    } catch (err) {
+      // NotAllowedError: the user dismissed the browser prompt
+      if ((err as Error).name !== "NotAllowedError") {
+        setAuthError("Passkey sign-in failed. Please retry.");
+      }
+    } finally {
+      setPasskeyLoading(false);
+    }
+  };
+
   if (checkingSession) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-rose-50 to-cream flex items-center justify-center">
@@ -83,18 +183,64 @@ export default function AdminPage() {
         setPin={setPin}
         error={authError}
         loading={authLoading}
+        lockedUntil={lockedUntil}
+        onLockoutExpire={clearLockout}
+        pinEnabled={signInMethods.pin}
+        passkeyEnabled={signInMethods.passkey}
+        passkeyLoading={passkeyLoading}
+        onPasskey={handlePasskeySignIn}
+        mfaRequired={mfaRequired}
+        onCancelMfa={() => {
+          setMfaRequired(false);
+          setAuthError("");
+          setPin("");
+        }}
+        onSubmitCode={async (value, isRecoveryCode) => {
+          setAuthLoading(true);
+          setAuthError("");
+          try {
+            const res = await apiFetch("/api/admin/auth", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(isRecoveryCode ? { recoveryCode: value } : { code: value }),
+            });
+            const retryAfter = parseInt(res.headers.get("Retry-After") || "", 10);
+            if (retryAfter > 0) setLockedUntil(Date.now() + retryAfter * 1000);
+            if (res.ok) {
+              setAuthed(true);
+              setMfaRequired(false);
+            } else if (res.status !== 429) {
+              const data = await res.json().catch(() => ({}));
+              if (data.error?.startsWith("PIN step expired")) {
+                setMfaRequired(false);
+                setPin("");
+                setAuthError("That took too long. Enter your PIN again.");
+              } else {
+                setAuthError("Invalid code. Try again.");
+              }
+            }
+          } catch {
+            setAuthError("Network error. Please retry.");
+          } finally {
+            setAuthLoading(false);
+          }
+        }}
         onSubmit={async () => {
           setAuthLoading(true);
           setAuthError("");
           try {
-            const res = await fetch("/api/admin/auth", {
+            const res = await apiFetch("/api/admin/auth", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({ pin }),
             });
+            const retryAfter = parseInt(res.headers.get("Retry-After") || "", 10);
+            if (retryAfter > 0) setLockedUntil(Date.now() + retryAfter * 1000);
             if (res.ok) {
-              setAuthed(true);
-            } else {
+              const data = await res.json().catch(() => ({}));
+              if (data.mfaRequired) setMfaRequired(true);
+              else setAuthed(true);
+            } else if (res.status !== 429) {
               setAuthError("Invalid PIN. Try again.");
             }
           } catch {
@@ -110,7 +256,7 @@ export default function AdminPage() {
   return (
     <AdminDashboard
       onLogout={async () => {
-        await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+        await apiFetch("/api/auth/logout", { method: "POST" }).catch(() => {});
         setAuthed(false);
         setPin("");
       }}
@@ -125,14 +271,114 @@ function PinGate({
   setPin,
   error,
   loading,
+  lockedUntil,
+  onLockoutExpire,
+  pinEnabled,
+  passkeyEnabled,
+  passkeyLoading,
+  onPasskey,
+  mfaRequired,
+  onSubmitCode,
+  onCancelMfa,
   onSubmit,
 }: {
   pin: string;
   setPin: (v: string) => void;
   error: string;
   loading: boolean;
+  lockedUntil: number | null;
+  onLockoutExpire: () => void;
+  pinEnabled: boolean;
+  passkeyEnabled: boolean;
+  passkeyLoading: boolean;
+  onPasskey: () => void;
+  /** PIN accepted; waiting for a TOTP or recovery code. */
+  mfaRequired: boolean;
+  onSubmitCode: (value: string, isRecoveryCode: boolean) => void;
+  onCancelMfa: () => void;
   onSubmit: () => void;
 }) {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  if (mfaRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-rose-50 to-cream flex items-center justify-center px-4">
+        <div className="bg-white rounded-2xl shadow-lg shadow-rose-100/50 p-8 w-full max-w-xs text-center">
+          <div className="w-14 h-14 rounded-full bg-rose-50 flex items-center justify-center mx-auto mb-4">
+            <ShieldCheck className="w-7 h-7 text-rose-400" />
+          </div>
+          <h1 className="font-display text-xl text-rose-600 font-semibold mb-1">
+            Two-step sign-in
+          </h1>
+          <p className="text-sm text-rose-400 mb-6">
+            {useRecoveryCode
+              ? "Enter one of your recovery codes"
+              : "Enter the 6-digit code from your authenticator app"}
+          </p>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              onSubmitCode(code.trim(), useRecoveryCode);
+            }}
+          >
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={useRecoveryCode ? "xxxx-xxxx" : "123456"}
+              inputMode={useRecoveryCode ? "text" : "numeric"}
+              autoComplete="one-time-code"
+              maxLength={useRecoveryCode ? 16 : 6}
+              className="w-full px-4 py-3 rounded-xl border border-rose-200 text-center text-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent mb-3"
+              autoFocus
+            />
+            {lockedUntil && (
+              <LockoutNotice until={lockedUntil} onExpire={onLockoutExpire} />
+            )}
+            {error && (
+              <p className="text-red-500 text-xs mb-3 flex items-center justify-center gap-1">
+                <AlertCircle className="w-3 h-3" /> {error}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={loading || !code.trim() || lockedUntil !== null}
+              className="w-full py-3 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : "Verify"}
+            </button>
+          </form>
+
+          <div className="flex justify-between mt-4 text-[11px]">
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode((v) => !v);
+                setCode("");
+              }}
+              className="text-rose-400 hover:text-rose-600"
+            >
+              {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setCode("");
+                setUseRecoveryCode(false);
+                onCancelMfa();
+              }}
+              className="text-rose-300 hover:text-rose-500"
+            >
+              Start over
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-rose-50 to-cream flex items-center justify-center px-4">
       <div className="bg-white rounded-2xl shadow-lg shadow-rose-100/50 p-8 w-full max-w-xs text-center">
@@ -142,39 +388,80 @@ function PinGate({
         <h1 className="font-display text-xl text-rose-600 font-semibold mb-1">
           Admin Access
         </h1>
-        <p className="text-sm text-rose-400 mb-6">Enter your PIN to continue</p>
+        <p className="text-sm text-rose-400 mb-6">
+          {passkeyEnabled ? "Sign in with your passkey" : "Enter your PIN to continue"}
+        </p>
 
-        <form
-          onSubmit={(e) => {
-            e.preventDefault();
-            onSubmit();
-          }}
-        >
-          <input
-            type="password"
-            value={pin}
-            onChange={(e) => setPin(e.target.value)}
-            placeholder="PIN"
-            className="w-full px-4 py-3 rounded-xl border border-rose-200 text-center text-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent mb-3"
-            autoFocus
-          />
-          {error && (
-            <p className="text-red-500 text-xs mb-3 flex items-center justify-center gap-1">
-              <AlertCircle className="w-3 h-3" /> {error}
-            </p>
-          )}
-          <button
-            type="submit"
-            disabled={loading || !pin}
-            className="w-full py-3 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        {passkeyEnabled && (
+          <>
+            <button
+              type="button"
+              onClick={onPasskey}
+              disabled={passkeyLoading || lockedUntil !== null}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {passkeyLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Fingerprint className="w-5 h-5" />
+              )}
+              Sign in with passkey
+            </button>
+            {pinEnabled && (
+              <p className="text-[11px] text-rose-300 my-4">or use the PIN</p>
+            )}
+          </>
+        )}
+
+        {!pinEnabled && (lockedUntil || error) && (
+          <div className="mt-3">
+            {lockedUntil && (
+              <LockoutNotice until={lockedUntil} onExpire={onLockoutExpire} />
+            )}
+            {error && (
+              <p className="text-red-500 text-xs flex items-center justify-center gap-1">
+                <AlertCircle className="w-3 h-3" /> {error}
+              </p>
+            )}
+          </div>
+        )}
+
+        {pinEnabled && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              onSubmit();
+            }}
           >
-            {loading ? (
-              <Loader2 className="w-5 h-5 animate-spin mx-auto" />
-            ) : (
-              "Unlock"
+            <input
+              type="password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder="PIN"
+              className="w-full px-4 py-3 rounded-xl border border-rose-200 text-center text-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent mb-3"
+              autoFocus
+            />
+            {lockedUntil && (
+              <LockoutNotice until={lockedUntil} onExpire={onLockoutExpire} />
             )}
-          </button>
-        </form>
+            {error && (
+              <p className="text-red-500 text-xs mb-3 flex items-center justify-center gap-1">
+                <AlertCircle className="w-3 h-3" /> {error}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={loading || !pin || lockedUntil !== null}
+              className="w-full py-3 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <Loader2 className="w-5 h-5 animate-spin mx-auto" />
+              ) : (
+                "Unlock"
+              )}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -182,8 +469,11 @@ function PinGate({
 
 // ─── Admin Dashboard ────────────────────────────────────────────────────────
 
+type DashboardView = "curate" | "activity" | "trash" | "import" | "collections";
+
 function AdminDashboard({ onLogout }: { onLogout: () => void }) {
   // State
+  const [view, setView] = useState<DashboardView>("curate");
   const [selectedDate, setSelectedDate] = useState(() => {
     const d = new Date();
     d.setFullYear(d.getFullYear() - 1);
@@ -198,11 +488,29 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
   const [photosInitialized, setPhotosInitialized] = useState(false);
   const [memories, setMemories] = useState<MemoryEntry[]>([]);
   const [memoriesLoading, setMemoriesLoading] = useState(true);
+  // The selected date's entry in the editor; null while composing a new one
+  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
+  // A search result's entry, to open once its date is selected
+  const pendingEntryRef = useRef<string | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [reordering, setReordering] = useState(false);
 
   const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
   const [messageText, setMessageText] = useState("");
+  const [memoryStatus, setMemoryStatus] = useState<MemoryStatus>("draft");
+  const [textFormat, setTextFormat] = useState<MemoryFormat>("plain");
+  const [tags, setTags] = useState<string[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [publishAtInput, setPublishAtInput] = useState(""); // datetime-local, "" = not scheduled
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const [saving, setSaving] = useState(false);
+  const [conflict, setConflict] = useState<{
+    base: MemoryEntry | null;
+    server: MemoryEntry | null;
+    draft: MemoryDraft;
+  } | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [deleteFromS3Loading, setDeleteFromS3Loading] = useState(false);
   const [previewOpen, setPreviewOpen] = useState(false);
@@ -218,6 +526,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
 
   const toastTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const composeSectionRef = useRef<HTMLElement>(null);
+  const repliesSectionRef = useRef<HTMLElement>(null);
   const photoListEndRef = useRef<HTMLDivElement | null>(null);
 
   const showToast = useCallback((msg: string, type: ToastType) => {
@@ -238,7 +547,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
           page: String(page),
           pageSize: String(photosPageSize),
         });
-        const res = await fetch(`/api/admin/photos?${params.toString()}`);
+        const res = await apiFetch(`/api/admin/photos?${params.toString()}`);
         if (!res.ok) throw new Error("Failed to load photos");
         const data: {
           items: PhotoWithDate[];
@@ -268,10 +577,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
   // Load all memories
   const loadMemories = useCallback(async () => {
     try {
-      const res = await fetch("/api/memories");
-      if (!res.ok) throw new Error("Failed to load memories");
-      const data: MemoryEntry[] = await res.json();
-      setMemories(data);
+      setMemories(await fetchMemories());
     } catch (err) {
       console.error(err);
     } finally {
@@ -283,24 +589,137 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
     loadMemories();
   }, [loadMemories]);
 
-  // When the selected date changes, load existing entry into the form
-  const existingEntry = memories.find((m) => m.date === selectedDate);
+  const loadCollections = useCallback(async () => {
+    try {
+      setCollections(await fetchCollections());
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  // Days with replies from viewers not read yet, newest first; opening a day's thread clears it
+  const [unreadThreads, setUnreadThreads] = useState<UnreadThread[]>([]);
+  const loadUnreadThreads = useCallback(async () => {
+    try {
+      setUnreadThreads(await fetchUnreadComments());
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUnreadThreads();
+  }, [loadUnreadThreads]);
+  const unreadCount = unreadThreads.reduce((sum, t) => sum + t.count, 0);
+
+  // Viewers' reactions, for the calendar; without them it just shows no hearts
+  const [reactionSummary, setReactionSummary] = useState<ReactionSummary[]>([]);
+  useEffect(() => {
+    fetchReactionSummary()
+      .then(setReactionSummary)
+      .catch((err) => console.error(err));
+  }, []);
+
+  // Tags for autocomplete, most used first; a collection's tag counts even before it's used
+  const tagSuggestions = useMemo(() => {
+    const counts = new Map<string, number>(collections.map((c) => [c.tag, 0]));
+    for (const m of memories) {
+      for (const tag of m.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+      .map(([tag]) => tag);
+  }, [memories, collections]);
+
+  // A day can hold several memories; the editor works on one of them
+  const dayEntries = useMemo(
+    () => memories.filter((m) => m.date === selectedDate),
+    [memories, selectedDate]
+  );
+  const existingEntry = dayEntries.find((m) => m.id === selectedEntryId);
+
+  // A new date (or the first load) opens its first memory, or the search result picked
+  useEffect(() => {
+    const pending = pendingEntryRef.current;
+    pendingEntryRef.current = null;
+    setSelectedEntryId(
+      pending && dayEntries.some((m) => m.id === pending) ? pending : (dayEntries[0]?.id ?? null)
+    );
+  }, [selectedDate, memoriesLoading]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openSearchResult = (result: SearchResult) => {
+    setSearchOpen(false);
+    setView("curate");
+    if (result.date === selectedDate) {
+      setSelectedEntryId(result.id);
+    } else {
+      pendingEntryRef.current = result.id;
+      setSelectedDate(result.date);
+    }
+    // After the curate tab is shown again
+    setTimeout(() => composeSectionRef.current?.scrollIntoView({ behavior: "smooth" }));
+  };
+
+  // The badge opens the day with the newest unread reply
+  const openUnreadReplies = () => {
+    const [newest] = unreadThreads;
+    if (!newest) return;
+    setView("curate");
+    setSelectedDate(newest.date);
+    setTimeout(() => repliesSectionRef.current?.scrollIntoView({ behavior: "smooth" }));
+  };
 
+  // When the selected entry changes, load it into the form
   useEffect(() => {
+    setFieldErrors({});
     if (existingEntry) {
       setMessageText(existingEntry.text);
       setSelectedUrls(new Set(existingEntry.media || []));
+      setMemoryStatus(existingEntry.status ?? "published");
+      setPublishAtInput(toLocalInput(existingEntry.publishAt));
+      setTextFormat(existingEntry.format ?? "plain");
+      setTags(existingEntry.tags ?? []);
     } else {
       setMessageText("");
       setSelectedUrls(new Set());
+      setMemoryStatus("draft");
+      setPublishAtInput("");
+      setTextFormat("plain");
+      setTags([]);
     }
-  }, [selectedDate, existingEntry?.date]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  // Set of dates that have a curated memory (for calendar highlight)
-  const memoryDates = useMemo(
-    () => new Set(memories.map((m) => m.date)),
-    [memories]
-  );
+  }, [selectedDate, existingEntry?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Dates that have a curated memory, with their publish state (for calendar colors).
+  // A day with several shows the most public one.
+  const memoryStatuses = useMemo(() => {
+    const rank: MemoryStatus[] = ["draft", "ready", "published"];
+    const statuses = new Map<string, MemoryStatus>();
+    for (const m of memories) {
+      const status = m.status ?? "published";
+      const prev = statuses.get(m.date);
+      if (!prev || rank.indexOf(status) > rank.indexOf(prev)) statuses.set(m.date, status);
+    }
+    return statuses;
+  }, [memories]);
+
+  // Reactions per date, across the day's memories. Reactions to memories that
+  // are gone (purged) aren't counted.
+  const reactionsByDate = useMemo(() => {
+    const live = new Set(memories.map((m) => `${m.date}/${m.id}`));
+    const byDate = new Map<string, DayReactions>();
+    for (const s of reactionSummary) {
+      if (!live.has(`${s.date}/${s.id}`)) continue;
+      const day = byDate.get(s.date) ?? { counts: {}, reactors: [] };
+      for (const [emoji, n] of Object.entries(s.counts)) day.counts[emoji] = (day.counts[emoji] ?? 0) + n;
+      for (const name of s.reactors) if (!day.reactors.includes(name)) day.reactors.push(name);
+      byDate.set(s.date, day);
+    }
+    return byDate;
+  }, [memories, reactionSummary]);
 
   // Keep calendar month in sync with selected date when changed via date picker
   useEffect(() => {
@@ -376,61 +795,125 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
   ].sort();
   const undatedPhotos = filteredPhotos.filter((p) => !p.date);
 
-  // Toggle photo selection
+  // The draft's voice note, if it has one; it's always the only media
+  const audioUrl = [...selectedUrls].find(isAudioUrl);
+
+  // Toggle photo selection (picking a photo drops a voice note)
   const togglePhoto = (url: string) => {
     setSelectedUrls((prev) => {
-      const next = new Set(prev);
+      const next = new Set([...prev].filter((u) => u === url || !isAudioUrl(u)));
       if (next.has(url)) next.delete(url);
       else next.add(url);
       return next;
     });
   };
 
-  // Save
-  const handleSave = async () => {
-    if (!messageText.trim() && selectedUrls.size === 0) {
-      showToast("Please add a message or select photos", "error");
-      return;
+  // Save over `basis` (the copy the draft was edited from, null for a new entry).
+  // The server answers 409 if someone saved this entry since; that opens the conflict dialog.
+  // Resolves true once saved.
+  const putMemory = async (draft: MemoryDraft, basis: MemoryEntry | null, reason?: string) => {
+    // Set for a new entry only when it's one that was deleted while being edited
+    const id = basis?.id ?? selectedEntryId ?? undefined;
+    const memory = {
+      date: selectedDate,
+      id,
+      type: deriveType(draft.media),
+      text: draft.text,
+      media: draft.media,
+      status: memoryStatus,
+      publishAt: publishAtInput ? new Date(publishAtInput).toISOString() : null,
+      // A voice note's transcript is always plain
+      format: deriveType(draft.media) === "audio" ? "plain" : (draft.format ?? textFormat),
+      tags,
+    };
+    // Same checks as the server, minus the media origin (only the server knows the bucket)
+    const errors = validateMemory(memory);
+    setFieldErrors(errors);
+    if (hasErrors(errors)) {
+      showToast(Object.values(errors)[0], "error");
+      return false;
     }
 
     setSaving(true);
-    const media = [...selectedUrls];
-    const type = deriveType(media.length);
-
     try {
-      const res = await fetch("/api/memories", {
+      const res = await apiFetch("/api/memories", {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ date: selectedDate, type, text: messageText.trim(), media }),
+        headers: {
+          "Content-Type": "application/json",
+          ...(basis ? { "If-Match": `"${basis.version ?? 0}"` } : id ? { "If-None-Match": "*" } : {}),
+        },
+        body: JSON.stringify({ ...memory, reason }),
       });
 
+      if (res.status === 400) {
+        const data = await res.json().catch(() => ({}));
+        if (data.fields) {
+          setFieldErrors(data.fields);
+          showToast(Object.values(data.fields as FieldErrors)[0] || "Invalid memory", "error");
+          return false;
+        }
+      }
+      if (res.status === 409) {
+        const data = await res.json();
+        setConflict({ base: basis, server: data.current ?? null, draft });
+        return false;
+      }
       if (!res.ok) throw new Error("Save failed");
+      const saved: { id: string } = await res.json();
+      setConflict(null);
+      setSelectedEntryId(saved.id);
+      setMessageText(draft.text);
+      setSelectedUrls(new Set(draft.media));
+      setTextFormat(memory.format);
       showToast("Memory saved!", "success");
       await loadMemories();
+      return true;
     } catch {
       showToast("Failed to save. Please retry.", "error");
+      return false;
     } finally {
       setSaving(false);
     }
   };
 
+  // Save
+  const handleSave = async () => {
+    await putMemory({ text: messageText.trim(), media: [...selectedUrls] }, existingEntry ?? null);
+  };
+
+  // Conflict: drop the draft and load what's saved now
+  const handleUseSavedCopy = async () => {
+    const server = conflict?.server ?? null;
+    setConflict(null);
+    // Deleted meanwhile: carry on as a new memory
+    if (!server) setSelectedEntryId(null);
+    setMessageText(server?.text ?? "");
+    setSelectedUrls(new Set(server?.media || []));
+    if (server) {
+      setMemoryStatus(server.status ?? "published");
+      setPublishAtInput(toLocalInput(server.publishAt));
+      setTextFormat(server.format ?? "plain");
+      setTags(server.tags ?? []);
+    }
+    await loadMemories();
+  };
+
   // Delete
   const handleDelete = async () => {
     if (!existingEntry) return;
-    if (!confirm("Delete this memory? This cannot be undone.")) return;
+    if (!confirm("Move this memory to the trash? You can restore it from the Trash tab.")) return;
 
     setDeleting(true);
     try {
-      const res = await fetch("/api/memories", {
+      const res = await apiFetch("/api/memories", {
         method: "DELETE",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ date: selectedDate }),
+        body: JSON.stringify({ date: selectedDate, id: existingEntry.id }),
       });
 
       if (!res.ok) throw new Error("Delete failed");
-      showToast("Memory deleted", "success");
-      setMessageText("");
-      setSelectedUrls(new Set());
+      showToast("Moved to trash", "success");
+      setSelectedEntryId(dayEntries.find((m) => m.id !== existingEntry.id)?.id ?? null);
       await loadMemories();
     } catch {
       showToast("Failed to delete. Please retry.", "error");
@@ -439,6 +922,31 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
     }
   };
 
+  // Move one of the day's entries up or down
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = dayEntries.map((m) => m.id!);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+    setReordering(true);
+    try {
+      const res = await apiFetch("/api/memories/order", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: selectedDate, ids }),
+      });
+      if (res.status === 409) {
+        showToast("This day changed somewhere else. Reloaded; try again.", "error");
+      } else if (!res.ok) {
+        throw new Error("Reorder failed");
+      }
+      await loadMemories();
+    } catch {
+      showToast("Failed to reorder. Please retry.", "error");
+    } finally {
+      setReordering(false);
+    }
+  };
+
   const handleDeleteFromS3 = async () => {
     const keys = photos.filter((p) => selectedUrls.has(p.url)).map((p) => p.key);
     if (keys.length === 0) return;
@@ -450,7 +958,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
       return;
     setDeleteFromS3Loading(true);
     try {
-      const res = await fetch("/api/admin/photos/delete", {
+      const res = await apiFetch("/api/admin/photos/delete", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ keys }),
@@ -473,7 +981,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
 
   const fetchOriginalCount = useCallback(async () => {
     try {
-      const res = await fetch("/api/admin/photos?source=originals");
+      const res = await apiFetch("/api/admin/photos?source=originals");
       if (!res.ok) return;
       const data = await res.json();
       setOriginalCount(data.length);
@@ -513,7 +1021,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
   const handleDeleteOriginals = async () => {
     // First fetch the list of originals to get their keys
     try {
-      const listRes = await fetch("/api/admin/photos?source=originals");
+      const listRes = await apiFetch("/api/admin/photos?source=originals");
       if (!listRes.ok) throw new Error("Failed to list originals");
       const originals: PhotoWithDate[] = await listRes.json();
 
@@ -535,10 +1043,10 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
       // Delete in batches of 1000 (S3 limit)
       for (let i = 0; i < keys.length; i += 1000) {
         const batch = keys.slice(i, i + 1000);
-        const res = await fetch("/api/admin/photos/delete", {
+        const res = await apiFetch("/api/admin/photos/delete", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ keys: batch }),
+          body: JSON.stringify({ keys: batch, reason: "Cleanup: delete all originals" }),
         });
         if (!res.ok) throw new Error("Delete batch failed");
       }
@@ -561,21 +1069,67 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
             Memory Curator
           </h1>
           <div className="flex items-center gap-1.5">
+            {([
+              { id: "curate" as const, label: "Curate" },
+              { id: "activity" as const, label: "Activity" },
+              { id: "trash" as const, label: "Trash" },
+              { id: "import" as const, label: "Import" },
+              { id: "collections" as const, label: "Collections" },
+            ]).map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setView(id)}
+                className={`text-xs px-2.5 py-1.5 rounded-lg border transition-colors ${
+                  view === id
+                    ? "bg-rose-500 text-white border-rose-500"
+                    : "bg-white text-rose-400 border-rose-200 hover:border-rose-300"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
             <button
               type="button"
-              onClick={() => composeSectionRef.current?.scrollIntoView({ behavior: "smooth" })}
-              className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
-            >
-              <Save className="w-3.5 h-3.5" /> To editor
-            </button>
-            <button
-              type="button"
-              onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
-              className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
-              aria-label="Jump to top"
+              onClick={() => setSearchOpen(true)}
+              className="p-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
+              aria-label="Search memories"
             >
-              <ChevronUp className="w-3.5 h-3.5" /> Top
+              <Search className="w-3.5 h-3.5" />
             </button>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={openUnreadReplies}
+                className="relative p-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
+                aria-label={`${unreadCount} unread ${unreadCount === 1 ? "reply" : "replies"}`}
+                title={unreadThreads.map((t) => `${t.date}: ${t.count}`).join("\n")}
+              >
+                <MessageCircle className="w-3.5 h-3.5" />
+                <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-rose-500 text-white text-[10px] leading-4 text-center">
+                  {unreadCount}
+                </span>
+              </button>
+            )}
+            {view === "curate" && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => composeSectionRef.current?.scrollIntoView({ behavior: "smooth" })}
+                  className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
+                >
+                  <Save className="w-3.5 h-3.5" /> To editor
+                </button>
+                <button
+                  type="button"
+                  onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
+                  className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg border border-rose-200 text-rose-500 hover:bg-rose-50 transition-colors"
+                  aria-label="Jump to top"
+                >
+                  <ChevronUp className="w-3.5 h-3.5" /> Top
+                </button>
+              </>
+            )}
             <button
               onClick={onLogout}
               className="flex items-center gap-1.5 text-sm text-rose-400 hover:text-rose-600 transition-colors"
@@ -586,7 +1140,61 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
         </div>
       </header>
 
-      <main className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+      {view === "activity" && (
+        <main className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+          <section>
+            <h3 className="text-sm font-medium text-rose-500 mb-3">
+              <History className="w-4 h-4 inline-block mr-1.5 align-middle" />
+              Activity
+            </h3>
+            <ActivityPanel showToast={showToast} />
+          </section>
+        </main>
+      )}
+
+      {view === "trash" && (
+        <main className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+          <section>
+            <h3 className="text-sm font-medium text-rose-500 mb-3">
+              <ArchiveRestore className="w-4 h-4 inline-block mr-1.5 align-middle" />
+              Trash
+            </h3>
+            <TrashPanel showToast={showToast} onRestored={loadMemories} />
+          </section>
+        </main>
+      )}
+
+      {view === "import" && (
+        <main className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+          <section>
+            <h3 className="text-sm font-medium text-rose-500 mb-3">
+              <ArrowDownUp className="w-4 h-4 inline-block mr-1.5 align-middle" />
+              Import &amp; export
+            </h3>
+            <ImportExportPanel showToast={showToast} onImported={loadMemories} />
+          </section>
+        </main>
+      )}
+
+      {view === "collections" && (
+        <main className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+          <section>
+            <h3 className="text-sm font-medium text-rose-500 mb-3">
+              <Bookmark className="w-4 h-4 inline-block mr-1.5 align-middle" />
+              Collections
+            </h3>
+            <CollectionsPanel
+              collections={collections}
+              memories={memories}
+              onChanged={loadCollections}
+              showToast={showToast}
+            />
+          </section>
+        </main>
+      )}
+
+      {/* Kept mounted on the other tabs so an unsaved draft survives switching */}
+      <main className={`max-w-3xl mx-auto px-4 py-6 space-y-8 ${view === "curate" ? "" : "hidden"}`}>
         {/* ── A) Date Picker ────────────────────────────── */}
         <section>
           <label className="flex items-center gap-2 text-sm font-medium text-rose-500 mb-2">
@@ -625,24 +1233,75 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
 
           {memoriesLoading ? (
             <p className="text-xs text-rose-300 mt-2">Loading entries...</p>
-          ) : existingEntry ? (
-            <div className="mt-3 p-3 rounded-xl bg-rose-50 border border-rose-100 text-sm">
-              <p className="text-rose-500 font-medium mb-1">
-                Existing entry ({existingEntry.type})
-              </p>
-              <p className="text-rose-400 italic text-xs line-clamp-2">
-                "{existingEntry.text}"
-              </p>
-              {existingEntry.media && existingEntry.media.length > 0 && (
-                <p className="text-rose-300 text-xs mt-1">
-                  {existingEntry.media.length} photo(s) attached
-                </p>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {dayEntries.length === 0 && (
+                <p className="text-xs text-rose-300">No entry for this date yet</p>
+              )}
+              {dayEntries.map((entry, index) => (
+                <div
+                  key={entry.id}
+                  className={`flex items-start gap-2 p-3 rounded-xl border text-sm transition-colors ${
+                    entry.id === selectedEntryId
+                      ? "bg-rose-50 border-rose-300"
+                      : "bg-white border-rose-100 hover:border-rose-200"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setSelectedEntryId(entry.id!)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-rose-500 font-medium mb-1">
+                      Memory {index + 1} ({entry.type})
+                    </p>
+                    {entry.text && (
+                      <p className="text-rose-400 italic text-xs line-clamp-2">"{entry.text}"</p>
+                    )}
+                    {entry.media && entry.media.length > 0 && (
+                      <p className="text-rose-300 text-xs mt-1">
+                        {entry.media.length} photo(s) attached
+                      </p>
+                    )}
+                  </button>
+                  {dayEntries.length > 1 && (
+                    <div className="flex flex-col gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={reordering || index === 0}
+                        className="w-7 h-7 rounded-lg border border-rose-200 bg-white flex items-center justify-center text-rose-400 hover:bg-rose-50 transition-colors disabled:opacity-30"
+                        aria-label={`Move memory ${index + 1} up`}
+                      >
+                        <ChevronUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={reordering || index === dayEntries.length - 1}
+                        className="w-7 h-7 rounded-lg border border-rose-200 bg-white flex items-center justify-center text-rose-400 hover:bg-rose-50 transition-colors disabled:opacity-30"
+                        aria-label={`Move memory ${index + 1} down`}
+                      >
+                        <ChevronDown className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {dayEntries.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSelectedEntryId(null)}
+                  className={`flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border transition-colors ${
+                    selectedEntryId === null
+                      ? "bg-rose-500 text-white border-rose-500"
+                      : "border-rose-200 text-rose-500 hover:bg-rose-50"
+                  }`}
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add another memory
+                </button>
               )}
             </div>
-          ) : (
-            <p className="text-xs text-rose-300 mt-2">
-              No entry for this date yet
-            </p>
           )}
         </section>
 
@@ -792,14 +1451,20 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
           className="bg-white rounded-2xl shadow-sm border border-rose-100 p-5"
         >
           <h3 className="text-sm font-medium text-rose-500 mb-3">
-            Compose Memory for{" "}
+            {existingEntry
+              ? dayEntries.length > 1
+                ? `Edit Memory ${dayEntries.indexOf(existingEntry) + 1} of ${dayEntries.length} for `
+                : "Edit Memory for "
+              : dayEntries.length > 0
+                ? "Add a Memory for "
+                : "Compose Memory for "}
             <span className="font-semibold">
               {formatDateHeading(selectedDate)}
             </span>
           </h3>
 
           {/* Selected photos preview */}
-          {selectedUrls.size > 0 && (
+          {selectedUrls.size > 0 && !audioUrl && (
             <div className="flex gap-2 overflow-x-auto pb-3 mb-3">
               {[...selectedUrls].map((url) => (
                 <div
@@ -823,21 +1488,165 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
             </div>
           )}
 
+          {/* Voice note: replaces any selected photos */}
+          {audioUrl ? (
+            <div className="mb-3">
+              <AudioPlayer url={audioUrl} />
+              <button
+                type="button"
+                onClick={() => setSelectedUrls(new Set())}
+                className="text-xs text-red-500 hover:underline"
+              >
+                Remove voice note
+              </button>
+            </div>
+          ) : (
+            <div className="mb-3">
+              <VoiceNoteRecorder
+                date={selectedDate}
+                onUploaded={(url) => setSelectedUrls(new Set([url]))}
+                showToast={showToast}
+              />
+              {selectedUrls.size > 0 && (
+                <p className="text-[11px] text-rose-300 mt-1">A voice note replaces the selected photos.</p>
+              )}
+            </div>
+          )}
+
           <p className="text-xs text-rose-300 mb-1">
             Type:{" "}
             <span className="font-medium text-rose-400">
-              {deriveType(selectedUrls.size)}
+              {deriveType([...selectedUrls])}
             </span>
-            {selectedUrls.size > 0 && ` (${selectedUrls.size} photo${selectedUrls.size > 1 ? "s" : ""})`}
+            {selectedUrls.size > 0 && !audioUrl && ` (${selectedUrls.size} photo${selectedUrls.size > 1 ? "s" : ""})`}
           </p>
+          {(fieldErrors.media || fieldErrors.type || fieldErrors.date) && (
+            <p className="text-xs text-red-500 mb-1">
+              {fieldErrors.media || fieldErrors.type || fieldErrors.date}
+            </p>
+          )}
 
-          <textarea
-            value={messageText}
-            onChange={(e) => setMessageText(e.target.value)}
-            placeholder="Write your love note or caption..."
-            rows={4}
-            className="w-full px-4 py-3 rounded-xl border border-rose-200 text-rose-700 placeholder:text-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent resize-none mb-4"
-          />
+          {!audioUrl && (
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <div className="flex rounded-xl border border-rose-200 overflow-hidden" role="radiogroup" aria-label="Format">
+                {FORMAT_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={textFormat === value}
+                    onClick={() => setTextFormat(value)}
+                    className={`text-xs px-3 py-1.5 transition-colors ${
+                      textFormat === value
+                        ? "bg-rose-500 text-white"
+                        : "bg-white text-rose-400 hover:bg-rose-50"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {textFormat === "markdown" && (
+                <p className="text-[11px] text-rose-300">
+                  **bold**, *italic*, # heading, - list, 1. list, &gt; quote.{" "}
+                  <code className="bg-rose-50 px-1 rounded">![caption](media:1)</code> places the first selected photo.
+                </p>
+              )}
+            </div>
+          )}
+          {fieldErrors.format && <p className="text-xs text-red-500 mb-1">{fieldErrors.format}</p>}
+
+          {/* Markdown: write on the left, see it as viewers will on the right */}
+          <div className={textFormat === "markdown" && !audioUrl ? "grid gap-3 sm:grid-cols-2" : ""}>
+            <textarea
+              value={messageText}
+              onChange={(e) => setMessageText(e.target.value)}
+              placeholder={audioUrl ? "Transcript of the voice note (optional)..." : "Write your love note or caption..."}
+              rows={textFormat === "markdown" && !audioUrl ? 12 : 4}
+              aria-invalid={Boolean(fieldErrors.text)}
+              className={`w-full px-4 py-3 rounded-xl border text-rose-700 placeholder:text-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent resize-none ${
+                textFormat === "markdown" && !audioUrl ? "font-mono text-sm" : ""
+              } ${fieldErrors.text ? "border-red-300" : "border-rose-200"}`}
+            />
+            {textFormat === "markdown" && !audioUrl && (
+              <div
+                aria-label="Markdown preview"
+                className="rounded-xl border border-rose-100 bg-rose-50/30 px-4 py-3 max-h-80 overflow-y-auto"
+              >
+                {messageText.trim() ? (
+                  <MarkdownText text={messageText} media={[...selectedUrls]} />
+                ) : (
+                  <p className="text-xs text-rose-300 italic">The preview appears here as you write.</p>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-between gap-2 text-xs mt-1 mb-4">
+            <span className="text-red-500">{fieldErrors.text}</span>
+            <span className={messageText.length > MAX_TEXT_LENGTH ? "text-red-500" : "text-rose-300"}>
+              {messageText.length}/{MAX_TEXT_LENGTH}
+            </span>
+          </div>
+
+          {/* Tags put the memory in collections (see the Collections tab) */}
+          <div className="mb-4">
+            <TagInput
+              tags={tags}
+              onChange={setTags}
+              suggestions={tagSuggestions}
+              invalid={Boolean(fieldErrors.tags)}
+            />
+            {fieldErrors.tags && <p className="text-xs text-red-500 mt-1">{fieldErrors.tags}</p>}
+          </div>
+
+          {/* Publish state: viewers only see published memories */}
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <div className="flex rounded-xl border border-rose-200 overflow-hidden" role="radiogroup" aria-label="Status">
+              {STATUS_OPTIONS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={memoryStatus === value}
+                  onClick={() => setMemoryStatus(value)}
+                  className={`text-xs px-3 py-2 transition-colors ${
+                    memoryStatus === value
+                      ? "bg-rose-500 text-white"
+                      : "bg-white text-rose-400 hover:bg-rose-50"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {memoryStatus !== "draft" && (
+              <label className="flex items-center gap-2 text-xs text-rose-400">
+                Publish at
+                <input
+                  type="datetime-local"
+                  value={publishAtInput}
+                  onChange={(e) => setPublishAtInput(e.target.value)}
+                  className="px-3 py-2 rounded-xl border border-rose-200 text-xs text-rose-600 bg-white focus:outline-none focus:ring-2 focus:ring-rose-300"
+                />
+              </label>
+            )}
+            <p className="w-full text-[11px] text-rose-300">
+              {memoryStatus === "draft"
+                ? "Drafts are never shown to viewers."
+                : memoryStatus === "ready"
+                  ? publishAtInput
+                    ? "Publishes automatically at the time above."
+                    : "Ready, but hidden from viewers until you publish it or set a time."
+                  : publishAtInput
+                    ? "Hidden from viewers until the time above."
+                    : "Visible to viewers once its date unlocks."}
+            </p>
+            {(fieldErrors.status || fieldErrors.publishAt) && (
+              <p className="w-full text-xs text-red-500">
+                {fieldErrors.status || fieldErrors.publishAt}
+              </p>
+            )}
+          </div>
 
           <div className="flex gap-3">
             <button
@@ -865,6 +1674,17 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
               Preview
             </button>
 
+            {existingEntry && (
+              <button
+                onClick={() => setHistoryOpen(true)}
+                className="flex items-center justify-center gap-2 px-4 sm:px-5 py-3 rounded-xl border border-rose-200 text-rose-500 font-medium hover:bg-rose-50 transition-colors"
+                aria-label="History"
+              >
+                <History className="w-4 h-4" />
+                <span className="hidden sm:inline">History</span>
+              </button>
+            )}
+
             {existingEntry && (
               <button
                 onClick={handleDelete}
@@ -942,7 +1762,8 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
             <MemoryCalendar
               year={calendarMonth.year}
               month={calendarMonth.month}
-              memoryDates={memoryDates}
+              memoryStatuses={memoryStatuses}
+              reactions={reactionsByDate}
               selectedDate={selectedDate}
               onSelectDate={setSelectedDate}
               onPrevMonth={() =>
@@ -963,6 +1784,75 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
           )}
         </section>
 
+        {/* ── Replies ──────────────────────────────────── */}
+        {dayEntries.length > 0 && (
+          <section ref={repliesSectionRef}>
+            <h3 className="text-sm font-medium text-rose-500 mb-3">
+              <MessageCircle className="w-4 h-4 inline-block mr-1.5 align-middle" />
+              Replies
+            </h3>
+            <CommentThread date={selectedDate} onRead={loadUnreadThreads} />
+          </section>
+        )}
+
+        {/* ── Share links ──────────────────────────────── */}
+        <section>
+          <h3 className="text-sm font-medium text-rose-500 mb-3">
+            <Link2 className="w-4 h-4 inline-block mr-1.5 align-middle" />
+            Share links
+          </h3>
+          <ShareLinksPanel
+            selectedDate={selectedDate}
+            canShare={dayEntries.length > 0}
+            showToast={showToast}
+          />
+        </section>
+
+        {/* ── Viewer accounts ───────────────────────────── */}
+        <section>
+          <h3 className="text-sm font-medium text-rose-500 mb-3">
+            <Users className="w-4 h-4 inline-block mr-1.5 align-middle" />
+            Viewer accounts
+          </h3>
+          <ViewersPanel showToast={showToast} />
+        </section>
+
+        {/* ── Admin passkeys ────────────────────────────── */}
+        <section>
+          <h3 className="text-sm font-medium text-rose-500 mb-3">
+            <Fingerprint className="w-4 h-4 inline-block mr-1.5 align-middle" />
+            Admin passkeys
+          </h3>
+          <PasskeysPanel showToast={showToast} />
+        </section>
+
+        {/* ── Two-step sign-in (TOTP) ───────────────────── */}
+        <section>
+          <h3 className="text-sm font-medium text-rose-500 mb-3">
+            <ShieldCheck className="w-4 h-4 inline-block mr-1.5 align-middle" />
+            Two-step sign-in
+          </h3>
+          <TotpPanel showToast={showToast} />
+        </section>
+
+        {/* ── Signed-in devices ─────────────────────────── */}
+        <section>
+          <h3 className="text-sm font-medium text-rose-500 mb-3">
+            <MonitorSmartphone className="w-4 h-4 inline-block mr-1.5 align-middle" />
+            Signed-in devices
+          </h3>
+          <SessionsPanel showToast={showToast} onSignedOutEverywhere={onLogout} />
+        </section>
+
+        {/* ── API tokens for scripts ────────────────────── */}
+        <section>
+          <h3 className="text-sm font-medium text-rose-500 mb-3">
+            <KeyRound className="w-4 h-4 inline-block mr-1.5 align-middle" />
+            API tokens
+          </h3>
+          <ApiTokensPanel showToast={showToast} />
+        </section>
+
         {/* ── Cleanup: Delete Originals ─────────────────── */}
         {originalCount !== null && originalCount > 0 && (
           <section className="bg-amber-50 rounded-2xl border border-amber-200 p-5">
@@ -1000,13 +1890,12 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
           if (date === selectedDate) {
             // Show live compose form content
             const urls = [...selectedUrls];
-            const type: MemoryType =
-              urls.length === 0 ? "text" : urls.length === 1 ? "photo" : "gallery";
             if (!messageText.trim() && urls.length === 0) return null;
             return {
               date,
-              type,
+              type: deriveType(urls),
               text: messageText,
+              format: textFormat,
               media: urls.length > 0 ? urls : undefined,
             };
           }
@@ -1092,6 +1981,40 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
         );
       })()}
 
+      {historyOpen && existingEntry && (
+        <HistoryPanel
+          date={selectedDate}
+          id={existingEntry.id!}
+          onClose={() => setHistoryOpen(false)}
+          onRevert={(revision) =>
+            putMemory(
+              { text: revision.text, media: revision.media, format: revision.format },
+              existingEntry ?? null,
+              `Reverted to version ${revision.version}`
+            )
+          }
+          showToast={showToast}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          key={conflict.server?.version ?? "deleted"}
+          date={selectedDate}
+          base={conflict.base}
+          server={conflict.server}
+          draft={conflict.draft}
+          saving={saving}
+          onSave={(draft) => putMemory(draft, conflict.server)}
+          onUseSaved={handleUseSavedCopy}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {searchOpen && (
+        <SearchOverlay onSelect={openSearchResult} onClose={() => setSearchOpen(false)} />
+      )}
+
       {/* Toast */}
       {toast && (
         <div
@@ -1117,10 +2040,23 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
 
 const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
+const STATUS_CELL_CLASSES: Record<MemoryStatus, string> = {
+  draft: "bg-gray-100 text-gray-500 border border-dashed border-gray-300 hover:bg-gray-200",
+  ready: "bg-amber-100 text-amber-700 hover:bg-amber-200",
+  published: "bg-rose-100 text-rose-600 hover:bg-rose-200",
+};
+
+/** A day's reactions in the calendar: counts per emoji and who left them. */
+interface DayReactions {
+  counts: Record<string, number>;
+  reactors: string[];
+}
+
 function MemoryCalendar({
   year,
   month,
-  memoryDates,
+  memoryStatuses,
+  reactions,
   selectedDate,
   onSelectDate,
   onPrevMonth,
@@ -1128,7 +2064,8 @@ function MemoryCalendar({
 }: {
   year: number;
   month: number;
-  memoryDates: Set<string>;
+  memoryStatuses: Map<string, MemoryStatus>;
+  reactions: Map<string, DayReactions>;
   selectedDate: string;
   onSelectDate: (date: string) => void;
   onPrevMonth: () => void;
@@ -1184,27 +2121,51 @@ function MemoryCalendar({
             return <div key={`e-${i}`} className="aspect-square" />;
           }
           const dateStr = `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-          const hasMemory = memoryDates.has(dateStr);
+          const status = memoryStatuses.get(dateStr);
           const isSelected = dateStr === selectedDate;
+          const dayReactions = reactions.get(dateStr);
+          // The most used reaction stands for the day; the tooltip has the rest
+          const ranked = dayReactions
+            ? Object.entries(dayReactions.counts).sort(([, a], [, b]) => b - a)
+            : [];
+          const total = ranked.reduce((sum, [, n]) => sum + n, 0);
+          const reactionTitle = dayReactions
+            ? ` · ${ranked.map(([emoji, n]) => `${emoji} ${n}`).join(", ")} from ${dayReactions.reactors.join(", ")}`
+            : "";
           return (
             <button
               key={dateStr}
               type="button"
               onClick={() => onSelectDate(dateStr)}
-              className={`aspect-square rounded-lg text-xs font-medium transition-colors ${
+              className={`aspect-square rounded-lg text-xs font-medium transition-colors flex flex-col items-center justify-center ${
                 isSelected
                   ? "bg-rose-500 text-white ring-2 ring-rose-400 ring-offset-1"
-                  : hasMemory
-                    ? "bg-rose-100 text-rose-600 hover:bg-rose-200"
+                  : status
+                    ? STATUS_CELL_CLASSES[status]
                     : "text-rose-400 hover:bg-rose-50"
               }`}
-              title={hasMemory ? `${dateStr} – has memory` : `${dateStr} – no memory`}
+              title={`${dateStr} – ${status ?? "no memory"}${reactionTitle}`}
             >
               {day}
+              {ranked.length > 0 && (
+                <span className="text-[9px] leading-none font-normal">
+                  {ranked[0][0]}
+                  {total > 1 && total}
+                </span>
+              )}
             </button>
           );
         })}
       </div>
+      <div className="flex items-center justify-center gap-3 mt-3 text-[10px] text-rose-400">
+        {STATUS_OPTIONS.map(({ value, label }) => (
+          <span key={value} className="flex items-center gap-1">
+            <span className={`w-2.5 h-2.5 rounded-sm ${STATUS_CELL_CLASSES[value]}`} />
+            {label}
+          </span>
+        ))}
+        {reactions.size > 0 && <span>❤️ Viewers' reactions</span>}
+      </div>
     </div>
   );
 }
@@ -1,27 +1,36 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Heart, Loader2, AlertCircle } from "lucide-react";
+import LockoutNotice from "../components/LockoutNotice";
+import { apiFetch } from "../api";
 
 export default function LoginPage() {
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
   const navigate = useNavigate();
+  const clearLockout = useCallback(() => setLockedUntil(null), []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError("");
     try {
-      const res = await fetch("/api/auth/viewer", {
+      const res = await apiFetch("/api/auth/viewer", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ username: username.trim(), password }),
       });
+      const retryAfter = parseInt(res.headers.get("Retry-After") || "", 10);
+      if (retryAfter > 0) setLockedUntil(Date.now() + retryAfter * 1000);
       if (res.ok) {
         navigate("/", { replace: true });
+      } else if (res.status === 429) {
+        setError("");
       } else {
-        setError("Invalid password");
+        setError("Invalid name or password");
       }
     } catch {
       setError("Network error. Please try again.");
@@ -39,17 +48,30 @@ export default function LoginPage() {
         <h1 className="font-display text-xl text-rose-600 font-semibold mb-1">
           Our Love Story
         </h1>
-        <p className="text-sm text-rose-400 mb-6">Enter our password to continue</p>
+        <p className="text-sm text-rose-400 mb-6">Sign in with your name and password</p>
 
         <form onSubmit={handleSubmit}>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Name"
+            autoCapitalize="none"
+            autoComplete="username"
+            className="w-full px-4 py-3 rounded-xl border border-rose-200 text-center text-lg focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent mb-3"
+            autoFocus
+          />
           <input
             type="password"
             value={password}
             onChange={(e) => setPassword(e.target.value)}
             placeholder="Password"
+            autoComplete="current-password"
             className="w-full px-4 py-3 rounded-xl border border-rose-200 text-center text-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent mb-3"
-            autoFocus
           />
+          {lockedUntil && (
+            <LockoutNotice until={lockedUntil} onExpire={clearLockout} />
+          )}
           {error && (
             <p className="text-red-500 text-xs mb-3 flex items-center justify-center gap-1">
               <AlertCircle className="w-3 h-3" /> {error}
@@ -57,7 +79,7 @@ export default function LoginPage() {
           )}
           <button
             type="submit"
-            disabled={loading || !password}
+            disabled={loading || !password || lockedUntil !== null}
             className="w-full py-3 rounded-xl bg-rose-500 text-white font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {loading ? (
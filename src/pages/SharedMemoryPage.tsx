@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Heart, Loader2 } from "lucide-react";
+import CardBack from "../components/CardBack";
+import EntryPager from "../components/EntryPager";
+import Gallery from "../components/Gallery";
+import LockedDay from "../components/LockedDay";
+import { fetchMemories, getUnlockDate } from "../data";
+import { apiFetch } from "../api";
+import type { MemoryEntry, SharedDay } from "../types";
+
+/**
+ * Stripped-down page for a share link: one day's memories and its media,
+ * without the timeline, countdown or navigation.
+ */
+export default function SharedMemoryPage({ shared }: { shared: SharedDay }) {
+  const [entries, setEntries] = useState<MemoryEntry[]>([]);
+  const [index, setIndex] = useState(0);
+  const [media, setMedia] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetchMemories(),
+      apiFetch(`/api/date-media?date=${encodeURIComponent(shared.date)}`)
+        .then((res) => (res.ok ? res.json() : { urls: [] }))
+        .catch(() => ({ urls: [] })),
+    ])
+      .then(([memories, dateMedia]: [MemoryEntry[], { urls?: string[] }]) => {
+        const day = memories.filter((m) => m.date === shared.date);
+        const used = new Set(day.flatMap((m) => m.media || []));
+        setEntries(day);
+        setMedia((dateMedia.urls || []).filter((u) => !used.has(u)));
+      })
+      .catch((err) => {
+        console.error(err);
+        setError("Could not load this memory.");
+      })
+      .finally(() => setLoading(false));
+  }, [shared.date]);
+
+  const memory = entries[index] ?? null;
+
+  const formattedDate = new Date(shared.date + "T00:00:00").toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-rose-50 via-pink-50/30 to-cream flex flex-col items-center px-4 py-10 gap-6">
+      <header className="text-center">
+        <Heart className="w-6 h-6 text-rose-400 fill-rose-200 mx-auto mb-2" />
+        <h1 className="font-display text-xl text-rose-600 font-semibold">A memory for you</h1>
+        <p className="text-sm text-rose-400 mt-1">{formattedDate}</p>
+      </header>
+
+      {loading ? (
+        <Loader2 className="w-8 h-8 text-rose-300 animate-spin mt-10" />
+      ) : error || !memory ? (
+        <p className="text-sm text-rose-400 mt-10">{error || "This memory isn't available."}</p>
+      ) : memory.locked ? (
+        <div className="w-full max-w-sm aspect-[3/4]">
+          <LockedDay date={getUnlockDate(memory.date)} />
+        </div>
+      ) : (
+        <>
+          <div className="w-full max-w-sm aspect-[3/4] flex flex-col">
+            <CardBack key={memory.id ?? index} entry={memory} compact={false} />
+          </div>
+          <EntryPager index={index} count={entries.length} onChange={setIndex} />
+          {media.length > 0 && (
+            <section className="w-full max-w-sm">
+              <p className="text-xs font-medium text-rose-400 uppercase tracking-wider text-center mb-2">
+                More from this day
+              </p>
+              <div className="w-full aspect-[3/4] rounded-2xl overflow-hidden bg-white/60">
+                <Gallery images={media} compact />
+              </div>
+            </section>
+          )}
+        </>
+      )}
+
+      <p className="text-[11px] text-rose-300 mt-auto">
+        Link expires{" "}
+        {new Date(shared.expiresAt * 1000).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        })}
+      </p>
+    </div>
+  );
+}
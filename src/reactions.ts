@@ -0,0 +1,12 @@
+/**
+ * The reactions viewers can leave on a memory, shared by the reaction buttons
+ * and /api/reactions. A heart is also what marks a favorite. Keep this file
+ * free of browser- and Node-only APIs: both sides import it.
+ */
+
+export const FAVORITE_REACTION = "❤️";
+export const REACTIONS: readonly string[] = [FAVORITE_REACTION, "🥹", "😍", "😂", "🔥", "🙏"];
+
+export function isReaction(value: unknown): value is string {
+  return typeof value === "string" && REACTIONS.includes(value);
+}
@@ -0,0 +1,86 @@
+/**
+ * Search terms, shared by the index (api/_lib/search.ts) and the search
+ * boxes that highlight matches. Words are lowercased, stripped of accents
+ * and reduced to a rough stem, so "lakes", "lake" and "Lake's" are all
+ * "lak". A query word matches every indexed stem it's a prefix of, which
+ * also finds words that are still being typed. Keep this file free of
+ * browser- and Node-only APIs: both sides import it.
+ */
+
+export const MIN_TERM_LENGTH = 2;
+export const MAX_QUERY_TERMS = 8;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "had", "has",
+  "have", "he", "her", "his", "i", "if", "in", "into", "is", "it", "its", "me", "my",
+  "of", "on", "or", "our", "she", "so", "that", "the", "their", "them", "then", "there",
+  "they", "this", "to", "us", "was", "we", "were", "with", "you", "your",
+]);
+
+const VOWEL = /[aeiouy]/;
+
+/** The words of `text`, lowercased and without accents or apostrophes. */
+export function words(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * A light English stemmer: strips plurals, -ly, -ed, -ing and a final e, and
+ * maps a final y to i. Not a full Porter stemmer; what matters is that the
+ * index and the query agree.
+ */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3 || /\d/.test(w)) return w;
+
+  if (w.endsWith("ly") && w.length > 5) w = w.slice(0, -2);
+
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (w.endsWith("s") && !w.endsWith("ss") && !w.endsWith("us")) w = w.slice(0, -1);
+
+  for (const suffix of ["ing", "ed"]) {
+    const base = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && base.length >= 3 && VOWEL.test(base)) {
+      w = base;
+      // running → runn → run
+      if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+      break;
+    }
+  }
+
+  if (w.length > 2 && /[^aeiou]y$/.test(w)) w = `${w.slice(0, -1)}i`;
+  if (w.length > 3 && w.endsWith("e")) w = w.slice(0, -1);
+  return w;
+}
+
+/** Distinct stems worth indexing in `text`: stopwords and single letters left out. */
+export function terms(text: string): string[] {
+  const found = new Set<string>();
+  for (const word of words(text)) {
+    if (STOPWORDS.has(word)) continue;
+    const term = stem(word);
+    if (term.length >= MIN_TERM_LENGTH) found.add(term);
+  }
+  return [...found];
+}
+
+/** A search box's terms, at most MAX_QUERY_TERMS; empty when nothing is searchable. */
+export function queryTerms(query: string): string[] {
+  return terms(query).slice(0, MAX_QUERY_TERMS);
+}
+
+/** Whether `word` (as written in a memory) matches one of the query's terms. */
+export function matchesQuery(word: string, query: string[]): boolean {
+  const [normalized] = words(word);
+  if (!normalized || STOPWORDS.has(normalized)) return false;
+  const term = stem(normalized);
+  return query.some((q) => term.startsWith(q));
+}
@@ -1,8 +1,81 @@
-export type MemoryType = "text" | "photo" | "gallery";
+export type MemoryType = "text" | "photo" | "gallery" | "audio";
+
+/** How `text` is shown: as written, or as Markdown (no raw HTML). */
+export type MemoryFormat = "plain" | "markdown";
+
+/** Viewers only see "published" memories, and "ready" ones once their publishAt has passed. */
+export type MemoryStatus = "draft" | "ready" | "published";
 
 export interface MemoryEntry {
   date: string; // "YYYY-MM-DD"
+  id?: string; // entry id; a day can hold several entries. Absent on locked stubs
+  type: MemoryType;
+  media?: string[]; // photo URLs (photo/gallery), or the one voice note URL (audio)
+  text: string; // quote, love note, caption, or a voice note's transcript
+  format?: MemoryFormat; // absent means plain
+  tags?: string[]; // lowercase slugs, e.g. ["trips", "firsts"]; absent means none
+  locked?: boolean; // not unlocked yet: the API withholds type, text and media
+  version?: number; // bumped on every save; sent back in If-Match to detect conflicts
+  status?: MemoryStatus; // admin responses only
+  publishAt?: string; // ISO timestamp; admin responses only
+}
+
+/**
+ * An admin-defined, titled group of memories: every memory carrying `tag`.
+ * Viewers browse it at /collections/:tag.
+ */
+export interface Collection {
+  tag: string;
+  title: string;
+  description?: string;
+  cover?: string; // media URL shown on the collection's card
+  updatedAt: string; // ISO timestamp
+}
+
+/** One of the signed-in viewer's reactions to a memory (GET /api/reactions). */
+export interface Reaction {
+  date: string;
+  id: string;
+  emoji: string; // one of REACTIONS in src/reactions.ts
+}
+
+/** Everyone's reactions to one memory, for the admin calendar. */
+export interface ReactionSummary {
+  date: string;
+  id: string;
+  counts: Record<string, number>; // emoji → viewers who left it
+  reactors: string[]; // display names
+}
+
+/** A message in a day's reply thread (GET /api/memories/:date/comments). */
+export interface MemoryComment {
+  id: string;
+  role: "viewer" | "admin"; // who wrote it: a viewer or the author
+  name: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+  mine: boolean; // written from the signed-in session
+  unread?: boolean; // a viewer's message the author hasn't opened; admin responses only
+}
+
+/** A day whose thread has viewer messages the author hasn't opened (GET /api/memories/comments). */
+export interface UnreadThread {
+  date: string;
+  count: number;
+  latestAt: string; // ISO timestamp of the newest unread message
+}
+
+/** One match from GET /api/search: where it is and the text around the match. */
+export interface SearchResult {
+  date: string;
+  id: string;
   type: MemoryType;
-  media?: string[]; // photo URLs (for photo/gallery types)
-  text: string; // quote, love note, or caption
+  snippet: string; // plain text, "…" where it's cut
+  tags?: string[];
+}
+
+/** What a share link (/s/:token) grants: read-only access to one day. */
+export interface SharedDay {
+  date: string; // "YYYY-MM-DD"
+  expiresAt: number; // unix seconds
 }
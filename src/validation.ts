@@ -0,0 +1,195 @@
+import type { MemoryFormat, MemoryStatus, MemoryType } from "./types";
+
+/**
+ * Memory validation shared by the admin form and PUT /api/memories, so the
+ * browser catches mistakes before saving and the server never stores them.
+ * Keep this file free of browser- and Node-only APIs: both sides import it.
+ */
+
+export const MEMORY_TYPES: readonly MemoryType[] = ["text", "photo", "gallery", "audio"];
+export const MEMORY_STATUSES: readonly MemoryStatus[] = ["draft", "ready", "published"];
+export const MEMORY_FORMATS: readonly MemoryFormat[] = ["plain", "markdown"];
+export const MAX_TEXT_LENGTH = 4000;
+export const MAX_MEDIA = 50;
+export const MAX_TAGS = 20;
+/** A tag is a lowercase slug: "trips", "first-dates", "2024". */
+export const TAG_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+export type MemoryField = "date" | "type" | "text" | "media" | "status" | "publishAt" | "format" | "tags";
+/** One message per invalid field; empty when the memory is valid. */
+export type FieldErrors = Partial<Record<MemoryField, string>>;
+
+/** Extensions of audio files, as uploaded or as the media pipeline converts them. */
+export const AUDIO_EXTENSIONS: readonly string[] = [".m4a", ".mp3", ".aac", ".ogg", ".oga", ".opus", ".wav"];
+/** Bucket prefix voice notes are uploaded under (recordings there may be .webm). */
+export const AUDIO_PREFIX = "audio/";
+
+/** Whether a media URL is a voice note rather than a photo or video. */
+export function isAudioUrl(url: string): boolean {
+  let path: string;
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return path.startsWith(`/${AUDIO_PREFIX}`) || AUDIO_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+/** The type a memory with this media must have. */
+export function deriveType(media: readonly string[]): MemoryType {
+  if (media.length === 0) return "text";
+  if (media.length === 1) return isAudioUrl(media[0]) ? "audio" : "photo";
+  return "gallery";
+}
+
+/** `![caption](media:N)` in Markdown shows the memory's Nth media item (1-based). */
+const MEDIA_REFERENCE = /!\[([^\]]*)\]\(media:(\d+)\)/g;
+
+/** The first media:N reference in `text` that has no media item, if any. */
+export function missingMediaReference(text: string, mediaCount: number): number | undefined {
+  for (const match of text.matchAll(MEDIA_REFERENCE)) {
+    const n = Number(match[2]);
+    if (n < 1 || n > mediaCount) return n;
+  }
+  return undefined;
+}
+
+function describeMedia(media: readonly string[]): string {
+  if (media.length === 1 && isAudioUrl(media[0])) return "a voice note";
+  return `${media.length} photo${media.length === 1 ? "" : "s"}`;
+}
+
+export function isValidTag(value: unknown): value is string {
+  return typeof value === "string" && TAG_PATTERN.test(value);
+}
+
+/** "Road Trips " → "road-trips": what a typed tag is stored as. */
+export function normalizeTag(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 32);
+}
+
+/** YYYY-MM-DD that is also a real calendar day (no 2025-02-30). */
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [y, m, d] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+function mediaError(media: unknown, mediaOrigins: string[] | undefined): string | undefined {
+  if (!Array.isArray(media)) return "Media must be a list of URLs";
+  if (media.length > MAX_MEDIA) return `At most ${MAX_MEDIA} photos per memory`;
+  const seen = new Set<string>();
+  for (const [i, url] of media.entries()) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return `Photo ${i + 1} isn't a valid URL`;
+    }
+    if (parsed.protocol !== "https:") return `Photo ${i + 1} must be an https URL`;
+    if (mediaOrigins && !mediaOrigins.includes(parsed.origin)) {
+      return `Photo ${i + 1} isn't from the media bucket`;
+    }
+    if (seen.has(url)) return `Photo ${i + 1} is listed twice`;
+    seen.add(url);
+  }
+  if (media.length > 1 && media.some((url) => isAudioUrl(url))) {
+    return "A voice note can't be mixed with photos";
+  }
+  return undefined;
+}
+
+function tagsError(tags: unknown): string | undefined {
+  if (!Array.isArray(tags)) return "Tags must be a list";
+  if (tags.length > MAX_TAGS) return `At most ${MAX_TAGS} tags per memory`;
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    if (!isValidTag(tag)) {
+      return `"${String(tag)}" isn't a valid tag: use a-z, 0-9 and dashes, up to 32 characters`;
+    }
+    if (seen.has(tag)) return `"${tag}" is listed twice`;
+    seen.add(tag);
+  }
+  return undefined;
+}
+
+/**
+ * Checks a memory as sent to PUT /api/memories.
+ *   mediaOrigins: origins media URLs may come from (e.g. the bucket's); omit to skip
+ */
+export function validateMemory(
+  input: {
+    date?: unknown;
+    type?: unknown;
+    text?: unknown;
+    media?: unknown;
+    status?: unknown;
+    publishAt?: unknown;
+    format?: unknown;
+    tags?: unknown;
+  },
+  options: { mediaOrigins?: string[] } = {}
+): FieldErrors {
+  const errors: FieldErrors = {};
+  const media = input.media ?? [];
+  const text = input.text ?? "";
+
+  if (!isValidDate(input.date)) {
+    errors.date = "Date must be a real day written YYYY-MM-DD";
+  }
+
+  const mediaProblem = mediaError(media, options.mediaOrigins);
+  if (mediaProblem) errors.media = mediaProblem;
+
+  if (typeof text !== "string") {
+    errors.text = "Text must be a string";
+  } else if (text.length > MAX_TEXT_LENGTH) {
+    errors.text = `Text is ${text.length} characters; the limit is ${MAX_TEXT_LENGTH}`;
+  } else if (!text.trim() && Array.isArray(media) && media.length === 0) {
+    errors.text = "Add a message or at least one photo";
+  }
+
+  if (!MEMORY_TYPES.includes(input.type as MemoryType)) {
+    errors.type = `Type must be one of: ${MEMORY_TYPES.join(", ")}`;
+  } else if (Array.isArray(media) && input.type !== deriveType(media)) {
+    errors.type = `A memory with ${describeMedia(media)} must be "${deriveType(media)}"`;
+  }
+
+  if (input.status !== undefined && !MEMORY_STATUSES.includes(input.status as MemoryStatus)) {
+    errors.status = `Status must be one of: ${MEMORY_STATUSES.join(", ")}`;
+  }
+
+  if (
+    input.publishAt !== undefined &&
+    input.publishAt !== null &&
+    (typeof input.publishAt !== "string" || isNaN(Date.parse(input.publishAt)))
+  ) {
+    errors.publishAt = "Publish time must be an ISO timestamp";
+  }
+
+  if (input.format !== undefined && !MEMORY_FORMATS.includes(input.format as MemoryFormat)) {
+    errors.format = `Format must be one of: ${MEMORY_FORMATS.join(", ")}`;
+  } else if (input.format === "markdown" && typeof text === "string" && !errors.text && Array.isArray(media)) {
+    const missing = missingMediaReference(text, media.length);
+    if (missing !== undefined) {
+      errors.text = `media:${missing} doesn't match any of this memory's ${media.length} photo${media.length === 1 ? "" : "s"}`;
+    }
+  }
+
+  if (input.tags !== undefined) {
+    const tagsProblem = tagsError(input.tags);
+    if (tagsProblem) errors.tags = tagsProblem;
+  }
+
+  return errors;
+}
+
+export function hasErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0;
+}